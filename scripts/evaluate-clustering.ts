@@ -0,0 +1,116 @@
+#!/usr/bin/env npx tsx
+/**
+ * Clustering Evaluation
+ * Sweeps clustering thresholds over a labeled article corpus and reports
+ * purity, B-cubed precision/recall/F1 and adjusted Rand index per threshold.
+ * Runs offline: no database or API keys needed.
+ *
+ * Usage:
+ *   npx tsx scripts/evaluate-clustering.ts [options]
+ *
+ * Options:
+ *   --fixture <path>      Labeled corpus (default tests/fixtures/clustering/labeled-articles.json):
+ *                         { "articles": [{ "id", "label", "title", "excerpt", "published_at" }] }
+ *   --vectors <kind>      tfidf (default) or embedding (local hashed n-gram embeddings)
+ *   --algorithm <name>    greedy (default), agglomerative, hdbscan or all
+ *   --from, --to, --step  Threshold sweep (default 0.05 to 0.6 by 0.05)
+ *   --window-hours <n>    Time window for candidate pairs (default 72)
+ *   --json                Print rows as JSON instead of a table
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { ClusterAlgorithmName, DEFAULT_WINDOW_HOURS, isClusterAlgorithm } from '../src/services/clusterCore.js';
+import { EvaluationRow, formatReport, LabeledArticle, sweepThresholds, thresholdRange } from '../src/services/clusterEval.js';
+import { hashEmbedding } from '../src/services/text.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Same size as the local embedding provider's vectors (src/ai/embeddings.ts)
+const LOCAL_EMBEDDING_DIMENSIONS = 1024;
+
+function fail(message: string): never {
+    console.error(`❌ ${message}`);
+    process.exit(1);
+}
+
+function loadCorpus(fixturePath: string): LabeledArticle[] {
+    if (!fs.existsSync(fixturePath)) {
+        fail(`Fixture not found: ${fixturePath}`);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    const articles: LabeledArticle[] = Array.isArray(parsed) ? parsed : parsed.articles;
+
+    if (!Array.isArray(articles) || articles.some((a) => !a.id || !a.label || !a.title || !a.published_at)) {
+        fail('Fixture must hold articles with id, label, title and published_at');
+    }
+
+    return articles;
+}
+
+function runEvaluation() {
+    const { values } = parseArgs({
+        options: {
+            fixture: { type: 'string', default: path.join(__dirname, '../tests/fixtures/clustering/labeled-articles.json') },
+            vectors: { type: 'string', default: 'tfidf' },
+            algorithm: { type: 'string', default: 'greedy' },
+            from: { type: 'string', default: '0.05' },
+            to: { type: 'string', default: '0.6' },
+            step: { type: 'string', default: '0.05' },
+            'window-hours': { type: 'string', default: String(DEFAULT_WINDOW_HOURS) },
+            json: { type: 'boolean', default: false },
+        },
+    });
+
+    const vectors = values.vectors;
+    if (vectors !== 'tfidf' && vectors !== 'embedding') {
+        fail(`Unknown vectors "${vectors}" (tfidf or embedding)`);
+    }
+
+    const algorithm = values.algorithm;
+    const algorithms: ClusterAlgorithmName[] = algorithm === 'all'
+        ? ['greedy', 'agglomerative', 'hdbscan']
+        : isClusterAlgorithm(algorithm) ? [algorithm] : fail(`Unknown algorithm "${algorithm}"`);
+
+    const [from, to, step, windowHours] = [values.from, values.to, values.step, values['window-hours']].map(Number);
+    if ([from, to, step, windowHours].some((n) => !Number.isFinite(n)) || step <= 0 || from > to) {
+        fail('--from, --to, --step and --window-hours must be numbers with from <= to and step > 0');
+    }
+
+    let articles = loadCorpus(values.fixture);
+    if (vectors === 'embedding') {
+        articles = articles.map((a) => ({
+            ...a,
+            embedding: hashEmbedding(`${a.title}\n${a.excerpt || ''}`, LOCAL_EMBEDDING_DIMENSIONS),
+        }));
+    }
+
+    const labels = new Set(articles.map((a) => a.label));
+    const thresholds = thresholdRange(from, to, step);
+    const results: Array<{ algorithm: ClusterAlgorithmName; rows: EvaluationRow[] }> = algorithms.map((name) => ({
+        algorithm: name,
+        rows: sweepThresholds(articles, thresholds, { algorithm: name, vectors, windowHours }),
+    }));
+
+    if (values.json) {
+        console.log(JSON.stringify({ fixture: values.fixture, vectors, articles: articles.length, events: labels.size, results }, null, 2));
+        return;
+    }
+
+    console.log(`📊 ${articles.length} articles, ${labels.size} labeled events (${path.relative(process.cwd(), values.fixture)})`);
+    console.log(`   vectors: ${vectors}, window: ${windowHours}h\n`);
+
+    for (const { algorithm: name, rows } of results) {
+        console.log(`${name}:`);
+        console.log(formatReport(rows));
+        console.log('');
+    }
+
+    console.log('* best B-cubed F1 per algorithm');
+}
+
+runEvaluation();
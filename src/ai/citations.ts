@@ -0,0 +1,177 @@
+/**
+ * Citation Verification
+ *
+ * Checks a synthesized briefing against the articles it was written from.
+ * Inline `[Source Name]` markers are parsed per sentence and matched to the
+ * supplied articles by source name; markers naming no supplied source are
+ * flagged as unknown (hallucinated) sources. Each cited sentence is scored by
+ * lexical support: the share of its significant words found in the cited
+ * articles' text. This catches invented sources and claims the sources don't
+ * mention, not subtle misreadings.
+ */
+
+import { splitSentences, tokenize } from '../services/text.js';
+import { Article, SynthesisSection } from './synthesis.js';
+
+// Share of a sentence's words that must appear in a cited article
+export const SUPPORT_THRESHOLD = 0.5;
+
+export type SentenceStatus = 'supported' | 'unsupported' | 'unknown_source' | 'uncited';
+
+export interface SentenceCheck {
+    text: string;
+    sources: string[];          // Source names as cited inline
+    article_ids: string[];      // Supplied articles those names matched
+    support: number | null;     // Best lexical support among the matched articles
+    status: SentenceStatus;
+}
+
+export interface SectionVerification {
+    title: string;
+    status: 'verified' | 'flagged';
+    support: number | null;     // Mean support of the section's cited sentences
+    unknown_sources: string[];
+    unsupported: number;
+    uncited: number;
+    sentences: SentenceCheck[];
+}
+
+export interface SynthesisVerification {
+    status: 'verified' | 'flagged';
+    verified_at: string;
+    unknown_sources: string[];
+    sections: SectionVerification[];
+}
+
+const CITATION_PATTERN = /\[([^[\]]+)\]/g;
+
+/**
+ * Lowercased words of a source name without a leading "the", so
+ * "The Guardian" and "guardian" compare equal
+ */
+function sourceWords(name: string): string[] {
+    const words = name.toLowerCase().split(/[^a-z0-9.]+/).map(w => w.replace(/\./g, '')).filter(Boolean);
+    return words[0] === 'the' ? words.slice(1) : words;
+}
+
+/**
+ * Whether an inline citation names an article's source: the same words, or
+ * one name's words starting the other's ("AP" cites "AP News")
+ */
+export function sourceMatches(cited: string, source: string): boolean {
+    const a = sourceWords(cited);
+    const b = sourceWords(source);
+    if (a.length === 0 || b.length === 0) return false;
+    if (a.join('') === b.join('')) return true;
+
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    return shorter.every((word, i) => word === longer[i]);
+}
+
+/**
+ * Source names cited in a sentence, and the sentence without its markers
+ */
+export function parseInlineCitations(sentence: string): { text: string; sources: string[] } {
+    const sources: string[] = [];
+
+    for (const match of sentence.matchAll(CITATION_PATTERN)) {
+        for (const name of match[1].split(/[,;]|\band\b/)) {
+            const trimmed = name.trim();
+            if (trimmed && !sources.includes(trimmed)) sources.push(trimmed);
+        }
+    }
+
+    return { text: sentence.replace(CITATION_PATTERN, ' ').replace(/\s+/g, ' ').trim(), sources };
+}
+
+/**
+ * Word without common inflections, so "raised" in a briefing matches
+ * "raises" in a source
+ */
+function stem(word: string): string {
+    return word.length > 3 ? word.replace(/(ing|ed|es|s|e)$/, '') : word;
+}
+
+/**
+ * Stemmed significant words of a text, for lexicalSupport
+ */
+export function textStems(text: string): Set<string> {
+    return new Set(tokenize(text).map(stem));
+}
+
+/**
+ * Share of the claim's significant words that the source text contains
+ * (1 when the claim has none to check)
+ */
+export function lexicalSupport(claim: string, sourceStems: Set<string>): number {
+    const words = textStems(claim);
+    if (words.size === 0) return 1;
+
+    let found = 0;
+    for (const word of words) {
+        if (sourceStems.has(word)) found++;
+    }
+    return found / words.size;
+}
+
+/**
+ * Verify every section's inline citations against the supplied articles
+ */
+export function verifySynthesis(sections: SynthesisSection[], articles: Article[]): SynthesisVerification {
+    const articleStems = new Map(
+        articles.map(a => [a.id, textStems(`${a.title} ${a.excerpt || ''} ${a.content || ''}`)])
+    );
+    const unknownOverall = new Set<string>();
+
+    const verified = sections.map((section): SectionVerification => {
+        const unknown = new Set<string>();
+
+        const sentences = splitSentences(section.content || '').map((sentence): SentenceCheck => {
+            const { text, sources } = parseInlineCitations(sentence);
+            if (sources.length === 0) {
+                return { text: sentence, sources, article_ids: [], support: null, status: 'uncited' };
+            }
+
+            const matched = articles.filter(a => sources.some(name => sourceMatches(name, a.source)));
+            sources
+                .filter(name => !articles.some(a => sourceMatches(name, a.source)))
+                .forEach(name => unknown.add(name));
+
+            if (matched.length === 0) {
+                return { text: sentence, sources, article_ids: [], support: null, status: 'unknown_source' };
+            }
+
+            const support = Math.max(...matched.map(a => lexicalSupport(text, articleStems.get(a.id)!)));
+            return {
+                text: sentence,
+                sources,
+                article_ids: matched.map(a => a.id),
+                support: Math.round(support * 1000) / 1000,
+                status: support >= SUPPORT_THRESHOLD ? 'supported' : 'unsupported',
+            };
+        });
+
+        const scored = sentences.filter(s => s.support !== null);
+        const unsupported = sentences.filter(s => s.status === 'unsupported').length;
+        unknown.forEach(name => unknownOverall.add(name));
+
+        return {
+            title: section.title,
+            status: unknown.size > 0 || unsupported > 0 ? 'flagged' : 'verified',
+            support: scored.length > 0
+                ? Math.round((scored.reduce((sum, s) => sum + s.support!, 0) / scored.length) * 1000) / 1000
+                : null,
+            unknown_sources: [...unknown],
+            unsupported,
+            uncited: sentences.filter(s => s.status === 'uncited').length,
+            sentences,
+        };
+    });
+
+    return {
+        status: verified.some(s => s.status === 'flagged') ? 'flagged' : 'verified',
+        verified_at: new Date().toISOString(),
+        unknown_sources: [...unknownOverall],
+        sections: verified,
+    };
+}
@@ -0,0 +1,210 @@
+/**
+ * Embedding Providers
+ *
+ * Turns article text into vectors for semantic clustering. Jina is used when
+ * JINA_API_KEY is set; otherwise a deterministic local provider hashes word
+ * and character n-grams into a fixed-size vector (see services/text.ts), so
+ * tests and offline runs cluster without network access. Vectors are stored on `articles.embedding`
+ * together with the model id, and only vectors from the same model are ever
+ * compared.
+ */
+
+import { env } from '../config/env.js';
+import { supabase } from '../config/database.js';
+import { HttpFetcher } from '../ingest/types.js';
+import { hashEmbedding } from '../services/text.js';
+import { assertQuota, recordUsage, SERVICE_QUOTAS, throttle } from '../services/quota.js';
+
+export interface EmbeddingProvider {
+    id: string;                         // stored as articles.embedding_model
+    dimensions: number;
+    // Cosine similarity above which two articles cover the same story
+    clusterThreshold: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddableArticle {
+    id: string;
+    title: string;
+    excerpt?: string | null;
+}
+
+// Matches the articles.embedding vector(1024) column
+export const EMBEDDING_DIMENSIONS = 1024;
+
+// Characters of title + excerpt sent for embedding
+const MAX_EMBEDDING_TEXT = 2000;
+
+// Embeddings stored per set_article_embeddings call
+const STORE_BATCH_SIZE = 100;
+
+/**
+ * Text embedded for an article
+ */
+export function embeddingText(article: EmbeddableArticle): string {
+    return `${article.title}\n${article.excerpt || ''}`.trim().slice(0, MAX_EMBEDDING_TEXT);
+}
+
+/**
+ * Cosine similarity between two vectors (0 when either is empty or zero)
+ */
+export function vectorCosine(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * pgvector column value as returned by PostgREST ("[0.1,0.2,...]") to an array
+ */
+export function parseVector(value: unknown): number[] | null {
+    if (Array.isArray(value)) return value as number[];
+    if (typeof value !== 'string' || !value.startsWith('[')) return null;
+
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// Local provider: hashed n-grams
+// ============================================
+
+export function createHashingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+    return {
+        id: 'local-hash-v1',
+        dimensions,
+        clusterThreshold: 0.3,
+        embed: async (texts) => texts.map((text) => hashEmbedding(text, dimensions)),
+    };
+}
+
+// ============================================
+// Remote provider: Jina
+// ============================================
+
+const JINA_API_URL = 'https://api.jina.ai/v1/embeddings';
+
+// Texts per Jina request
+const JINA_BATCH_SIZE = 64;
+
+interface JinaResponse {
+    data: Array<{ index: number; embedding: number[] }>;
+    usage?: { total_tokens: number };
+}
+
+export function createJinaProvider(
+    apiKey: string,
+    options: { model?: string; dimensions?: number; fetcher?: HttpFetcher } = {}
+): EmbeddingProvider {
+    const { model = 'jina-embeddings-v3', dimensions = EMBEDDING_DIMENSIONS, fetcher = fetch } = options;
+    const quota = SERVICE_QUOTAS.jina;
+
+    async function embedBatch(texts: string[]): Promise<number[][]> {
+        await assertQuota('jina', quota);
+        await throttle('jina', quota);
+
+        const response = await fetcher(JINA_API_URL, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model,
+                task: 'text-matching',
+                dimensions,
+                input: texts,
+            }),
+        });
+        await recordUsage('jina', quota);
+
+        if (!response.ok) {
+            throw new Error(`Jina embeddings request failed: ${response.status} ${await response.text()}`);
+        }
+
+        const body = await response.json() as JinaResponse;
+        if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+            throw new Error('Jina embeddings response does not match the request');
+        }
+
+        return [...body.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    }
+
+    return {
+        id: model,
+        dimensions,
+        clusterThreshold: 0.7,
+        async embed(texts) {
+            const vectors: number[][] = [];
+            for (let i = 0; i < texts.length; i += JINA_BATCH_SIZE) {
+                vectors.push(...await embedBatch(texts.slice(i, i + JINA_BATCH_SIZE)));
+            }
+            return vectors;
+        },
+    };
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+/**
+ * Jina when JINA_API_KEY is configured, the local hashing provider otherwise
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+    defaultProvider ??= env.JINA_API_KEY
+        ? createJinaProvider(env.JINA_API_KEY)
+        : createHashingProvider();
+    return defaultProvider;
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * Embed articles and store the vectors on their rows. Returns vectors by
+ * article id; throws if the provider fails, storage errors are only logged.
+ */
+export async function embedArticles(
+    articles: EmbeddableArticle[],
+    provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<Map<string, number[]>> {
+    const embedded = new Map<string, number[]>();
+    const embeddable = articles.filter((a) => a.title);
+    if (embeddable.length === 0) return embedded;
+
+    const vectors = await provider.embed(embeddable.map(embeddingText));
+    embeddable.forEach((article, i) => embedded.set(article.id, vectors[i]));
+
+    for (let i = 0; i < embeddable.length; i += STORE_BATCH_SIZE) {
+        const batch = embeddable.slice(i, i + STORE_BATCH_SIZE).map((article) => ({
+            id: article.id,
+            embedding: JSON.stringify(embedded.get(article.id)),
+        }));
+
+        const { error } = await supabase.rpc('set_article_embeddings', {
+            p_model: provider.id,
+            p_embeddings: batch,
+        });
+
+        if (error) {
+            console.error('Error storing article embeddings:', error);
+        }
+    }
+
+    return embedded;
+}
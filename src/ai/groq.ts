@@ -1,4 +1,9 @@
 import { env } from '../config/env.js';
+import { supabase } from '../config/database.js';
+import { QuotaExceededError } from '../services/quota.js';
+import { chatWithFallback, ChatMessage, getModelChain, ModelChoice } from './llm.js';
+import { generateValidated } from './structuredOutput.js';
+import { ANALYSIS_SCHEMA } from './outputSchemas.js';
 
 interface ExtractedEntity {
     name: string;
@@ -13,21 +18,24 @@ interface SentimentResult {
     reasoning?: string;
 }
 
-interface AIAnalysisResult {
+export interface AIAnalysisResult {
     entities: ExtractedEntity[];
     sentiment: SentimentResult;
     category?: string;
     summary?: string;
 }
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-
+/**
+ * Extract entities, sentiment and a category from an article with the
+ * task's model chain (LLM_ANALYSIS_MODELS)
+ */
 export async function analyzeArticle(
     title: string,
-    excerpt: string | null
+    excerpt: string | null,
+    chain: ModelChoice[] = getModelChain('analysis')
 ): Promise<AIAnalysisResult> {
-    if (!env.GROQ_API_KEY) {
-        console.warn('GROQ_API_KEY not configured, returning defaults');
+    if (chain.length === 0) {
+        console.warn('No LLM provider configured for analysis, returning defaults');
         return {
             entities: [],
             sentiment: { sentiment: 'neutral', score: 0 },
@@ -58,54 +66,34 @@ Return a JSON object with:
 
 IMPORTANT: Return ONLY valid JSON, no markdown code blocks or explanation.`;
 
+    const complete = (messages: ChatMessage[]) =>
+        chatWithFallback('analysis', chain, { messages, temperature: 0.1, maxTokens: 1024, json: true });
+
     try {
-        const response = await fetch(GROQ_API_URL, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${env.GROQ_API_KEY}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'llama-3.3-70b-versatile',
-                messages: [
-                    {
-                        role: 'system',
-                        content: 'You are a news analysis AI. Extract entities, sentiment, and categorize news articles. Always respond with valid JSON only.',
-                    },
-                    { role: 'user', content: prompt },
-                ],
-                temperature: 0.1,
-                max_tokens: 1024,
-            }),
+        const result = await generateValidated<AIAnalysisResult>({
+            task: 'analysis',
+            schema: ANALYSIS_SCHEMA,
+            messages: [
+                {
+                    role: 'system',
+                    content: 'You are a news analysis AI. Extract entities, sentiment, and categorize news articles. Always respond with valid JSON only.',
+                },
+                { role: 'user', content: prompt },
+            ],
+            complete,
+            maxRepairs: env.LLM_MAX_REPAIRS,
         });
 
-        if (!response.ok) {
-            const error = await response.text();
-            console.error('Groq API error:', error);
-            throw new Error(`Groq API error: ${response.status}`);
-        }
-
-        const data = await response.json() as {
-            choices: Array<{ message: { content: string } }>;
-        };
-
-        const content_response = data.choices[0]?.message?.content || '{}';
-
-        // Parse JSON (handle potential markdown wrapping)
-        let jsonStr = content_response.trim();
-        if (jsonStr.startsWith('```')) {
-            jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
-        }
-
-        const result = JSON.parse(jsonStr) as AIAnalysisResult;
-
         return {
             entities: result.entities || [],
-            sentiment: result.sentiment || { sentiment: 'neutral', score: 0 },
+            sentiment: result.sentiment,
             category: result.category,
             summary: result.summary,
         };
     } catch (error) {
+        // Every provider out of quota: callers stop instead of storing empty analyses
+        if (error instanceof QuotaExceededError) throw error;
+
         console.error('AI analysis error:', error);
         return {
             entities: [],
@@ -114,9 +102,108 @@ IMPORTANT: Return ONLY valid JSON, no markdown code blocks or explanation.`;
     }
 }
 
-// Batch process multiple articles
-export async function processUnanalyzedArticles(limit: number = 10) {
-    // This will be called from the processing route
-    // Returns list of article IDs that need processing
-    return { processed: 0, limit };
+export interface ProcessingSummary {
+    attempted: number;
+    processed: number;
+    failed: number;
+    quotaExhausted: boolean;
+    results: Array<{ id: string; success: boolean; entities?: number }>;
+}
+
+/**
+ * Store an analysis on its article and link the extracted entities
+ */
+export async function saveArticleAnalysis(articleId: string, analysis: AIAnalysisResult): Promise<void> {
+    await supabase
+        .from('articles')
+        .update({
+            sentiment: analysis.sentiment.sentiment,
+            sentiment_score: analysis.sentiment.score,
+            category: analysis.category || null,
+            summary: analysis.summary || null,
+            processed: true,
+        })
+        .eq('id', articleId);
+
+    for (const entity of analysis.entities) {
+        // Upsert entity
+        const { data: existingEntity } = await supabase
+            .from('entities')
+            .select('id')
+            .eq('name', entity.name)
+            .eq('type', entity.type)
+            .single();
+
+        let entityId = existingEntity?.id;
+
+        if (!entityId) {
+            const { data: newEntity } = await supabase
+                .from('entities')
+                .insert({
+                    name: entity.name,
+                    type: entity.type,
+                })
+                .select('id')
+                .single();
+            entityId = newEntity?.id;
+        }
+
+        // Link entity to article
+        if (entityId) {
+            await supabase
+                .from('article_entities')
+                .upsert({
+                    article_id: articleId,
+                    entity_id: entityId,
+                    confidence: entity.confidence,
+                    context: entity.context,
+                }, { onConflict: 'article_id,entity_id' });
+        }
+    }
+}
+
+/**
+ * Analyze the newest unprocessed articles, stopping early once the Groq quota runs out
+ */
+export async function processUnanalyzedArticles(limit: number = 10): Promise<ProcessingSummary> {
+    const { data: articles, error } = await supabase
+        .from('articles')
+        .select('id, title, excerpt')
+        .eq('processed', false)
+        .order('published_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to fetch articles: ${error.message}`);
+    }
+
+    const summary: ProcessingSummary = {
+        attempted: articles?.length || 0,
+        processed: 0,
+        failed: 0,
+        quotaExhausted: false,
+        results: [],
+    };
+
+    for (const article of articles || []) {
+        try {
+            const analysis = await analyzeArticle(article.title, article.excerpt);
+            await saveArticleAnalysis(article.id, analysis);
+
+            summary.processed++;
+            summary.results.push({ id: article.id, success: true, entities: analysis.entities.length });
+        } catch (err) {
+            if (err instanceof QuotaExceededError) {
+                // Leave the rest unprocessed for tomorrow's quota
+                console.warn(err.message);
+                summary.quotaExhausted = true;
+                break;
+            }
+            console.error(`Failed to process article ${article.id}:`, err);
+            summary.failed++;
+            summary.results.push({ id: article.id, success: false });
+        }
+    }
+
+    return summary;
 }
@@ -0,0 +1,412 @@
+/**
+ * LLM Providers
+ *
+ * One chat-completion interface over Groq, Google Gemini and any
+ * OpenAI-compatible endpoint (llama.cpp, vLLM, Ollama), plus a fixture
+ * provider that replays recorded replies so the AI pipeline runs offline.
+ * Each task (analysis, synthesis, summary) has a chain of provider:model
+ * choices; a request moves down the chain when a provider is rate limited,
+ * out of quota or failing (429/5xx), and fails on other errors. Replies are
+ * cached (see llmCache.ts) and every call's tokens and latency are counted
+ * per task (see services/llmUsage.ts).
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { env } from '../config/env.js';
+import { HttpFetcher } from '../ingest/types.js';
+import { assertQuota, QuotaExceededError, recordUsage, SERVICE_QUOTAS, throttle } from '../services/quota.js';
+import { recordLLMCall } from '../services/llmUsage.js';
+import { getCachedCompletion, isCacheEnabled, storeCachedCompletion } from './llmCache.js';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    json?: boolean;             // Ask for a JSON object reply, where the provider supports it
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface ChatCompletion {
+    content: string;
+    provider: string;
+    model: string;
+    usage: TokenUsage | null;   // null when the provider doesn't report it
+    cached?: boolean;           // Replayed from llm_cache
+    commit?(): Promise<void>;   // Caches the reply; call once the caller has accepted it
+}
+
+export interface LLMProvider {
+    id: string;                 // Used in model chains, e.g. "groq:llama-3.3-70b-versatile"
+    chat(request: ChatRequest): Promise<ChatCompletion>;
+}
+
+export type LLMTask = 'analysis' | 'synthesis' | 'summary';
+
+export interface ModelChoice {
+    provider: LLMProvider;
+    model: string;
+}
+
+export class LLMProviderError extends Error {
+    constructor(message: string, public provider: string, public status: number | null) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+
+    // Rate limits, server errors and network failures are worth another provider
+    get retryable(): boolean {
+        return this.status === null || this.status === 429 || this.status >= 500;
+    }
+}
+
+/**
+ * POST a JSON body, turning network failures and error statuses into
+ * LLMProviderError
+ */
+async function postJson<T>(provider: string, fetcher: HttpFetcher, url: string, headers: Record<string, string>, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetcher(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        throw new LLMProviderError(`${provider} request failed: ${error instanceof Error ? error.message : error}`, provider, null);
+    }
+
+    if (!response.ok) {
+        throw new LLMProviderError(`${provider} API error: ${response.status} ${await response.text()}`, provider, response.status);
+    }
+
+    return await response.json() as T;
+}
+
+// ============================================
+// OpenAI-compatible providers: Groq, local servers
+// ============================================
+
+interface OpenAIChatResponse {
+    model?: string;
+    choices: Array<{ message?: { content?: string | null } }>;
+    usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+export function createOpenAICompatibleProvider(options: {
+    id: string;
+    baseUrl: string;            // Up to and including /v1
+    apiKey?: string;
+    quota?: string;             // SERVICE_QUOTAS key to meter requests against
+    fetcher?: HttpFetcher;
+}): LLMProvider {
+    const { id, baseUrl, apiKey, quota, fetcher = fetch } = options;
+    const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+    return {
+        id,
+        async chat(request) {
+            if (quota) {
+                await assertQuota(quota, SERVICE_QUOTAS[quota]);
+                await throttle(quota, SERVICE_QUOTAS[quota]);
+            }
+
+            try {
+                const data = await postJson<OpenAIChatResponse>(id, fetcher, url, apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}, {
+                    model: request.model,
+                    messages: request.messages,
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+                });
+
+                return {
+                    content: data.choices[0]?.message?.content || '',
+                    provider: id,
+                    model: data.model || request.model,
+                    usage: data.usage ? {
+                        promptTokens: data.usage.prompt_tokens,
+                        completionTokens: data.usage.completion_tokens,
+                        totalTokens: data.usage.total_tokens,
+                    } : null,
+                };
+            } finally {
+                // Failed requests still count against the provider's limits
+                if (quota) await recordUsage(quota, SERVICE_QUOTAS[quota]);
+            }
+        },
+    };
+}
+
+export function createGroqProvider(apiKey: string, fetcher?: HttpFetcher): LLMProvider {
+    return createOpenAICompatibleProvider({
+        id: 'groq',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        apiKey,
+        quota: 'groq',
+        fetcher,
+    });
+}
+
+// ============================================
+// Google Gemini
+// ============================================
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiResponse {
+    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+    modelVersion?: string;
+}
+
+export function createGeminiProvider(apiKey: string, fetcher: HttpFetcher = fetch): LLMProvider {
+    return {
+        id: 'gemini',
+        async chat(request) {
+            await assertQuota('gemini', SERVICE_QUOTAS.gemini);
+            await throttle('gemini', SERVICE_QUOTAS.gemini);
+
+            // Gemini takes system prompts separately and calls the assistant "model"
+            const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+            const contents = request.messages
+                .filter(m => m.role !== 'system')
+                .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+            try {
+                const data = await postJson<GeminiResponse>(
+                    'gemini',
+                    fetcher,
+                    `${GEMINI_API_URL}/${encodeURIComponent(request.model)}:generateContent`,
+                    { 'x-goog-api-key': apiKey },
+                    {
+                        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+                        contents,
+                        generationConfig: {
+                            temperature: request.temperature,
+                            maxOutputTokens: request.maxTokens,
+                            ...(request.json ? { responseMimeType: 'application/json' } : {}),
+                        },
+                    }
+                );
+
+                const usage = data.usageMetadata;
+                return {
+                    content: (data.candidates?.[0]?.content?.parts || []).map(p => p.text || '').join(''),
+                    provider: 'gemini',
+                    model: data.modelVersion || request.model,
+                    usage: usage ? {
+                        promptTokens: usage.promptTokenCount || 0,
+                        completionTokens: usage.candidatesTokenCount || 0,
+                        totalTokens: usage.totalTokenCount || 0,
+                    } : null,
+                };
+            } finally {
+                await recordUsage('gemini', SERVICE_QUOTAS.gemini);
+            }
+        },
+    };
+}
+
+// ============================================
+// Fixture replay
+// ============================================
+
+// Recorded replies by fixtureKey
+export type LLMFixtures = Record<string, string>;
+
+/**
+ * Key a reply is recorded under: a hash of the conversation and JSON mode.
+ * The model is left out so fixtures survive model changes.
+ */
+export function fixtureKey(request: Pick<ChatRequest, 'messages' | 'json'>): string {
+    return createHash('sha256')
+        .update(JSON.stringify({ messages: request.messages, json: Boolean(request.json) }))
+        .digest('hex')
+        .slice(0, 16);
+}
+
+/**
+ * Replays recorded replies. A request with no recording fails (status 404,
+ * not retried) unless a fallback reply is given.
+ */
+export function createFixtureProvider(
+    fixtures: LLMFixtures,
+    options: { fallback?: (request: ChatRequest) => string } = {}
+): LLMProvider {
+    return {
+        id: 'fixture',
+        async chat(request) {
+            const key = fixtureKey(request);
+            const content = fixtures[key] ?? options.fallback?.(request);
+
+            if (content === undefined) {
+                throw new LLMProviderError(`No LLM fixture recorded for request ${key}`, 'fixture', 404);
+            }
+
+            return { content, provider: 'fixture', model: request.model, usage: null };
+        },
+    };
+}
+
+/**
+ * Wrap a provider so every reply is also written to `fixtures`, for saving
+ * and replaying later with createFixtureProvider
+ */
+export function createRecordingProvider(provider: LLMProvider, fixtures: LLMFixtures): LLMProvider {
+    return {
+        id: provider.id,
+        async chat(request) {
+            const completion = await provider.chat(request);
+            fixtures[fixtureKey(request)] = completion.content;
+            return completion;
+        },
+    };
+}
+
+// ============================================
+// Model chains
+// ============================================
+
+const providers = new Map<string, LLMProvider | null>();
+
+/**
+ * A configured provider by id, or null when its key/URL/fixture file is not set
+ */
+export function getLLMProvider(id: string): LLMProvider | null {
+    if (!providers.has(id)) {
+        let provider: LLMProvider | null = null;
+
+        if (id === 'groq' && env.GROQ_API_KEY) provider = createGroqProvider(env.GROQ_API_KEY);
+        if (id === 'gemini' && env.GOOGLE_GEMINI_API_KEY) provider = createGeminiProvider(env.GOOGLE_GEMINI_API_KEY);
+        if (id === 'local' && env.LLM_LOCAL_URL) {
+            provider = createOpenAICompatibleProvider({ id: 'local', baseUrl: env.LLM_LOCAL_URL, apiKey: env.LLM_LOCAL_API_KEY });
+        }
+        if (id === 'fixture' && env.LLM_FIXTURES) {
+            provider = createFixtureProvider(JSON.parse(readFileSync(env.LLM_FIXTURES, 'utf8')) as LLMFixtures);
+        }
+
+        providers.set(id, provider);
+    }
+    return providers.get(id)!;
+}
+
+/**
+ * "groq:llama-3.3-70b-versatile, gemini:gemini-2.0-flash" to provider/model
+ * pairs; entries without a model are skipped
+ */
+export function parseModelChain(spec: string): Array<{ provider: string; model: string }> {
+    return spec
+        .split(',')
+        .map(entry => entry.trim())
+        .map(entry => {
+            const separator = entry.indexOf(':');
+            return separator < 0
+                ? { provider: entry, model: '' }
+                : { provider: entry.slice(0, separator).trim(), model: entry.slice(separator + 1).trim() };
+        })
+        .filter(choice => choice.provider && choice.model);
+}
+
+const TASK_CHAINS: Record<LLMTask, () => string> = {
+    analysis: () => env.LLM_ANALYSIS_MODELS,
+    synthesis: () => env.LLM_SYNTHESIS_MODELS,
+    summary: () => env.LLM_SUMMARY_MODELS,
+};
+
+/**
+ * The task's model chain from env, limited to configured providers
+ */
+export function getModelChain(task: LLMTask): ModelChoice[] {
+    return parseModelChain(TASK_CHAINS[task]())
+        .map(({ provider, model }) => ({ provider: getLLMProvider(provider), model }))
+        .filter((choice): choice is ModelChoice => choice.provider !== null);
+}
+
+function isRetryable(error: unknown): boolean {
+    return error instanceof QuotaExceededError || (error instanceof LLMProviderError && error.retryable);
+}
+
+/**
+ * One choice's reply: from the cache when possible, otherwise from the
+ * provider, with the call counted against the task either way. Fresh
+ * replies are only cached through completion.commit(), so output that fails
+ * validation is never replayed.
+ */
+async function chatWithChoice(task: LLMTask, { provider, model }: ModelChoice, request: ChatRequest): Promise<ChatCompletion> {
+    // Recorded replies are already deterministic
+    const cacheable = provider.id !== 'fixture' && isCacheEnabled();
+
+    if (cacheable) {
+        const cached = await getCachedCompletion(provider.id, request);
+        if (cached) {
+            await recordLLMCall({ jobType: task, provider: provider.id, model, cacheHit: true });
+            return cached;
+        }
+    }
+
+    const started = Date.now();
+    let completion: ChatCompletion;
+    try {
+        completion = await provider.chat(request);
+    } catch (error) {
+        // A refused quota check never reached the provider
+        if (!(error instanceof QuotaExceededError)) {
+            await recordLLMCall({ jobType: task, provider: provider.id, model, failed: true, latencyMs: Date.now() - started });
+        }
+        throw error;
+    }
+
+    await recordLLMCall({
+        jobType: task,
+        provider: provider.id,
+        model,
+        promptTokens: completion.usage?.promptTokens,
+        completionTokens: completion.usage?.completionTokens,
+        latencyMs: Date.now() - started,
+    });
+
+    if (!cacheable || !completion.content.trim()) return completion;
+
+    return {
+        ...completion,
+        commit: () => storeCachedCompletion(provider.id, request, completion),
+    };
+}
+
+/**
+ * Complete a chat for a task with the first choice in the chain that
+ * succeeds. Rate limits, exhausted quotas and server errors move on to the
+ * next choice; other errors, and the last choice's error, are thrown.
+ */
+export async function chatWithFallback(task: LLMTask, chain: ModelChoice[], request: Omit<ChatRequest, 'model'>): Promise<ChatCompletion> {
+    if (chain.length === 0) {
+        throw new Error('No LLM provider configured');
+    }
+
+    let lastError: unknown;
+
+    for (const choice of chain) {
+        try {
+            return await chatWithChoice(task, choice, { ...request, model: choice.model });
+        } catch (error) {
+            if (!isRetryable(error)) throw error;
+
+            console.warn(`LLM ${choice.provider.id}:${choice.model} unavailable, trying next: ${error instanceof Error ? error.message : error}`);
+            lastError = error;
+        }
+    }
+
+    throw lastError;
+}
@@ -0,0 +1,110 @@
+/**
+ * LLM Response Cache
+ *
+ * Replies stored in `llm_cache` under a hash of everything that shapes them:
+ * provider, model, the messages, temperature, token limit and JSON mode.
+ * Re-analyzing an article or re-synthesizing an unchanged story replays the
+ * stored reply instead of spending provider quota. Entries expire after
+ * LLM_CACHE_TTL_HOURS (0 turns caching off); lookups and writes never fail
+ * the call they belong to.
+ */
+
+import { createHash } from 'crypto';
+import { env } from '../config/env.js';
+import { supabase } from '../config/database.js';
+import { ChatCompletion, ChatRequest } from './llm.js';
+
+function sha256(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Hash of the conversation alone
+ */
+export function promptHash(messages: ChatRequest['messages']): string {
+    return sha256(JSON.stringify(messages));
+}
+
+/**
+ * Cache key for a request to a provider
+ */
+export function cacheKey(provider: string, request: ChatRequest): string {
+    return sha256(JSON.stringify({
+        provider,
+        model: request.model,
+        prompt: promptHash(request.messages),
+        temperature: request.temperature ?? null,
+        maxTokens: request.maxTokens ?? null,
+        json: Boolean(request.json),
+    }));
+}
+
+export function isCacheEnabled(): boolean {
+    return env.LLM_CACHE_TTL_HOURS > 0;
+}
+
+/**
+ * Unexpired cached reply, or null
+ */
+export async function getCachedCompletion(provider: string, request: ChatRequest): Promise<ChatCompletion | null> {
+    const { data, error } = await supabase
+        .from('llm_cache')
+        .select('content, response_model, prompt_tokens, completion_tokens')
+        .eq('key', cacheKey(provider, request))
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error reading LLM cache:', error);
+        return null;
+    }
+    if (!data) return null;
+
+    const promptTokens = data.prompt_tokens ?? null;
+    const completionTokens = data.completion_tokens ?? null;
+
+    return {
+        content: data.content,
+        provider,
+        model: data.response_model || request.model,
+        usage: promptTokens === null || completionTokens === null
+            ? null
+            : { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        cached: true,
+    };
+}
+
+export async function storeCachedCompletion(provider: string, request: ChatRequest, completion: ChatCompletion): Promise<void> {
+    const { error } = await supabase
+        .from('llm_cache')
+        .upsert({
+            key: cacheKey(provider, request),
+            provider,
+            model: request.model,
+            prompt_hash: promptHash(request.messages),
+            temperature: request.temperature ?? null,
+            content: completion.content,
+            response_model: completion.model,
+            prompt_tokens: completion.usage?.promptTokens ?? null,
+            completion_tokens: completion.usage?.completionTokens ?? null,
+            created_at: new Date().toISOString(),
+            expires_at: new Date(Date.now() + env.LLM_CACHE_TTL_HOURS * 3600000).toISOString(),
+        }, { onConflict: 'key' });
+
+    if (error) {
+        console.error('Error writing LLM cache:', error);
+    }
+}
+
+/**
+ * Delete expired entries; returns how many were removed
+ */
+export async function purgeExpiredCompletions(): Promise<number> {
+    const { data, error } = await supabase.rpc('purge_llm_cache');
+
+    if (error) {
+        console.error('Error purging LLM cache:', error);
+        return 0;
+    }
+    return (data as number) || 0;
+}
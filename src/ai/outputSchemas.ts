@@ -0,0 +1,185 @@
+/**
+ * Output Schemas
+ *
+ * What analyzeArticle and synthesizeArticles accept from the model, in the
+ * structuredOutput schema format. Enums mirror the database CHECK
+ * constraints and the impact_sectors rows, so a validated reply can be
+ * stored as-is; aliases map the synonyms models commonly use instead.
+ */
+
+import { OutputSchema } from './structuredOutput.js';
+
+// entities.type CHECK constraint
+export const ENTITY_TYPES = ['person', 'company', 'location', 'commodity', 'sector', 'policy', 'event'] as const;
+
+const ENTITY_TYPE_ALIASES: Record<string, string> = {
+    organization: 'company',
+    organisation: 'company',
+    corporation: 'company',
+    business: 'company',
+    agency: 'company',
+    institution: 'company',
+    people: 'person',
+    individual: 'person',
+    country: 'location',
+    city: 'location',
+    region: 'location',
+    place: 'location',
+    industry: 'sector',
+    law: 'policy',
+    regulation: 'policy',
+    legislation: 'policy',
+    product: 'commodity',
+    resource: 'commodity',
+};
+
+export const ARTICLE_CATEGORIES = [
+    'Geopolitics', 'Business', 'Technology', 'Politics', 'Science', 'World', 'Markets', 'Supply Chain', 'Energy',
+] as const;
+
+// impact_sectors ids
+export const IMPACT_SECTORS = [
+    'economic', 'geopolitical', 'political', 'social', 'technological', 'supply_chain', 'ecological',
+] as const;
+
+export const RELATIONSHIP_TYPES = [
+    'works_for', 'located_in', 'owns', 'investigated_by', 'allied_with', 'opposes', 'related_to', 'supplies', 'regulates',
+] as const;
+
+const confidence: OutputSchema = { type: 'number', min: 0, max: 1, default: 0.5 };
+
+export const ANALYSIS_SCHEMA: OutputSchema = {
+    type: 'object',
+    properties: {
+        entities: {
+            type: 'array',
+            optional: true,
+            maxItems: 50,
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', maxLength: 200 },
+                    type: { type: 'enum', values: ENTITY_TYPES, aliases: ENTITY_TYPE_ALIASES },
+                    confidence,
+                    context: { type: 'string', optional: true },
+                },
+            },
+        },
+        sentiment: {
+            type: 'object',
+            properties: {
+                sentiment: {
+                    type: 'enum',
+                    values: ['positive', 'negative', 'neutral'],
+                    aliases: { mixed: 'neutral', bullish: 'positive', bearish: 'negative' },
+                    fallback: 'neutral',
+                },
+                score: { type: 'number', min: -1, max: 1, default: 0 },
+                reasoning: { type: 'string', optional: true },
+            },
+        },
+        category: {
+            type: 'enum',
+            values: ARTICLE_CATEGORIES,
+            optional: true,
+            aliases: { economy: 'Business', finance: 'Markets', tech: 'Technology', international: 'World' },
+        },
+        summary: { type: 'string', optional: true },
+    },
+};
+
+export const SYNTHESIS_SCHEMA: OutputSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', maxLength: 200 },
+        summary: { type: 'string' },
+        sections: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    content: { type: 'string' },
+                    citations: {
+                        type: 'array',
+                        optional: true,
+                        items: {
+                            type: 'object',
+                            properties: {
+                                source: { type: 'string', default: '' },
+                                article_index: { type: 'integer', optional: true, min: 0 },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        entities: {
+            type: 'array',
+            optional: true,
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', maxLength: 200 },
+                    type: { type: 'enum', values: ENTITY_TYPES, aliases: ENTITY_TYPE_ALIASES },
+                    role: { type: 'enum', values: ['primary', 'secondary', 'mentioned'], fallback: 'mentioned' },
+                    context: { type: 'string', default: '' },
+                },
+            },
+        },
+        connections: {
+            type: 'array',
+            optional: true,
+            items: {
+                type: 'object',
+                properties: {
+                    source: { type: 'string' },
+                    target: { type: 'string' },
+                    relationship: { type: 'enum', values: RELATIONSHIP_TYPES, fallback: 'related_to' },
+                    evidence: { type: 'string', default: '' },
+                    strength: confidence,
+                },
+            },
+        },
+        impacts: {
+            type: 'array',
+            optional: true,
+            items: {
+                type: 'object',
+                properties: {
+                    sector: {
+                        type: 'enum',
+                        values: IMPACT_SECTORS,
+                        aliases: {
+                            economy: 'economic', financial: 'economic', markets: 'economic',
+                            politics: 'political', technology: 'technological', tech: 'technological',
+                            environment: 'ecological', environmental: 'ecological', climate: 'ecological',
+                            logistics: 'supply_chain',
+                        },
+                    },
+                    type: {
+                        type: 'enum',
+                        values: ['positive', 'negative', 'neutral', 'uncertain'],
+                        aliases: { mixed: 'uncertain' },
+                        fallback: 'uncertain',
+                    },
+                    severity: { type: 'integer', min: 1, max: 5, default: 3 },
+                    prediction: { type: 'string' },
+                    confidence,
+                },
+            },
+        },
+        timeline: {
+            type: 'array',
+            optional: true,
+            items: {
+                type: 'object',
+                properties: {
+                    date: { type: 'string' },
+                    event: { type: 'string' },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,314 @@
+/**
+ * Validated LLM Output
+ *
+ * Models asked for JSON return fenced blocks, prose around the object,
+ * out-of-range numbers and enum values the database rejects. This layer
+ * parses a reply, validates it against a schema and coerces what can be
+ * fixed (case and aliases of enum values, clamped ranges, numeric strings,
+ * dropping invalid array items). When required data is missing or
+ * malformed, the validation errors are sent back to the model, a bounded
+ * number of times, asking for corrected JSON. Outcomes are counted per task
+ * so failure rates show up in /api/ai/stats.
+ */
+
+import { ChatMessage } from './llm.js';
+
+export type OutputSchema =
+    | { type: 'string'; optional?: boolean; default?: string; maxLength?: number }
+    | { type: 'number' | 'integer'; optional?: boolean; default?: number; min?: number; max?: number }
+    | {
+        type: 'enum';
+        values: readonly string[];
+        optional?: boolean;
+        fallback?: string;                      // Used for unknown values instead of failing
+        aliases?: Record<string, string>;       // Common synonyms, lowercased
+    }
+    | { type: 'array'; items: OutputSchema; optional?: boolean; minItems?: number; maxItems?: number }
+    | { type: 'object'; properties: Record<string, OutputSchema>; optional?: boolean };
+
+export interface ValidationResult<T> {
+    value: T;
+    errors: string[];       // Unfixable: the reply needs repairing
+    coercions: string[];    // Fixed in place
+}
+
+export class LLMOutputError extends Error {
+    constructor(public task: string, public errors: string[]) {
+        super(`${task}: invalid model output (${errors.slice(0, 3).join('; ')})`);
+        this.name = 'LLMOutputError';
+    }
+}
+
+// Sentinel for dropping an invalid item out of an array
+const DROP = Symbol('drop');
+
+/**
+ * Object from a model reply: code fences and text around the outermost
+ * braces are ignored. Throws SyntaxError when there is no valid JSON.
+ */
+export function parseJsonOutput(content: string): unknown {
+    let text = content.trim();
+
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) text = fenced[1].trim();
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start > 0 || (end >= 0 && end < text.length - 1)) {
+        if (start >= 0 && end > start) text = text.slice(start, end + 1);
+    }
+
+    return JSON.parse(text);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value === 'string' ? JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value) : typeof value;
+}
+
+function check(
+    value: unknown,
+    schema: OutputSchema,
+    path: string,
+    result: { errors: string[]; coercions: string[] },
+    inArray: boolean
+): unknown {
+    const fail = (message: string): unknown => {
+        // Bad array items are dropped rather than failing the whole reply
+        if (inArray) {
+            result.coercions.push(`${path}: dropped (${message})`);
+            return DROP;
+        }
+        result.errors.push(`${path}: ${message}`);
+        return undefined;
+    };
+
+    if (value === undefined || value === null) {
+        if ('default' in schema && schema.default !== undefined) return schema.default;
+        if (schema.type === 'array' && schema.optional) return [];
+        if (schema.optional) return undefined;
+        return fail('is required');
+    }
+
+    switch (schema.type) {
+        case 'string': {
+            if (typeof value === 'number' || typeof value === 'boolean') {
+                result.coercions.push(`${path}: converted ${typeof value} to string`);
+                value = String(value);
+            }
+            if (typeof value !== 'string') return fail(`expected a string, got ${describe(value)}`);
+            const text = value.trim();
+            if (!text && !schema.optional) {
+                return schema.default !== undefined ? schema.default : fail('must not be empty');
+            }
+            if (schema.maxLength && text.length > schema.maxLength) {
+                result.coercions.push(`${path}: truncated to ${schema.maxLength} characters`);
+                return text.slice(0, schema.maxLength);
+            }
+            return text;
+        }
+
+        case 'number':
+        case 'integer': {
+            const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+                return schema.default !== undefined ? schema.default : fail(`expected a number, got ${describe(value)}`);
+            }
+            let number = parsed;
+            if (typeof value === 'string') result.coercions.push(`${path}: parsed number from string`);
+            if (schema.type === 'integer' && !Number.isInteger(number)) {
+                result.coercions.push(`${path}: rounded ${number}`);
+                number = Math.round(number);
+            }
+            if (schema.min !== undefined && number < schema.min) {
+                result.coercions.push(`${path}: clamped ${number} to ${schema.min}`);
+                number = schema.min;
+            }
+            if (schema.max !== undefined && number > schema.max) {
+                result.coercions.push(`${path}: clamped ${number} to ${schema.max}`);
+                number = schema.max;
+            }
+            return number;
+        }
+
+        case 'enum': {
+            if (typeof value !== 'string') return fail(`expected one of ${schema.values.join('|')}, got ${describe(value)}`);
+            if (schema.values.includes(value)) return value;
+
+            const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+            const match = schema.values.find(v => v.toLowerCase().replace(/[\s-]+/g, '_') === key)
+                ?? schema.aliases?.[key];
+            if (match) {
+                result.coercions.push(`${path}: mapped ${describe(value)} to "${match}"`);
+                return match;
+            }
+            if (schema.fallback !== undefined) {
+                result.coercions.push(`${path}: replaced unknown ${describe(value)} with "${schema.fallback}"`);
+                return schema.fallback;
+            }
+            if (schema.optional && !inArray) {
+                result.coercions.push(`${path}: removed unknown ${describe(value)}`);
+                return undefined;
+            }
+            return fail(`expected one of ${schema.values.join('|')}, got ${describe(value)}`);
+        }
+
+        case 'array': {
+            if (!Array.isArray(value)) return fail(`expected an array, got ${describe(value)}`);
+
+            let items = value
+                .map((item, i) => check(item, schema.items, `${path}[${i}]`, result, true))
+                .filter(item => item !== DROP && item !== undefined);
+
+            if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+                result.coercions.push(`${path}: kept the first ${schema.maxItems} of ${items.length} items`);
+                items = items.slice(0, schema.maxItems);
+            }
+            if (schema.minItems !== undefined && items.length < schema.minItems) {
+                return fail(`needs at least ${schema.minItems} valid item(s), got ${items.length}`);
+            }
+            return items;
+        }
+
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return fail(`expected an object, got ${describe(value)}`);
+            }
+
+            const source = value as Record<string, unknown>;
+            const output: Record<string, unknown> = {};
+            const errorsBefore = result.errors.length;
+            const nested = { errors: [] as string[], coercions: result.coercions };
+
+            for (const [key, property] of Object.entries(schema.properties)) {
+                const checked = check(source[key], property, path ? `${path}.${key}` : key, nested, false);
+                if (checked !== undefined) output[key] = checked;
+            }
+
+            if (nested.errors.length > 0) {
+                // An array item with a broken field is dropped whole
+                if (inArray) {
+                    result.coercions.push(`${path}: dropped (${nested.errors.join('; ')})`);
+                    return DROP;
+                }
+                result.errors.splice(errorsBefore, 0, ...nested.errors);
+            }
+            return output;
+        }
+    }
+}
+
+/**
+ * Validate and coerce a parsed reply. Unknown properties are dropped.
+ */
+export function validateOutput<T>(value: unknown, schema: OutputSchema): ValidationResult<T> {
+    const result = { errors: [] as string[], coercions: [] as string[] };
+    const checked = check(value, schema, '', result, false);
+
+    return { value: checked as T, errors: result.errors, coercions: result.coercions };
+}
+
+// ============================================
+// Metrics
+// ============================================
+
+export interface OutputMetrics {
+    requests: number;           // Validated generations started
+    validFirstTry: number;
+    repaired: number;           // Valid after one or more repair rounds
+    failed: number;             // Still invalid after the last repair
+    parseErrors: number;        // Replies that were not JSON at all
+    validationErrors: number;   // Replies that parsed but failed validation
+    coercions: number;          // Values fixed in place
+}
+
+const metrics = new Map<string, OutputMetrics>();
+
+function metricsFor(task: string): OutputMetrics {
+    let entry = metrics.get(task);
+    if (!entry) {
+        entry = { requests: 0, validFirstTry: 0, repaired: 0, failed: 0, parseErrors: 0, validationErrors: 0, coercions: 0 };
+        metrics.set(task, entry);
+    }
+    return entry;
+}
+
+/**
+ * Counts per task since the process started, with the share of requests
+ * that never produced valid output
+ */
+export function getOutputMetrics(): Record<string, OutputMetrics & { failureRate: number }> {
+    return Object.fromEntries(
+        [...metrics].map(([task, m]) => [task, { ...m, failureRate: m.requests ? m.failed / m.requests : 0 }])
+    );
+}
+
+export function resetOutputMetrics(): void {
+    metrics.clear();
+}
+
+// ============================================
+// Generation with repair
+// ============================================
+
+export interface ValidatedGeneration {
+    task: string;                                       // Metrics key, e.g. 'analysis'
+    schema: OutputSchema;
+    messages: ChatMessage[];
+    // A reply's commit() (e.g. caching it) runs only if the reply validates
+    complete: (messages: ChatMessage[]) => Promise<string | { content: string; commit?(): Promise<void> }>;
+    maxRepairs?: number;
+}
+
+function repairPrompt(errors: string[]): string {
+    return `Your JSON did not match the required format:\n${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}\n\n`
+        + 'Return the complete corrected JSON object only, with no markdown or explanation.';
+}
+
+/**
+ * Ask the model for JSON and validate it, feeding validation errors back
+ * up to `maxRepairs` times. Throws LLMOutputError when no reply validates;
+ * errors from `complete` (quota, network) propagate unchanged.
+ */
+export async function generateValidated<T>(options: ValidatedGeneration): Promise<T> {
+    const { task, schema, complete, maxRepairs = 1 } = options;
+    const stats = metricsFor(task);
+    const messages = [...options.messages];
+    let errors: string[] = [];
+
+    stats.requests++;
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        const reply = await complete(messages);
+        const content = typeof reply === 'string' ? reply : reply.content;
+
+        let parsed: unknown;
+        try {
+            parsed = parseJsonOutput(content);
+        } catch (error) {
+            stats.parseErrors++;
+            errors = [`not valid JSON (${error instanceof Error ? error.message : 'parse error'})`];
+        }
+
+        if (parsed !== undefined) {
+            const result = validateOutput<T>(parsed, schema);
+            stats.coercions += result.coercions.length;
+
+            if (result.errors.length === 0) {
+                if (attempt === 0) stats.validFirstTry++;
+                else stats.repaired++;
+                if (typeof reply !== 'string') await reply.commit?.();
+                return result.value;
+            }
+
+            stats.validationErrors++;
+            errors = result.errors;
+        }
+
+        messages.push({ role: 'assistant', content }, { role: 'user', content: repairPrompt(errors) });
+    }
+
+    stats.failed++;
+    throw new LLMOutputError(task, errors);
+}
@@ -2,26 +2,48 @@
  * AI Synthesis Service
  * 
  * Generates comprehensive story briefings from multiple source articles
- * using Groq LLM with inline citations and impact predictions.
+ * with inline citations and impact predictions, using the synthesis model
+ * chain (LLM_SYNTHESIS_MODELS).
  */
 
-import Groq from 'groq-sdk';
-
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY,
-});
+import { createHash } from 'crypto';
+import { env } from '../config/env.js';
+import { sourceMatches } from './citations.js';
+import { chatWithFallback, ChatMessage, getModelChain, ModelChoice } from './llm.js';
+import { SYNTHESIS_SCHEMA } from './outputSchemas.js';
+import { generateValidated } from './structuredOutput.js';
 
 // Types
 export interface Article {
     id: string;
     title: string;
     excerpt: string;
+    content?: string | null;  // Extracted full text, when available
     url: string;
     source: string;
     published_at: string;
     image_url?: string;
 }
 
+// Character budget for article text across the whole prompt, and per-article cap
+const PROMPT_CONTENT_BUDGET = 12000;
+const MAX_ARTICLE_CONTENT = 3000;
+
+/**
+ * Best available text for an article: extracted body (trimmed to budget) or excerpt
+ */
+function articleText(article: Article, budget: number): string {
+    if (!article.content) return article.excerpt;
+
+    const limit = Math.min(MAX_ARTICLE_CONTENT, Math.max(budget, article.excerpt.length));
+    if (article.content.length <= limit) return article.content;
+
+    // Cut at the last sentence boundary inside the limit
+    const cut = article.content.slice(0, limit);
+    const lastStop = cut.lastIndexOf('. ');
+    return lastStop > limit / 2 ? cut.slice(0, lastStop + 1) : `${cut}…`;
+}
+
 export interface SynthesisSection {
     title: string;
     content: string;
@@ -33,7 +55,7 @@ export interface SynthesisSection {
 
 export interface ExtractedEntity {
     name: string;
-    type: 'person' | 'company' | 'location' | 'organization' | 'commodity' | 'policy' | 'event';
+    type: 'person' | 'company' | 'location' | 'commodity' | 'sector' | 'policy' | 'event';
     role: 'primary' | 'secondary' | 'mentioned';
     context: string;
 }
@@ -54,7 +76,16 @@ export interface ImpactPrediction {
     confidence: number; // 0-1
 }
 
+// Reply shape checked by SYNTHESIS_SCHEMA, before citations are resolved to article ids
+type SynthesisOutput = Omit<SynthesisResult, 'model' | 'promptVersion' | 'sections'> & {
+    sections: Array<Omit<SynthesisSection, 'citations'> & {
+        citations?: Array<{ source: string; article_index?: number }>;
+    }>;
+};
+
 export interface SynthesisResult {
+    model: string;          // provider:model that wrote it, or FALLBACK_MODEL
+    promptVersion: string;  // Hash of the prompt template (SYNTHESIS_PROMPT_VERSION)
     title: string;
     summary: string;
     sections: SynthesisSection[];
@@ -73,7 +104,7 @@ ARTICLES TO SYNTHESIZE:
 Your task is to:
 1. Write a synthesized briefing (NOT copy-paste)
 2. Add inline citations [Source Name] after each factual claim
-3. Extract ALL entities (people, companies, locations, organizations)
+3. Extract ALL entities (people, companies and organizations, locations, policies)
 4. Map connections between entities
 5. Predict impacts on various sectors
 
@@ -106,7 +137,7 @@ OUTPUT FORMAT (valid JSON only, no markdown):
   "entities": [
     {
       "name": "Entity Name",
-      "type": "person|company|location|organization|commodity|policy|event",
+      "type": "person|company|location|commodity|sector|policy|event",
       "role": "primary|secondary|mentioned",
       "context": "Brief explanation of this entity's relevance"
     }
@@ -143,26 +174,64 @@ RULES:
 6. Be objective and balanced - present multiple viewpoints
 7. Output ONLY valid JSON, no explanation or markdown`;
 
-export async function synthesizeArticles(articles: Article[]): Promise<SynthesisResult> {
+/**
+ * Article a structured citation refers to: its article_index when that
+ * points at an article from the cited source, otherwise the first article
+ * from the cited source. Citations matching neither are dropped rather than
+ * pinned on an arbitrary article; the inline markers are checked separately
+ * (see citations.ts).
+ */
+function resolveCitation(
+    citation: { source: string; article_index?: number },
+    articles: Article[]
+): SynthesisSection['citations'][number] | null {
+    const indexed = Number.isInteger(citation.article_index) ? articles[citation.article_index!] : undefined;
+    const article = indexed && (!citation.source || sourceMatches(citation.source, indexed.source))
+        ? indexed
+        : articles.find(a => citation.source && sourceMatches(citation.source, a.source));
+
+    return article ? { source: citation.source || article.source, article_id: article.id } : null;
+}
+
+// Recorded when the LLM call fails and the briefing is stitched from excerpts
+export const FALLBACK_MODEL = 'excerpt-fallback';
+
+// Changes whenever the prompt is edited, so story versions show which prompt wrote them
+export const SYNTHESIS_PROMPT_VERSION = createHash('sha256').update(SYNTHESIS_PROMPT).digest('hex').slice(0, 12);
+
+export async function synthesizeArticles(
+    articles: Article[],
+    chain: ModelChoice[] = getModelChain('synthesis')
+): Promise<SynthesisResult> {
     if (articles.length === 0) {
         throw new Error('No articles provided for synthesis');
     }
 
-    // Format articles for the prompt
+    // Format articles for the prompt, sharing the content budget evenly
+    const perArticleBudget = Math.floor(PROMPT_CONTENT_BUDGET / articles.length);
     const articlesText = articles.map((article, index) => `
 [ARTICLE ${index + 1}]
 Source: ${article.source}
 Title: ${article.title}
 Published: ${article.published_at}
-Content: ${article.excerpt}
+Content: ${articleText(article, perArticleBudget)}
 URL: ${article.url}
 `).join('\n---\n');
 
     const prompt = SYNTHESIS_PROMPT.replace('{{ARTICLES}}', articlesText);
 
+    // Model that wrote the accepted reply; a fallback provider may answer a repair round
+    let model = '';
+    const complete = async (messages: ChatMessage[]) => {
+        const completion = await chatWithFallback('synthesis', chain, { messages, temperature: 0.3, maxTokens: 4000, json: true });
+        model = `${completion.provider}:${completion.model}`;
+        return completion;
+    };
+
     try {
-        const completion = await groq.chat.completions.create({
-            model: 'llama-3.3-70b-versatile',
+        const output = await generateValidated<SynthesisOutput>({
+            task: 'synthesis',
+            schema: SYNTHESIS_SCHEMA,
             messages: [
                 {
                     role: 'system',
@@ -173,41 +242,32 @@ URL: ${article.url}
                     content: prompt
                 }
             ],
-            temperature: 0.3,
-            max_tokens: 4000,
+            complete,
+            maxRepairs: env.LLM_MAX_REPAIRS,
         });
 
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No content returned from Groq');
-        }
-
-        // Parse JSON (handle potential markdown code blocks)
-        let jsonStr = content.trim();
-        if (jsonStr.startsWith('```')) {
-            jsonStr = jsonStr.replace(/^```json?\n?/, '').replace(/\n?```$/, '');
-        }
-
-        const result: SynthesisResult = JSON.parse(jsonStr);
-
-        // Map article_index in citations to actual article_ids
-        result.sections = result.sections.map(section => ({
-            ...section,
-            citations: section.citations.map(citation => {
-                const articleIndex = (citation as any).article_index ?? 0;
-                return {
-                    source: citation.source,
-                    article_id: articles[articleIndex]?.id || articles[0].id
-                };
-            })
-        }));
-
-        return result;
+        return {
+            ...output,
+            model,
+            promptVersion: SYNTHESIS_PROMPT_VERSION,
+            entities: output.entities || [],
+            connections: output.connections || [],
+            impacts: output.impacts || [],
+            // Map article_index in citations to actual article_ids
+            sections: output.sections.map(section => ({
+                ...section,
+                citations: (section.citations || [])
+                    .map(citation => resolveCitation(citation, articles))
+                    .filter((citation): citation is SynthesisSection['citations'][number] => citation !== null)
+            })),
+        };
     } catch (error) {
         console.error('Synthesis error:', error);
 
         // Return a basic synthesis on error
         return {
+            model: FALLBACK_MODEL,
+            promptVersion: SYNTHESIS_PROMPT_VERSION,
             title: articles[0].title,
             summary: articles[0].excerpt,
             sections: [{
@@ -225,11 +285,13 @@ URL: ${article.url}
 /**
  * Generate a shorter summary for card display
  */
-export async function generateSummary(articles: Article[]): Promise<string> {
+export async function generateSummary(
+    articles: Article[],
+    chain: ModelChoice[] = getModelChain('summary')
+): Promise<string> {
     const titles = articles.map(a => a.title).join('; ');
 
-    const completion = await groq.chat.completions.create({
-        model: 'llama-3.3-70b-versatile',
+    const completion = await chatWithFallback('summary', chain, {
         messages: [
             {
                 role: 'user',
@@ -237,8 +299,11 @@ export async function generateSummary(articles: Article[]): Promise<string> {
             }
         ],
         temperature: 0.3,
-        max_tokens: 200,
+        maxTokens: 200,
     });
 
-    return completion.choices[0]?.message?.content?.trim() || articles[0].excerpt;
+    const summary = completion.content.trim();
+    if (summary) await completion.commit?.();
+
+    return summary || articles[0].excerpt;
 }
@@ -10,6 +10,10 @@ export const env = {
     SUPABASE_URL: process.env.SUPABASE_URL || '',
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
     SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY || '',
+    // Legacy HS256 signing secret; when unset, tokens are verified against the project's JWKS
+    SUPABASE_JWT_SECRET: process.env.SUPABASE_JWT_SECRET || '',
+    // How often a session is re-checked with the auth server for revocation (0 = never)
+    AUTH_REVOCATION_CHECK_SECONDS: parseInt(process.env.AUTH_REVOCATION_CHECK_SECONDS || '300', 10),
 
     // Neo4j
     NEO4J_URI: process.env.NEO4J_URI || '',
@@ -20,12 +24,43 @@ export const env = {
     GROQ_API_KEY: process.env.GROQ_API_KEY || '',
     GOOGLE_GEMINI_API_KEY: process.env.GOOGLE_GEMINI_API_KEY || '',
     JINA_API_KEY: process.env.JINA_API_KEY || '',
+    // OpenAI-compatible server (llama.cpp, vLLM, Ollama) used as the "local" provider, e.g. http://localhost:11434/v1
+    LLM_LOCAL_URL: process.env.LLM_LOCAL_URL || '',
+    LLM_LOCAL_API_KEY: process.env.LLM_LOCAL_API_KEY || '',
+    // JSON file of recorded replies replayed by the "fixture" provider
+    LLM_FIXTURES: process.env.LLM_FIXTURES || '',
+    // provider:model chains per task, tried in order on rate limits and server errors
+    LLM_ANALYSIS_MODELS: process.env.LLM_ANALYSIS_MODELS || 'groq:llama-3.3-70b-versatile,gemini:gemini-2.0-flash',
+    LLM_SYNTHESIS_MODELS: process.env.LLM_SYNTHESIS_MODELS || 'groq:llama-3.3-70b-versatile,gemini:gemini-2.0-flash',
+    LLM_SUMMARY_MODELS: process.env.LLM_SUMMARY_MODELS || 'groq:llama-3.3-70b-versatile,gemini:gemini-2.0-flash',
+    // Hours identical LLM requests are answered from llm_cache (0 = no caching)
+    LLM_CACHE_TTL_HOURS: parseInt(process.env.LLM_CACHE_TTL_HOURS || '168', 10),
+    // Times a reply failing schema validation is sent back to the model for correction
+    LLM_MAX_REPAIRS: parseInt(process.env.LLM_MAX_REPAIRS || '1', 10),
 
     // News APIs
     NEWSDATA_API_KEY: process.env.NEWSDATA_API_KEY || '',
     GNEWS_API_KEY: process.env.GNEWS_API_KEY || '',
 
-    // Redis (Upstash)
+    // Ingestion paging
+    INGEST_MAX_PAGES: parseInt(process.env.INGEST_MAX_PAGES || '3', 10),
+    INGEST_PAGE_SIZE: parseInt(process.env.INGEST_PAGE_SIZE || '10', 10),
+
+    // Story clustering
+    // greedy, agglomerative (average linkage) or hdbscan; see services/clusterCore.ts
+    CLUSTER_ALGORITHM: process.env.CLUSTER_ALGORITHM || 'greedy',
+    // Articles published further apart than this are never clustered together
+    CLUSTER_WINDOW_HOURS: parseInt(process.env.CLUSTER_WINDOW_HOURS || '72', 10),
+    // Articles a new story needs; smaller clusters wait for follow-ups
+    STORY_MIN_ARTICLES: parseInt(process.env.STORY_MIN_ARTICLES || '2', 10),
+    // Articles attached to a story before its synthesis is regenerated
+    STORY_RESYNTHESIS_ARTICLES: parseInt(process.env.STORY_RESYNTHESIS_ARTICLES || '3', 10),
+    // Hours without a new article after which a story stops taking articles
+    STORY_INACTIVITY_HOURS: parseInt(process.env.STORY_INACTIVITY_HOURS || '72', 10),
+
+    // Redis (Upstash); REDIS_URL is the ioredis connection string (redis:// or rediss://)
+    // used for shared rate-limit counters, in-memory counters when unset
+    REDIS_URL: process.env.REDIS_URL || '',
     UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL || '',
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN || '',
 
@@ -0,0 +1,29 @@
+import { Redis } from 'ioredis';
+import { env } from '../config/env.js';
+
+let client: Redis | null = null;
+
+/**
+ * Shared Redis connection, or null when REDIS_URL is not configured
+ */
+export function getRedis(): Redis | null {
+    if (!env.REDIS_URL) return null;
+
+    if (!client) {
+        client = new Redis(env.REDIS_URL, {
+            // Fail fast instead of queueing commands while disconnected;
+            // callers treat Redis as best effort
+            maxRetriesPerRequest: 1,
+            enableOfflineQueue: false,
+        });
+        client.on('error', (error) => console.error('[Redis] Connection error:', error.message));
+    }
+    return client;
+}
+
+export async function closeRedis(): Promise<void> {
+    if (client) {
+        await client.quit();
+        client = null;
+    }
+}
@@ -2,8 +2,10 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
+import jwt from '@fastify/jwt';
 import { env, validateEnv } from './config/env.js';
 import { closeNeo4j } from './db/neo4j.js';
+import { closeRedis, getRedis } from './db/redis.js';
 
 // Import routes
 import { healthRoutes } from './routes/health.js';
@@ -13,10 +15,14 @@ import { investigationsRoutes } from './routes/v1/investigations.js';
 import { authRoutes } from './routes/v1/auth.js';
 import { ingestRoutes } from './routes/ingest.js';
 import { aiRoutes } from './routes/ai.js';
+import { adminRoutes } from './routes/admin.js';
 import storiesRoutes from './routes/stories.js';
 
 // Import scheduler
-import { initializeScheduler } from './services/scheduler.js';
+import { initializeScheduler, stopScheduler } from './services/scheduler.js';
+import { jwtOptions } from './middleware/auth.js';
+import { rateLimitOptions } from './middleware/rateLimit.js';
+import { registerOpenApi } from './schemas/openapi.js';
 
 // Validate environment variables
 validateEnv();
@@ -47,15 +53,18 @@ async function registerPlugins() {
         contentSecurityPolicy: env.isProduction,
     });
 
-    // Rate limiting (OWASP A04)
-    await fastify.register(rateLimit, {
-        max: 100,
-        timeWindow: '1 minute',
-    });
+    // Local Supabase JWT verification used by requireAuth (OWASP A07)
+    await fastify.register(jwt, jwtOptions());
+
+    // Rate limiting per user/API key/IP, route group and subscription tier (OWASP A04)
+    await fastify.register(rateLimit, rateLimitOptions(getRedis()));
 }
 
 // Register routes
 async function registerRoutes() {
+    // OpenAPI document built from the route schemas below (must come first)
+    registerOpenApi(fastify, '/api/v1', { title: 'Newsportal API', version: '1.0.0' });
+
     // Health check (no prefix)
     await fastify.register(healthRoutes);
 
@@ -73,12 +82,17 @@ async function registerRoutes() {
 
     // AI processing routes
     await fastify.register(aiRoutes, { prefix: '/api/ai' });
+
+    // Admin maintenance routes
+    await fastify.register(adminRoutes, { prefix: '/api/admin' });
 }
 
 // Graceful shutdown
 async function gracefulShutdown() {
     fastify.log.info('Shutting down gracefully...');
+    await stopScheduler();
     await closeNeo4j();
+    await closeRedis();
     await fastify.close();
     process.exit(0);
 }
@@ -97,7 +111,7 @@ async function start() {
 
         // Initialize scheduled jobs (only in production)
         if (env.isProduction) {
-            initializeScheduler();
+            await initializeScheduler();
             fastify.log.info('Scheduler initialized');
         }
     } catch (err) {
@@ -0,0 +1,83 @@
+/**
+ * Content Extraction Stage
+ *
+ * Fills `articles.content` for stored articles by downloading and extracting
+ * their full text, recording the outcome in `content_status`. Failed
+ * downloads are retried with exponential backoff, up to
+ * MAX_EXTRACTION_ATTEMPTS attempts in total.
+ */
+
+import { supabase } from '../config/database.js';
+import { fetchArticleContent } from './extract.js';
+import { HttpFetcher } from './types.js';
+
+export const MAX_EXTRACTION_ATTEMPTS = 4;
+
+// Wait before the first retry; doubles with every further failure
+const RETRY_BASE_MINUTES = 30;
+
+export interface ContentExtractionSummary {
+    attempted: number;
+    extracted: number;
+    paywalled: number;
+    failed: number;
+}
+
+/**
+ * When to retry after `attempts` failed attempts (null once they're used up)
+ */
+export function extractionRetryAt(attempts: number, now: Date = new Date()): string | null {
+    if (attempts >= MAX_EXTRACTION_ATTEMPTS) return null;
+    return new Date(now.getTime() + RETRY_BASE_MINUTES * 60000 * 2 ** (attempts - 1)).toISOString();
+}
+
+/**
+ * Extract content for the most recent articles that have not been attempted
+ * yet or whose retry is due
+ */
+export async function runContentExtractionJob(
+    limit: number = 20,
+    fetcher: HttpFetcher = fetch
+): Promise<ContentExtractionSummary> {
+    const { data: articles, error } = await supabase
+        .from('articles')
+        .select('id, url, content_attempts')
+        .or(`content_status.is.null,and(content_status.eq.failed,content_retry_at.lte.${new Date().toISOString()})`)
+        .is('duplicate_of', null)
+        .order('published_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to fetch articles for extraction: ${error.message}`);
+    }
+
+    const summary: ContentExtractionSummary = { attempted: 0, extracted: 0, paywalled: 0, failed: 0 };
+
+    for (const article of articles || []) {
+        const result = await fetchArticleContent(article.url, fetcher);
+        summary.attempted++;
+
+        if (result.status === 'extracted') summary.extracted++;
+        else if (result.status === 'paywalled') summary.paywalled++;
+        else summary.failed++;
+
+        if (result.error) {
+            console.warn(`Content extraction ${result.status} for ${article.url}: ${result.error}`);
+        }
+
+        const attempts = (article.content_attempts || 0) + 1;
+
+        await supabase
+            .from('articles')
+            .update({
+                content: result.content,
+                content_status: result.status,
+                content_extracted_at: new Date().toISOString(),
+                content_attempts: attempts,
+                content_retry_at: result.status === 'failed' ? extractionRetryAt(attempts) : null,
+            })
+            .eq('id', article.id);
+    }
+
+    return summary;
+}
@@ -0,0 +1,94 @@
+/**
+ * Ingestion Scopes & Cursors
+ *
+ * Expands a run's category/country/language/query lists into the individual
+ * fetches an adapter supports, and keeps a per-scope high-water mark in
+ * `ingest_cursors` so the next run pages only as far as articles it has not
+ * seen yet.
+ */
+
+import { supabase } from '../config/database.js';
+import { FetchOptions, ScopeDimension } from './types.js';
+
+export interface ScopeFanOut {
+    categories?: string[];
+    countries?: string[];
+    languages?: string[];
+    queries?: string[];
+}
+
+export type FetchScope = Pick<FetchOptions, ScopeDimension>;
+
+const FAN_OUT_KEYS: Record<ScopeDimension, keyof ScopeFanOut> = {
+    category: 'categories',
+    country: 'countries',
+    language: 'languages',
+    query: 'queries',
+};
+
+// Key order is fixed so the same scope always maps to the same cursor row
+const DIMENSION_ORDER: ScopeDimension[] = ['category', 'country', 'language', 'query'];
+
+/**
+ * Cartesian product of the requested values over the dimensions an adapter
+ * supports; unsupported or empty dimensions collapse to a single unset value
+ */
+export function expandScopes(supported: ScopeDimension[], fanOut: ScopeFanOut = {}): FetchScope[] {
+    let scopes: FetchScope[] = [{}];
+
+    for (const dimension of DIMENSION_ORDER) {
+        if (!supported.includes(dimension)) continue;
+
+        const values = [...new Set((fanOut[FAN_OUT_KEYS[dimension]] || []).filter(Boolean))];
+        if (values.length === 0) continue;
+
+        scopes = scopes.flatMap((scope) => values.map((value) => ({ ...scope, [dimension]: value })));
+    }
+
+    return scopes;
+}
+
+/**
+ * Stable cursor key for a scope, e.g. "category=technology|country=us"
+ */
+export function scopeKey(scope: FetchScope): string {
+    const parts = DIMENSION_ORDER
+        .filter((dimension) => scope[dimension])
+        .map((dimension) => `${dimension}=${scope[dimension]!.toLowerCase()}`);
+
+    return parts.length > 0 ? parts.join('|') : '*';
+}
+
+/**
+ * Newest published_at stored for an adapter scope, or null on first run
+ */
+export async function getHighWaterMark(adapter: string, scope: string): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('ingest_cursors')
+        .select('high_water_mark')
+        .eq('adapter', adapter)
+        .eq('scope', scope)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`Error reading ingest cursor for ${adapter} (${scope}):`, error);
+        return null;
+    }
+
+    return data?.high_water_mark || null;
+}
+
+/**
+ * Record a run for a scope, moving its high-water mark forward (never back)
+ */
+export async function advanceHighWaterMark(adapter: string, scope: string, mark: string | null): Promise<void> {
+    const { error } = await supabase.rpc('advance_ingest_cursor', {
+        p_adapter: adapter,
+        p_scope: scope,
+        p_mark: mark,
+    });
+
+    if (error) {
+        console.error(`Error advancing ingest cursor for ${adapter} (${scope}):`, error);
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * Duplicate Article Detection
+ *
+ * URL canonicalization catches the same article behind tracking parameters
+ * or AMP variants; a 64-bit SimHash over title + excerpt catches the same
+ * wire story republished by different outlets. Near-duplicates are linked
+ * to their canonical article via `duplicate_of` rather than discarded.
+ */
+
+import { supabase } from '../config/database.js';
+import { tokenize } from '../services/text.js';
+
+// Query parameters that never change the article being served
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid',
+    'ref', 'ref_src', 'ref_url', 'cmpid', 'ocid', 'smid', 'sr_share',
+    'ito', 'at_medium', 'at_campaign', 'guccounter', 'amp', 'outputtype',
+]);
+
+// Max differing bits for two articles to count as near-duplicates. Looser than the
+// usual 3 for web pages because title + excerpt gives only a few dozen features.
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+// Fingerprints of very short texts are too noisy to compare
+const MIN_FINGERPRINT_TOKENS = 5;
+
+// How far back to look for the canonical copy of a syndicated story
+const DUPLICATE_WINDOW_HOURS = 72;
+
+/**
+ * Normalize an article URL: https, lowercase host, no tracking params,
+ * no fragment, no AMP variant, sorted query and no trailing slash
+ */
+export function canonicalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch {
+        return url.trim();
+    }
+
+    parsed.protocol = 'https:';
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^amp\./, '');
+
+    // AMP path variants: /amp/story, /story/amp, /story.amp.html, /story.amp
+    let path = parsed.pathname
+        .replace(/\/amp(?=\/)/i, '')
+        .replace(/\/amp\/?$/i, '')
+        .replace(/\.amp(\.html?)?$/i, '$1');
+    if (path.length > 1) path = path.replace(/\/+$/, '');
+    parsed.pathname = path || '/';
+
+    const kept = [...parsed.searchParams.entries()]
+        .filter(([key]) => {
+            const lower = key.toLowerCase();
+            return !lower.startsWith('utm_') && !TRACKING_PARAMS.has(lower);
+        })
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    parsed.search = '';
+    for (const [key, value] of kept) {
+        parsed.searchParams.append(key, value);
+    }
+
+    return parsed.toString().replace(/\/$/, '');
+}
+
+/**
+ * 64-bit FNV-1a hash of a string
+ */
+function fnv1a64(value: string): bigint {
+    let hash = 0xcbf29ce484222325n;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= BigInt(value.charCodeAt(i));
+        hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+    }
+    return hash;
+}
+
+/**
+ * SimHash fingerprint (16 hex chars) over word unigrams and bigrams,
+ * or null when the text is too short to fingerprint reliably
+ */
+export function computeFingerprint(title: string, excerpt: string | null): string | null {
+    const tokens = tokenize(`${title} ${excerpt || ''}`);
+    if (tokens.length < MIN_FINGERPRINT_TOKENS) return null;
+
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+        features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    const weights = new Array<number>(64).fill(0);
+    for (const feature of features) {
+        const hash = fnv1a64(feature);
+        for (let bit = 0; bit < 64; bit++) {
+            weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+        }
+    }
+
+    let fingerprint = 0n;
+    for (let bit = 0; bit < 64; bit++) {
+        if (weights[bit] > 0) fingerprint |= 1n << BigInt(bit);
+    }
+
+    return fingerprint.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two fingerprints
+ */
+export function hammingDistance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let count = 0;
+    while (diff) {
+        count += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return count;
+}
+
+interface FingerprintedArticle {
+    id: string;
+    fingerprint: string | null;
+    published_at: string | null;
+}
+
+/**
+ * Link freshly stored articles to an earlier near-identical article.
+ * Candidates are recent canonical articles plus earlier ones in the same batch.
+ */
+export async function linkNearDuplicates(stored: FingerprintedArticle[]): Promise<number> {
+    const fingerprinted = stored.filter((a) => a.fingerprint);
+    if (fingerprinted.length === 0) return 0;
+
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const storedIds = new Set(stored.map((a) => a.id));
+
+    const { data: recent, error } = await supabase
+        .from('articles')
+        .select('id, fingerprint, published_at')
+        .is('duplicate_of', null)
+        .not('fingerprint', 'is', null)
+        .gte('published_at', since)
+        .order('published_at', { ascending: false })
+        .limit(2000);
+
+    if (error) {
+        console.error('Error fetching fingerprints:', error);
+        return 0;
+    }
+
+    // Fetched newest first so a busy window drops its oldest articles, not
+    // the ones this batch most likely repeats; scanned oldest first below
+    const candidates: FingerprintedArticle[] = (recent || []).filter((a) => !storedIds.has(a.id)).reverse();
+
+    // Oldest first so the first publisher becomes the canonical copy
+    const ordered = [...fingerprinted].sort((a, b) =>
+        new Date(a.published_at || 0).getTime() - new Date(b.published_at || 0).getTime()
+    );
+
+    let linked = 0;
+
+    for (const article of ordered) {
+        const match = candidates.find(
+            (c) => hammingDistance(c.fingerprint!, article.fingerprint!) <= NEAR_DUPLICATE_MAX_DISTANCE
+        );
+
+        if (!match) {
+            candidates.push(article);
+            continue;
+        }
+
+        const { error: updateError } = await supabase
+            .from('articles')
+            .update({ duplicate_of: match.id })
+            .eq('id', article.id);
+
+        if (!updateError) linked++;
+    }
+
+    return linked;
+}
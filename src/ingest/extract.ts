@@ -0,0 +1,259 @@
+/**
+ * Article Body Extraction
+ *
+ * Downloads an article page and pulls out its readable main text:
+ * charset-aware decoding, boilerplate removal, a text-density heuristic to
+ * pick the body container, and paywall detection. No database access here
+ * so it can be exercised against saved HTML fixtures.
+ */
+
+import { parse, HTMLElement } from 'node-html-parser';
+import { BOT_USER_AGENT, HttpFetcher } from './types.js';
+
+export type ExtractionStatus = 'extracted' | 'paywalled' | 'empty' | 'unsupported' | 'failed';
+
+export interface ExtractionResult {
+    status: ExtractionStatus;
+    content: string | null;
+    error?: string;
+}
+
+// Extracted bodies shorter than this are treated as teaser/boilerplate only
+const MIN_CONTENT_LENGTH = 300;
+
+// Upper bound on stored body text
+const MAX_CONTENT_LENGTH = 20000;
+
+// Pages that haven't downloaded by then count as failed (and are retried later)
+export const ARTICLE_TIMEOUT_MS = 20000;
+
+const STRIP_TAGS = [
+    'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form',
+    'nav', 'header', 'footer', 'aside', 'button', 'figcaption',
+];
+
+// class/id fragments that mark non-body chrome
+const BOILERPLATE_PATTERN = /(comment|share|social|related|recommend|newsletter|promo|advert|sponsor|cookie|subscribe|sidebar|footer|breadcrumb|byline|caption|tags|popup|modal)/i;
+
+// class/id fragments that mark the main body even when a boilerplate word also appears
+const CONTENT_PATTERN = /(article|body|content|entry|main|post|story|text)/i;
+
+const PAYWALL_CLASS_PATTERN = /(paywall|piano|metered-?wall|subscriber-only|premium-content|regwall|locked-content)/i;
+
+const PAYWALL_TEXT_PATTERN = /(subscribe to (continue|read)|to continue reading|already a subscriber|sign in to read|this article is for subscribers|create a free account to continue)/i;
+
+/**
+ * Find the charset declared in a Content-Type header or <meta> tag
+ */
+function detectCharset(contentType: string | null, head: string): string {
+    const fromHeader = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+    if (fromHeader) return fromHeader.toLowerCase();
+
+    const fromMeta = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+    if (fromMeta) return fromMeta.toLowerCase();
+
+    return 'utf-8';
+}
+
+// Labels WHATWG maps to windows-1252 (browsers treat ISO-8859-1 pages as 1252)
+const WINDOWS_1252_LABELS = new Set(['windows-1252', 'cp1252', 'latin1', 'iso-8859-1', 'us-ascii', 'ascii']);
+
+// windows-1252 code points for bytes 0x80–0x9F (0 = undefined, kept as-is)
+const WINDOWS_1252_HIGH = [
+    0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+    0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178,
+];
+
+/**
+ * Node's TextDecoder decodes windows-1252 as ISO-8859-1, turning curly quotes
+ * and dashes into C1 control characters, so map those bytes by hand
+ */
+function decodeWindows1252(body: ArrayBuffer): string {
+    const bytes = new Uint8Array(body);
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+        const chunk = Array.from(bytes.subarray(i, i + 8192), (byte) =>
+            byte >= 0x80 && byte <= 0x9f && WINDOWS_1252_HIGH[byte - 0x80] ? WINDOWS_1252_HIGH[byte - 0x80] : byte
+        );
+        result += String.fromCharCode(...chunk);
+    }
+    return result;
+}
+
+/**
+ * Decode a response body using its declared charset, falling back to UTF-8
+ */
+export function decodeHtml(body: ArrayBuffer, contentType: string | null): string {
+    // Sniff with latin1 so a <meta charset> is readable whatever the real encoding
+    const head = new TextDecoder('latin1').decode(body.slice(0, 4096));
+    const charset = detectCharset(contentType, head);
+
+    if (WINDOWS_1252_LABELS.has(charset)) {
+        return decodeWindows1252(body);
+    }
+
+    try {
+        return new TextDecoder(charset).decode(body);
+    } catch {
+        return new TextDecoder('utf-8').decode(body);
+    }
+}
+
+function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Publisher-declared paywall (schema.org or Open Graph content tier)
+ */
+function isDeclaredPaywalled(root: HTMLElement, html: string): boolean {
+    // schema.org: "isAccessibleForFree": false
+    if (/"isAccessibleForFree"\s*:\s*"?false"?/i.test(html)) return true;
+
+    const tier = root.querySelector('meta[property="article:content_tier"], meta[name="article:content_tier"]');
+    const tierValue = tier?.getAttribute('content')?.toLowerCase();
+    return tierValue === 'locked' || tierValue === 'metered';
+}
+
+/**
+ * Paywall widgets or prompts; only conclusive when little body text survives,
+ * since many sites ship the markup on free articles too
+ */
+function hasPaywallMarkers(root: HTMLElement): boolean {
+    if (PAYWALL_TEXT_PATTERN.test(root.text)) return true;
+
+    return root
+        .querySelectorAll('[class], [id]')
+        .some((el) => PAYWALL_CLASS_PATTERN.test(`${el.getAttribute('class') || ''} ${el.id}`));
+}
+
+function removeBoilerplate(root: HTMLElement): void {
+    for (const tag of STRIP_TAGS) {
+        root.querySelectorAll(tag).forEach((el) => el.remove());
+    }
+
+    root.querySelectorAll('[class], [id], [role]').forEach((el) => {
+        const role = el.getAttribute('role');
+        if (role === 'navigation' || role === 'complementary' || role === 'banner') {
+            el.remove();
+            return;
+        }
+        const marker = `${el.getAttribute('class') || ''} ${el.id}`;
+        if (!BOILERPLATE_PATTERN.test(marker) || CONTENT_PATTERN.test(marker)) return;
+        if (['ARTICLE', 'MAIN', 'BODY', 'HTML'].includes(el.tagName)) return;
+        el.remove();
+    });
+}
+
+/**
+ * Body paragraph texts within a container, skipping link-heavy lists
+ */
+function paragraphs(container: HTMLElement): string[] {
+    return container
+        .querySelectorAll('p, h2, h3, blockquote, li')
+        .filter((el) => {
+            const text = normalizeWhitespace(el.text);
+            if (text.length === 0) return false;
+            if (el.tagName === 'LI' && text.length < 80) return false;
+            const linkText = el.querySelectorAll('a').reduce((sum, a) => sum + a.text.length, 0);
+            return linkText / text.length < 0.5;
+        })
+        // Nested matches (a <p> inside a <blockquote>) would otherwise be counted twice
+        .filter((el, _, all) => !all.some((other) => other !== el && other.childNodes.includes(el)))
+        .map((el) => normalizeWhitespace(el.text));
+}
+
+/**
+ * Pick the element whose direct paragraphs carry the most text
+ */
+function findBodyContainer(root: HTMLElement): HTMLElement {
+    const explicit = root.querySelector('[itemprop="articleBody"]') || root.querySelector('article');
+    if (explicit && paragraphs(explicit).join(' ').length >= MIN_CONTENT_LENGTH) {
+        return explicit;
+    }
+
+    const scores = new Map<HTMLElement, number>();
+    for (const p of root.querySelectorAll('p')) {
+        const parent = p.parentNode as HTMLElement | null;
+        if (!parent) continue;
+        scores.set(parent, (scores.get(parent) || 0) + normalizeWhitespace(p.text).length);
+    }
+
+    let best: HTMLElement = root.querySelector('main') || root.querySelector('body') || root;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+        if (score > bestScore) {
+            best = el;
+            bestScore = score;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Extract readable main text from an article HTML document
+ */
+export function extractReadableText(html: string): ExtractionResult {
+    const root = parse(html, { comment: false });
+    const declaredPaywall = isDeclaredPaywalled(root, html);
+    const paywallMarkers = hasPaywallMarkers(root);
+
+    removeBoilerplate(root);
+
+    const text = paragraphs(findBodyContainer(root))
+        .filter((p, i, all) => all.indexOf(p) === i)
+        .join('\n\n')
+        .slice(0, MAX_CONTENT_LENGTH);
+
+    if (declaredPaywall || (text.length < MIN_CONTENT_LENGTH && paywallMarkers)) {
+        return { status: 'paywalled', content: text || null };
+    }
+
+    if (text.length < MIN_CONTENT_LENGTH) {
+        return { status: 'empty', content: null };
+    }
+
+    return { status: 'extracted', content: text };
+}
+
+/**
+ * Download an article URL and extract its body text
+ */
+export async function fetchArticleContent(
+    url: string,
+    fetcher: HttpFetcher = fetch
+): Promise<ExtractionResult> {
+    try {
+        const response = await fetcher(url, {
+            headers: {
+                'Accept': 'text/html,application/xhtml+xml;q=0.9',
+                'User-Agent': BOT_USER_AGENT,
+            },
+            redirect: 'follow',
+            signal: AbortSignal.timeout(ARTICLE_TIMEOUT_MS),
+        });
+
+        if (response.status === 401 || response.status === 402 || response.status === 403) {
+            return { status: 'paywalled', content: null, error: `HTTP ${response.status}` };
+        }
+
+        if (!response.ok) {
+            return { status: 'failed', content: null, error: `HTTP ${response.status}` };
+        }
+
+        const contentType = response.headers.get('content-type');
+        if (contentType && !/html/i.test(contentType)) {
+            return { status: 'unsupported', content: null, error: contentType };
+        }
+
+        const html = decodeHtml(await response.arrayBuffer(), contentType);
+        return extractReadableText(html);
+    } catch (error) {
+        return {
+            status: 'failed',
+            content: null,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * RSS 2.0 / Atom Feed Parsing
+ *
+ * Parses syndication feeds into a flat item list and performs conditional
+ * GETs (ETag / Last-Modified) so repeated polls of unchanged feeds are cheap.
+ * No database access here so it can be exercised against fixture XML.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { BOT_USER_AGENT, HttpFetcher } from './types.js';
+
+export interface FeedItem {
+    title: string;
+    link: string;
+    description: string | null;
+    published_at: string | null;
+    image_url: string | null;
+}
+
+export interface FeedValidators {
+    etag?: string | null;
+    lastModified?: string | null;
+}
+
+export interface FeedFetchResult {
+    notModified: boolean;
+    items: FeedItem[];
+    etag: string | null;
+    lastModified: string | null;
+}
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    removeNSPrefix: false,
+    trimValues: true,
+    processEntities: true,
+    htmlEntities: true,
+});
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read the text content of a node that may be a string, number or an
+ * element with attributes (e.g. Atom `<title type="html">`)
+ */
+function text(node: unknown): string {
+    if (node === undefined || node === null) return '';
+    if (typeof node === 'string') return node.trim();
+    if (typeof node === 'number') return String(node);
+    if (typeof node === 'object' && '#text' in (node as Record<string, unknown>)) {
+        return text((node as Record<string, unknown>)['#text']);
+    }
+    return '';
+}
+
+/**
+ * Strip markup and collapse whitespace from HTML feed descriptions
+ */
+function stripHtml(html: string): string {
+    return html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function toIsoDate(value: string): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function findImage(item: Record<string, any>): string | null {
+    const media = [
+        ...asArray(item['media:content']),
+        ...asArray(item['media:thumbnail']),
+        ...asArray(item['media:group']?.['media:content']),
+    ];
+    for (const node of media) {
+        const url = node?.['@_url'];
+        const medium = node?.['@_medium'];
+        const type = node?.['@_type'];
+        if (url && (!medium || medium === 'image') && (!type || String(type).startsWith('image/'))) {
+            return url;
+        }
+    }
+
+    for (const enclosure of asArray(item.enclosure)) {
+        if (enclosure?.['@_url'] && String(enclosure['@_type'] || '').startsWith('image/')) {
+            return enclosure['@_url'];
+        }
+    }
+
+    return null;
+}
+
+function parseRssItem(item: Record<string, any>): FeedItem | null {
+    // Some feeds put the permalink in <guid isPermaLink="true"> only
+    const guid = item.guid;
+    const guidLink = typeof guid === 'object' && guid?.['@_isPermaLink'] !== 'false' ? text(guid) : '';
+    const link = text(item.link) || guidLink;
+    const title = stripHtml(text(item.title));
+
+    if (!link || !title) return null;
+
+    const description = stripHtml(text(item.description) || text(item['content:encoded']));
+
+    return {
+        title,
+        link,
+        description: description || null,
+        published_at: toIsoDate(text(item.pubDate) || text(item['dc:date'])),
+        image_url: findImage(item),
+    };
+}
+
+function atomLink(entry: Record<string, any>): string {
+    const links = asArray(entry.link);
+    const alternate = links.find((l) => !l?.['@_rel'] || l['@_rel'] === 'alternate');
+    return (alternate?.['@_href'] as string | undefined) || text(links[0]);
+}
+
+function parseAtomEntry(entry: Record<string, any>): FeedItem | null {
+    const link = atomLink(entry);
+    const title = stripHtml(text(entry.title));
+
+    if (!link || !title) return null;
+
+    const description = stripHtml(text(entry.summary) || text(entry.content));
+
+    const imageLink = asArray(entry.link).find(
+        (l) => l?.['@_rel'] === 'enclosure' && String(l['@_type'] || '').startsWith('image/')
+    );
+
+    return {
+        title,
+        link,
+        description: description || null,
+        published_at: toIsoDate(text(entry.published) || text(entry.updated)),
+        image_url: findImage(entry) || imageLink?.['@_href'] || null,
+    };
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into feed items
+ */
+export function parseFeed(xml: string): FeedItem[] {
+    const doc = parser.parse(xml) as Record<string, any>;
+
+    if (doc.rss) {
+        const channel = doc.rss.channel || {};
+        return asArray(channel.item)
+            .map(parseRssItem)
+            .filter((item): item is FeedItem => item !== null);
+    }
+
+    if (doc.feed) {
+        return asArray(doc.feed.entry)
+            .map(parseAtomEntry)
+            .filter((item): item is FeedItem => item !== null);
+    }
+
+    // RSS 1.0 (RDF) keeps items beside the channel rather than inside it
+    if (doc['rdf:RDF']) {
+        return asArray(doc['rdf:RDF'].item)
+            .map(parseRssItem)
+            .filter((item): item is FeedItem => item !== null);
+    }
+
+    throw new Error('Unrecognized feed format');
+}
+
+// A feed that hasn't answered by then is skipped until the next run
+export const FEED_TIMEOUT_MS = 15000;
+
+/**
+ * Fetch a feed with conditional GET using previously stored validators
+ */
+export async function fetchFeed(
+    url: string,
+    validators: FeedValidators = {},
+    fetcher: HttpFetcher = fetch
+): Promise<FeedFetchResult> {
+    const headers: Record<string, string> = {
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+        'User-Agent': BOT_USER_AGENT,
+    };
+
+    if (validators.etag) headers['If-None-Match'] = validators.etag;
+    if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+    const response = await fetcher(url, { headers, signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+
+    if (response.status === 304) {
+        return {
+            notModified: true,
+            items: [],
+            etag: validators.etag || null,
+            lastModified: validators.lastModified || null,
+        };
+    }
+
+    if (!response.ok) {
+        throw new Error(`Feed fetch error: ${response.status} (${url})`);
+    }
+
+    const xml = await response.text();
+
+    return {
+        notModified: false,
+        items: parseFeed(xml),
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+    };
+}
@@ -1,4 +1,6 @@
 import { env } from '../config/env.js';
+import { recordUsage, throttle } from '../services/quota.js';
+import { AdapterQuota, ArticleInsert, FetchOptions, FetchResult, NewsSourceAdapter } from './types.js';
 
 interface GNewsArticle {
     title: string;
@@ -18,46 +20,102 @@ interface GNewsResponse {
     articles: GNewsArticle[];
 }
 
+// Free tier: 100 requests/day, 1 request per second
+const GNEWS_QUOTA: AdapterQuota = { dailyLimit: 100, requestsPerMinute: 60, articlesPerRequest: 10 };
+
+/**
+ * Fetch top headlines (or search results when a query is given), paging
+ * until the page limit, the request budget or the end of the result set
+ */
 export async function fetchFromGNews(
-    topic?: string,
-    language: string = 'en'
-): Promise<GNewsArticle[]> {
+    options: FetchOptions = {}
+): Promise<FetchResult<GNewsArticle>> {
     if (!env.GNEWS_API_KEY) {
         console.warn('GNEWS_API_KEY not configured');
-        return [];
+        return { items: [], requests: 0 };
     }
 
+    const {
+        category,
+        country,
+        language = 'en',
+        query,
+        since,
+        maxPages = env.INGEST_MAX_PAGES,
+        maxRequests = Infinity,
+    } = options;
+    const pageSize = Math.min(env.INGEST_PAGE_SIZE, GNEWS_QUOTA.articlesPerRequest);
+
     const params = new URLSearchParams({
         token: env.GNEWS_API_KEY,
         lang: language,
-        max: '10',
+        max: String(pageSize),
     });
 
-    const endpoint = topic
-        ? `https://gnews.io/api/v4/top-headlines?topic=${topic}&${params.toString()}`
-        : `https://gnews.io/api/v4/top-headlines?${params.toString()}`;
+    if (country) params.append('country', country);
+    // GNews filters on the high-water mark server-side (second precision, no millis)
+    if (since) params.append('from', new Date(since).toISOString().replace(/\.\d{3}Z$/, 'Z'));
+
+    let endpoint: string;
+    if (query) {
+        params.append('q', query);
+        params.append('sortby', 'publishedAt');
+        endpoint = 'https://gnews.io/api/v4/search';
+    } else {
+        if (category) params.append('category', category);
+        endpoint = 'https://gnews.io/api/v4/top-headlines';
+    }
+
+    const items: GNewsArticle[] = [];
+    let requests = 0;
+    let complete = false;
 
     try {
-        const response = await fetch(endpoint);
+        for (let page = 1; requests < Math.min(maxPages, maxRequests); page++) {
+            params.set('page', String(page));
 
-        if (!response.ok) {
-            throw new Error(`GNews API error: ${response.status}`);
-        }
+            await throttle('gnews', GNEWS_QUOTA);
+            const response = await fetch(`${endpoint}?${params.toString()}`);
+            requests++;
+            await recordUsage('gnews', GNEWS_QUOTA);
 
-        const data = await response.json() as GNewsResponse;
-        return data.articles || [];
+            if (!response.ok) {
+                throw new Error(`GNews API error: ${response.status}`);
+            }
+
+            const data = await response.json() as GNewsResponse;
+            items.push(...(data.articles || []));
+
+            // Results start at the high-water mark, so the last page reaches it
+            if (!data.articles?.length || page * pageSize >= data.totalArticles) {
+                complete = true;
+                break;
+            }
+        }
     } catch (error) {
         console.error('GNews fetch error:', error);
-        return [];
     }
+
+    return { items, requests, complete };
 }
 
-export function mapGNewsToArticle(article: GNewsArticle) {
+export function mapGNewsToArticle(article: GNewsArticle): ArticleInsert {
     return {
         title: article.title,
         excerpt: article.description?.slice(0, 500) || null,
         url: article.url,
-        image_url: article.image,
+        image_url: article.image || null,
         published_at: new Date(article.publishedAt).toISOString(),
     };
 }
+
+export const gnewsAdapter: NewsSourceAdapter<GNewsArticle> = {
+    id: 'gnews',
+    name: 'GNews',
+    quota: GNEWS_QUOTA,
+    scopes: ['category', 'country', 'language', 'query'],
+    isConfigured: () => Boolean(env.GNEWS_API_KEY),
+    fetch: fetchFromGNews,
+    map: mapGNewsToArticle,
+    source: (article) => ({ name: article.source?.name, url: article.source?.url }),
+};
@@ -1,4 +1,6 @@
 import { env } from '../config/env.js';
+import { recordUsage, throttle } from '../services/quota.js';
+import { AdapterQuota, ArticleInsert, FetchOptions, FetchResult, NewsSourceAdapter } from './types.js';
 
 interface NewsDataArticle {
     article_id: string;
@@ -9,6 +11,7 @@ interface NewsDataArticle {
     pubDate: string;
     source_id: string;
     source_name?: string;
+    source_url?: string;
     category: string[];
     country: string[];
     language: string;
@@ -21,39 +24,89 @@ interface NewsDataResponse {
     nextPage?: string;
 }
 
+// Free tier: 200 credits/day, 30 credits per 15 minutes
+const NEWSDATA_QUOTA: AdapterQuota = { dailyLimit: 200, requestsPerMinute: 2, articlesPerRequest: 10 };
+
+/**
+ * NewsData reports pubDate as "YYYY-MM-DD HH:mm:ss" in UTC without a zone marker
+ */
+function parseNewsDataDate(pubDate: string): Date {
+    return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(pubDate) ? pubDate : `${pubDate.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Fetch latest articles, following nextPage tokens until the high-water mark,
+ * the page limit or the request budget is reached
+ */
 export async function fetchFromNewsData(
-    category?: string,
-    language: string = 'en'
-): Promise<NewsDataArticle[]> {
+    options: FetchOptions = {}
+): Promise<FetchResult<NewsDataArticle>> {
     if (!env.NEWSDATA_API_KEY) {
         console.warn('NEWSDATA_API_KEY not configured');
-        return [];
+        return { items: [], requests: 0 };
     }
 
+    const {
+        category,
+        country,
+        language = 'en',
+        query,
+        since,
+        maxPages = env.INGEST_MAX_PAGES,
+        maxRequests = Infinity,
+    } = options;
+    const sinceTime = since ? new Date(since).getTime() : null;
+
     const params = new URLSearchParams({
         apikey: env.NEWSDATA_API_KEY,
         language,
+        size: String(Math.min(env.INGEST_PAGE_SIZE, NEWSDATA_QUOTA.articlesPerRequest)),
     });
 
-    if (category) {
-        params.append('category', category);
-    }
+    if (category) params.append('category', category);
+    if (country) params.append('country', country);
+    if (query) params.append('q', query);
+
+    const items: NewsDataArticle[] = [];
+    let requests = 0;
+    let nextPage: string | undefined;
+    let complete = false;
 
     try {
-        const response = await fetch(
-            `https://newsdata.io/api/1/latest?${params.toString()}`
-        );
+        while (requests < Math.min(maxPages, maxRequests)) {
+            if (nextPage) params.set('page', nextPage);
 
-        if (!response.ok) {
-            throw new Error(`NewsData API error: ${response.status}`);
-        }
+            await throttle('newsdata', NEWSDATA_QUOTA);
+            const response = await fetch(
+                `https://newsdata.io/api/1/latest?${params.toString()}`
+            );
+            requests++;
+            await recordUsage('newsdata', NEWSDATA_QUOTA);
 
-        const data = await response.json() as NewsDataResponse;
-        return data.results || [];
+            if (!response.ok) {
+                throw new Error(`NewsData API error: ${response.status}`);
+            }
+
+            const data = await response.json() as NewsDataResponse;
+            const page = data.results || [];
+
+            // Results are newest first: anything at or below the mark was seen last run
+            const fresh = sinceTime === null
+                ? page
+                : page.filter((article) => parseNewsDataDate(article.pubDate).getTime() > sinceTime);
+            items.push(...fresh);
+
+            nextPage = data.nextPage;
+            if (!nextPage || fresh.length < page.length) {
+                complete = true;
+                break;
+            }
+        }
     } catch (error) {
         console.error('NewsData fetch error:', error);
-        return [];
     }
+
+    return { items, requests, complete };
 }
 
 // Map NewsData categories to our categories
@@ -66,13 +119,24 @@ const categoryMap: Record<string, string> = {
     top: 'Breaking',
 };
 
-export function mapNewsDataToArticle(article: NewsDataArticle) {
+export function mapNewsDataToArticle(article: NewsDataArticle): ArticleInsert {
     return {
         title: article.title,
         excerpt: article.description?.slice(0, 500) || null,
         url: article.link,
         image_url: article.image_url,
-        published_at: new Date(article.pubDate).toISOString(),
+        published_at: parseNewsDataDate(article.pubDate).toISOString(),
         category: categoryMap[article.category?.[0]] || article.category?.[0] || 'World',
     };
 }
+
+export const newsDataAdapter: NewsSourceAdapter<NewsDataArticle> = {
+    id: 'newsdata',
+    name: 'NewsData.io',
+    quota: NEWSDATA_QUOTA,
+    scopes: ['category', 'country', 'language', 'query'],
+    isConfigured: () => Boolean(env.NEWSDATA_API_KEY),
+    fetch: fetchFromNewsData,
+    map: mapNewsDataToArticle,
+    source: (article) => ({ name: article.source_name || article.source_id, url: article.source_url }),
+};
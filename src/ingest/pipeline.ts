@@ -0,0 +1,294 @@
+/**
+ * Ingestion Pipeline
+ *
+ * Shared fetch → map → upsert → job_logs flow used for every news source
+ * adapter, so routes and jobs never talk to providers directly.
+ */
+
+import { supabase } from '../config/database.js';
+import { AnyNewsSourceAdapter, ArticleInsert } from './types.js';
+import { IngestionProfile, profileAdapters, profileFanOut } from './profiles.js';
+import { getAdapter } from './registry.js';
+import { resolveSourceId } from './sources.js';
+import { canonicalizeUrl, computeFingerprint, linkNearDuplicates } from './dedup.js';
+import { advanceHighWaterMark, expandScopes, getHighWaterMark, ScopeFanOut, scopeKey } from './cursors.js';
+import { assertQuota, getRemaining, getRunBudget } from '../services/quota.js';
+import { embedArticles } from '../ai/embeddings.js';
+
+export interface IngestionResult {
+    adapter: string;
+    fetched: number;
+    stored: number;
+    duplicates?: number;
+    requests?: number;
+    scopes?: number;
+    skipped?: 'budget';
+    error?: string;
+}
+
+export interface IngestOptions extends ScopeFanOut {
+    maxPages?: number;
+    maxRequests?: number;
+    // Scheduler slot length: when set, spend only this run's share of the
+    // remaining daily quota instead of whatever is left
+    slotMinutes?: number;
+}
+
+interface StoreResult {
+    stored: number;
+    duplicates: number;
+    newest: string | null;
+}
+
+/**
+ * Map, canonicalize and upsert raw provider articles (deduplicated by URL)
+ */
+async function storeArticles(adapter: AnyNewsSourceAdapter, rawArticles: unknown[]): Promise<StoreResult> {
+    if (rawArticles.length === 0) {
+        return { stored: 0, duplicates: 0, newest: null };
+    }
+
+    // Keyed by canonical URL so tracking/AMP variants in one batch collapse
+    const mapped = new Map<string, ArticleInsert>();
+    let newest: string | null = null;
+
+    for (const raw of rawArticles) {
+        const article = adapter.map(raw);
+        article.url = canonicalizeUrl(article.url);
+        if (!newest || article.published_at > newest) newest = article.published_at;
+        if (mapped.has(article.url)) continue;
+
+        if (!article.source_id) {
+            // Article URL identifies the publisher; the provider's name labels new sources
+            const hint = adapter.source?.(raw) || {};
+            article.source_id = await resolveSourceId({
+                name: hint.name,
+                url: article.url || hint.url,
+            });
+        }
+
+        mapped.set(article.url, article);
+    }
+
+    // Upsert articles (avoid duplicates by URL)
+    const { data, error } = await supabase
+        .from('articles')
+        .upsert(
+            Array.from(mapped.values()).map((article) => ({
+                ...article,
+                fingerprint: computeFingerprint(article.title, article.excerpt),
+                processed: false,
+            })),
+            { onConflict: 'url', ignoreDuplicates: true }
+        )
+        .select('id, title, excerpt, fingerprint, published_at');
+
+    if (error) {
+        throw new Error(`Failed to store ${adapter.name} articles: ${error.message}`);
+    }
+
+    // Syndicated copies stay stored but point at the first publisher's article
+    const duplicates = await linkNearDuplicates(data || []);
+
+    // Clustering embeds whatever is still missing, so a failure here only costs a retry later
+    try {
+        await embedArticles(data || []);
+    } catch (embedError) {
+        console.error(`Error embedding ${adapter.name} articles:`, embedError);
+    }
+
+    return { stored: data?.length || 0, duplicates, newest };
+}
+
+/**
+ * Requests an adapter may spend on this run: the slot's share of what is
+ * left today for scheduled runs, everything up to the limit for manual ones
+ */
+async function resolveBudget(adapter: AnyNewsSourceAdapter, slotMinutes?: number): Promise<number> {
+    if (slotMinutes) {
+        return getRunBudget(adapter.id, adapter.quota, slotMinutes);
+    }
+
+    // Manual runs may use the reserve but never exceed the daily limit
+    await assertQuota(adapter.id, adapter.quota, { useReserve: true });
+    return getRemaining(adapter.id, adapter.quota);
+}
+
+/**
+ * Fetch each scope of a fan-out, resuming from its high-water mark, and
+ * store new articles until the request budget runs out
+ */
+async function ingestScopes(
+    adapter: AnyNewsSourceAdapter,
+    fanOut: ScopeFanOut,
+    budget: number,
+    maxPages?: number
+): Promise<IngestionResult> {
+    const result: Required<Omit<IngestionResult, 'skipped' | 'error'>> = {
+        adapter: adapter.id,
+        fetched: 0,
+        stored: 0,
+        duplicates: 0,
+        requests: 0,
+        scopes: 0,
+    };
+
+    for (const scope of expandScopes(adapter.scopes, fanOut)) {
+        if (budget - result.requests < 1) break;
+
+        const key = scopeKey(scope);
+        const since = await getHighWaterMark(adapter.id, key);
+        const { items, requests, complete, commit } = await adapter.fetch({
+            ...scope,
+            since,
+            maxPages,
+            maxRequests: budget - result.requests,
+        });
+
+        const stored = await storeArticles(adapter, items);
+        await commit?.();
+        // A truncated fetch left a gap below what it stored; keep the old
+        // mark so the next run pages back down to it
+        if (complete !== false) {
+            await advanceHighWaterMark(adapter.id, key, stored.newest);
+        }
+
+        result.fetched += items.length;
+        result.stored += stored.stored;
+        result.duplicates += stored.duplicates;
+        result.requests += requests;
+        result.scopes++;
+    }
+
+    return result;
+}
+
+/**
+ * Fetch every requested scope from a single adapter and store new articles
+ */
+export async function ingestFromAdapter(
+    adapter: AnyNewsSourceAdapter,
+    options: IngestOptions = {}
+): Promise<IngestionResult> {
+    const { slotMinutes, maxPages, maxRequests = Infinity, ...fanOut } = options;
+    const budget = Math.min(maxRequests, await resolveBudget(adapter, slotMinutes));
+
+    if (budget < 1) {
+        return { adapter: adapter.id, fetched: 0, stored: 0, skipped: 'budget' };
+    }
+
+    return ingestScopes(adapter, fanOut, budget, maxPages);
+}
+
+export interface ProfileIngestionResult {
+    profile: string;
+    results: IngestionResult[];
+}
+
+/**
+ * Run every given profile, sharing each adapter's run budget between the
+ * profiles that use it and isolating failures per profile and adapter
+ */
+export async function ingestProfiles(
+    profiles: IngestionProfile[],
+    options: { slotMinutes?: number } = {}
+): Promise<ProfileIngestionResult[]> {
+    const plans = profiles.map((profile) => ({ profile, adapters: profileAdapters(profile) }));
+
+    // Profiles still waiting to run per adapter, so budget left over by one carries to the next
+    const pending = new Map<string, number>();
+    for (const { adapters } of plans) {
+        for (const adapter of adapters) {
+            pending.set(adapter.id, (pending.get(adapter.id) || 0) + 1);
+        }
+    }
+
+    const budgets = new Map<string, number>();
+    const runs: ProfileIngestionResult[] = [];
+
+    for (const { profile, adapters } of plans) {
+        const results: IngestionResult[] = [];
+
+        for (const adapter of adapters) {
+            try {
+                if (!budgets.has(adapter.id)) {
+                    budgets.set(adapter.id, await resolveBudget(adapter, options.slotMinutes));
+                }
+
+                const left = budgets.get(adapter.id)!;
+                const share = Math.ceil(left / pending.get(adapter.id)!);
+
+                if (share < 1) {
+                    results.push({ adapter: adapter.id, fetched: 0, stored: 0, skipped: 'budget' });
+                    continue;
+                }
+
+                const result = await ingestScopes(
+                    adapter,
+                    profileFanOut(profile),
+                    share,
+                    profile.max_pages ?? undefined
+                );
+                budgets.set(adapter.id, left - (result.requests || 0));
+                results.push(result);
+            } catch (error) {
+                console.error(`${adapter.name} ingestion error (${profile.name}):`, error);
+                // A refused quota check leaves nothing for later profiles either
+                if (!budgets.has(adapter.id)) budgets.set(adapter.id, 0);
+                results.push({
+                    adapter: adapter.id,
+                    fetched: 0,
+                    stored: 0,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            } finally {
+                pending.set(adapter.id, pending.get(adapter.id)! - 1);
+            }
+        }
+
+        runs.push({ profile: profile.name, results });
+    }
+
+    return runs;
+}
+
+export interface ProfileRunSummary {
+    results: Record<string, Record<string, Omit<IngestionResult, 'adapter'>>>;
+    totalStored: number;
+    message: string;
+}
+
+/**
+ * Shape profile runs as profile → adapter results with a one-line log message
+ */
+export function summarizeProfileRuns(runs: ProfileIngestionResult[]): ProfileRunSummary {
+    const results: ProfileRunSummary['results'] = {};
+    let totalStored = 0;
+
+    for (const run of runs) {
+        results[run.profile] = {};
+        for (const { adapter, ...result } of run.results) {
+            results[run.profile][adapter] = result;
+            totalStored += result.stored;
+        }
+    }
+
+    const message = `Profiles: ${runs.map((run) =>
+        `${run.profile} (${run.results.map((r) => `${getAdapter(r.adapter)?.name || r.adapter} ${r.stored}`).join(', ')})`
+    ).join('; ')}`;
+
+    return { results, totalStored, message };
+}
+
+/**
+ * Record a completed ingestion run in job_logs
+ */
+export async function logIngestionJob(message: string, itemsProcessed: number): Promise<void> {
+    await supabase.from('job_logs').insert({
+        job_type: 'ingest',
+        status: 'completed',
+        message,
+        items_processed: itemsProcessed,
+        completed_at: new Date().toISOString(),
+    });
+}
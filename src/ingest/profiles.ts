@@ -0,0 +1,145 @@
+/**
+ * Ingestion Profiles
+ *
+ * Stored definitions of what each desk wants fetched: which adapters to run
+ * and the categories, languages, countries and keyword searches to fan out
+ * over. `/api/ingest/all` and the scheduler run every active profile.
+ */
+
+import { supabase } from '../config/database.js';
+import { getAdapter, listAdapters } from './registry.js';
+import { ScopeFanOut } from './cursors.js';
+import { AnyNewsSourceAdapter } from './types.js';
+
+export interface IngestionProfile {
+    id: string;
+    name: string;
+    description: string | null;
+    adapters: string[];     // Empty = all registered adapters
+    categories: string[];
+    languages: string[];
+    countries: string[];
+    queries: string[];
+    max_pages: number | null;
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export type IngestionProfileInput = Partial<Omit<IngestionProfile, 'id' | 'created_at' | 'updated_at'>>;
+
+const LIST_FIELDS = ['adapters', 'categories', 'languages', 'countries', 'queries'] as const;
+
+// Upper bound on values per list so one profile cannot fan out into hundreds of requests
+const MAX_LIST_VALUES = 20;
+
+/**
+ * Validate a create/update body; with `partial` only the given fields are checked
+ */
+export function parseProfileInput(
+    body: unknown,
+    { partial = false }: { partial?: boolean } = {}
+): { data: IngestionProfileInput } | { error: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'Body must be an object' };
+    }
+
+    const input = body as Record<string, unknown>;
+    const data: IngestionProfileInput = {};
+
+    if (input.name !== undefined || !partial) {
+        if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+            return { error: 'name is required' };
+        }
+        data.name = input.name.trim();
+    }
+
+    if (input.description !== undefined) {
+        if (input.description !== null && typeof input.description !== 'string') {
+            return { error: 'description must be a string' };
+        }
+        data.description = input.description;
+    }
+
+    for (const field of LIST_FIELDS) {
+        const value = input[field];
+        if (value === undefined) continue;
+
+        if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+            return { error: `${field} must be an array of strings` };
+        }
+
+        // Keyword searches keep their case; codes and ids are matched lower-case
+        const values = [...new Set(value
+            .map((item: string) => (field === 'queries' ? item.trim() : item.trim().toLowerCase()))
+            .filter(Boolean))];
+        if (values.length > MAX_LIST_VALUES) {
+            return { error: `${field} accepts at most ${MAX_LIST_VALUES} values` };
+        }
+        data[field] = values;
+    }
+
+    const unknownAdapter = data.adapters?.find((id) => !getAdapter(id));
+    if (unknownAdapter) {
+        return { error: `Unknown news source: ${unknownAdapter}` };
+    }
+
+    if (input.max_pages !== undefined) {
+        if (input.max_pages !== null && (!Number.isInteger(input.max_pages) || (input.max_pages as number) < 1)) {
+            return { error: 'max_pages must be a positive integer' };
+        }
+        data.max_pages = input.max_pages as number | null;
+    }
+
+    if (input.is_active !== undefined) {
+        if (typeof input.is_active !== 'boolean') {
+            return { error: 'is_active must be a boolean' };
+        }
+        data.is_active = input.is_active;
+    }
+
+    return { data };
+}
+
+/**
+ * Active profiles, optionally restricted to the given names
+ */
+export async function listActiveProfiles(names?: string[]): Promise<IngestionProfile[]> {
+    let query = supabase
+        .from('ingestion_profiles')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+    if (names?.length) {
+        query = query.in('name', names);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw new Error(`Failed to load ingestion profiles: ${error.message}`);
+    }
+
+    return (data || []) as IngestionProfile[];
+}
+
+/**
+ * Adapters a profile runs (unknown ids are skipped)
+ */
+export function profileAdapters(profile: IngestionProfile): AnyNewsSourceAdapter[] {
+    if (profile.adapters.length === 0) return listAdapters();
+
+    return profile.adapters
+        .map((id) => getAdapter(id))
+        .filter((adapter): adapter is AnyNewsSourceAdapter => adapter !== undefined);
+}
+
+export function profileFanOut(profile: IngestionProfile): ScopeFanOut {
+    return {
+        categories: profile.categories,
+        languages: profile.languages,
+        countries: profile.countries,
+        queries: profile.queries,
+    };
+}
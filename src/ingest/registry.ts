@@ -0,0 +1,32 @@
+/**
+ * News Source Adapter Registry
+ *
+ * Single list of providers the ingestion routes and scheduler enumerate.
+ * Adding a provider means writing its adapter and registering it here.
+ */
+
+import { AnyNewsSourceAdapter } from './types.js';
+import { newsDataAdapter } from './newsdata.js';
+import { gnewsAdapter } from './gnews.js';
+import { rssAdapter } from './rss.js';
+
+const adapters = new Map<string, AnyNewsSourceAdapter>();
+
+export function registerAdapter(adapter: AnyNewsSourceAdapter): void {
+    if (adapters.has(adapter.id)) {
+        throw new Error(`News source adapter already registered: ${adapter.id}`);
+    }
+    adapters.set(adapter.id, adapter);
+}
+
+export function getAdapter(id: string): AnyNewsSourceAdapter | undefined {
+    return adapters.get(id);
+}
+
+export function listAdapters(): AnyNewsSourceAdapter[] {
+    return Array.from(adapters.values());
+}
+
+registerAdapter(newsDataAdapter);
+registerAdapter(gnewsAdapter);
+registerAdapter(rssAdapter);
@@ -0,0 +1,151 @@
+/**
+ * News Source Resolution
+ *
+ * Maps an article's publisher (domain and/or provider-supplied source name)
+ * to a `news_sources` row, creating one with default credibility when the
+ * publisher has never been seen before.
+ */
+
+import { supabase } from '../config/database.js';
+import { SourceHint } from './types.js';
+
+interface NewsSourceRow {
+    id: string;
+    name: string;
+    domain: string | null;
+}
+
+// Resolved ids by domain / lowercase name, shared across ingestion runs
+const sourceCache = new Map<string, string>();
+
+/**
+ * Extract a bare hostname (lowercase, no www.) from a URL
+ */
+export function extractDomain(url: string | null | undefined): string | null {
+    if (!url) return null;
+    try {
+        const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+        const hostname = new URL(withScheme).hostname.toLowerCase();
+        return hostname.replace(/^www\./, '') || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Candidate domains from most to least specific: edition.cnn.com → cnn.com
+ */
+function domainCandidates(domain: string): string[] {
+    const labels = domain.split('.');
+    const candidates: string[] = [];
+    for (let i = 0; i <= labels.length - 2; i++) {
+        candidates.push(labels.slice(i).join('.'));
+    }
+    return candidates;
+}
+
+async function findByDomain(domain: string): Promise<NewsSourceRow | null> {
+    const candidates = domainCandidates(domain);
+    const { data } = await supabase
+        .from('news_sources')
+        .select('id, name, domain')
+        .in('domain', candidates);
+
+    if (!data || data.length === 0) return null;
+
+    // Prefer the most specific match
+    return candidates
+        .map((candidate) => data.find((row) => row.domain === candidate))
+        .find(Boolean) || null;
+}
+
+async function findByName(name: string): Promise<NewsSourceRow | null> {
+    const { data } = await supabase
+        .from('news_sources')
+        .select('id, name, domain')
+        .ilike('name', name)
+        .limit(1);
+
+    return data?.[0] || null;
+}
+
+/**
+ * Resolve (or create) the news_sources id for a publisher
+ */
+export async function resolveSourceId(hint: SourceHint): Promise<string | null> {
+    const domain = extractDomain(hint.url);
+    const name = hint.name?.trim() || null;
+
+    if (!domain && !name) return null;
+
+    const cacheKey = domain ? `domain:${domain}` : `name:${name!.toLowerCase()}`;
+    const cached = sourceCache.get(cacheKey);
+    if (cached) return cached;
+
+    let source = domain ? await findByDomain(domain) : null;
+
+    if (!source && name) {
+        source = await findByName(name);
+
+        // Known publisher seen under a new domain: remember it
+        if (source && domain && !source.domain) {
+            await supabase.from('news_sources').update({ domain }).eq('id', source.id);
+        }
+    }
+
+    if (!source) {
+        // Unknown publisher: create with default credibility and tier
+        const { data: created, error } = await supabase
+            .from('news_sources')
+            .insert({ name: name || domain, domain })
+            .select('id, name, domain')
+            .single();
+
+        if (error || !created) {
+            // Lost a race with a concurrent insert; read the winner back
+            source = (domain ? await findByDomain(domain) : null) || (name ? await findByName(name) : null);
+        } else {
+            source = created;
+        }
+    }
+
+    if (!source) return null;
+
+    sourceCache.set(cacheKey, source.id);
+    return source.id;
+}
+
+/**
+ * Assign source_id to existing articles that were stored without one
+ */
+export async function backfillArticleSources(limit: number = 500): Promise<{
+    scanned: number;
+    updated: number;
+}> {
+    const { data: articles, error } = await supabase
+        .from('articles')
+        .select('id, url')
+        .is('source_id', null)
+        .order('published_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to fetch articles for backfill: ${error.message}`);
+    }
+
+    let updated = 0;
+
+    for (const article of articles || []) {
+        const sourceId = await resolveSourceId({ url: article.url });
+        if (!sourceId) continue;
+
+        const { error: updateError } = await supabase
+            .from('articles')
+            .update({ source_id: sourceId })
+            .eq('id', article.id);
+
+        if (!updateError) updated++;
+    }
+
+    return { scanned: articles?.length || 0, updated };
+}
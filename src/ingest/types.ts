@@ -0,0 +1,69 @@
+/**
+ * News Source Adapter Types
+ *
+ * Contract every news provider implements so the ingestion pipeline can
+ * fetch, map and store articles without provider-specific branches.
+ */
+
+// Row shape written to the `articles` table
+export interface ArticleInsert {
+    title: string;
+    excerpt: string | null;
+    url: string;
+    image_url: string | null;
+    published_at: string;
+    category?: string;
+    source_id?: string | null;
+}
+
+export interface AdapterQuota {
+    dailyLimit: number | null;   // Requests allowed per UTC day (null = unmetered)
+    requestsPerMinute?: number;  // Burst limit, if the provider enforces one
+    articlesPerRequest: number;  // Max articles returned by a single request
+}
+
+// Publisher details a provider reports alongside each article
+export interface SourceHint {
+    name?: string | null;
+    url?: string | null;
+}
+
+// Injectable HTTP client (defaults to global fetch) so network stages can run against fixtures
+export type HttpFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export const BOT_USER_AGENT = 'NewsportalBot/1.0 (+https://github.com/yuditriaji/newsportal-backend)';
+
+// Query dimensions an adapter can fan out over in one ingestion run
+export type ScopeDimension = 'category' | 'country' | 'language' | 'query';
+
+export interface FetchOptions {
+    category?: string;
+    country?: string;
+    language?: string;
+    query?: string;               // Keyword search instead of top headlines
+    since?: string | null;        // High-water mark: stop paging once articles are this old
+    maxPages?: number;
+    maxRequests?: number;         // Provider requests this fetch may spend
+}
+
+export interface FetchResult<TRaw> {
+    items: TRaw[];
+    requests: number;             // Provider requests actually made
+    // False when paging stopped (page limit, request budget or an error)
+    // before reaching `since` or the end of the results
+    complete?: boolean;
+    commit?(): Promise<void>;     // Saves fetch state (e.g. feed validators) once the items are stored
+}
+
+export interface NewsSourceAdapter<TRaw = unknown> {
+    id: string;      // Registry key, used by /api/ingest/:adapter
+    name: string;    // Human-readable provider name for logs and responses
+    quota: AdapterQuota;
+    scopes: ScopeDimension[];     // Supported FetchOptions dimensions; others are ignored
+    isConfigured(): boolean;
+    fetch(options?: FetchOptions): Promise<FetchResult<TRaw>>;
+    map(raw: TRaw): ArticleInsert;
+    source?(raw: TRaw): SourceHint;  // Used to resolve source_id when map() leaves it unset
+}
+
+export type AnyNewsSourceAdapter = NewsSourceAdapter<any>;
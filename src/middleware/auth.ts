@@ -1,23 +1,158 @@
-import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyJWTOptions, TokenOrHeader } from '@fastify/jwt';
 import { supabase } from '../config/database.js';
+import { env } from '../config/env.js';
+import { ApiKeyScope, hasScope, verifyApiKey } from '../services/apiKeys.js';
+import { createJwksResolver } from '../services/jwks.js';
+import { HttpFetcher } from '../ingest/types.js';
 
-interface User {
+// reader < editor < admin for people; service is for API keys and never outranks anyone
+export type Role = 'reader' | 'editor' | 'admin' | 'service';
+
+// Roles a token or profile can carry; 'service' only ever comes from a verified API key
+const PERSON_ROLES: Role[] = ['reader', 'editor', 'admin'];
+
+const ROLE_RANK: Record<Exclude<Role, 'service'>, number> = {
+    reader: 0,
+    editor: 1,
+    admin: 2,
+};
+
+export interface User {
     id: string;
     email?: string;
+    role: Role;
+    apiKey?: { id: string; name: string; scopes: ApiKeyScope[] };
+}
+
+// Claims in a Supabase access token that we rely on
+export interface SupabaseJwtClaims {
+    sub: string;
+    email?: string;
+    role?: string;              // Postgres role, e.g. 'authenticated'
+    session_id?: string;
+    app_metadata?: { role?: string; [key: string]: unknown };
+    user_role?: string;         // Set by a custom access token hook, if configured
+    exp?: number;
+    iat?: number;
+}
+
+// request.user is set by requireAuth (not by @fastify/jwt's own decoding)
+declare module '@fastify/jwt' {
+    interface FastifyJWT {
+        payload: SupabaseJwtClaims;
+        user: User | undefined;
+    }
 }
 
-// Extend FastifyRequest to include user
-declare module 'fastify' {
-    interface FastifyRequest {
-        user?: User;
+/**
+ * @fastify/jwt options for Supabase access tokens: HS256 with the project
+ * secret when configured, otherwise the project's JWKS (cached, rotated)
+ */
+export function jwtOptions(fetcher?: HttpFetcher): FastifyJWTOptions {
+    const issuer = env.SUPABASE_URL ? `${env.SUPABASE_URL.replace(/\/$/, '')}/auth/v1` : undefined;
+    const verify = {
+        allowedAud: 'authenticated',
+        ...(issuer ? { allowedIss: issuer } : {}),
+    };
+
+    if (env.SUPABASE_JWT_SECRET) {
+        return { secret: env.SUPABASE_JWT_SECRET, verify: { ...verify, algorithms: ['HS256'] } };
     }
+
+    const resolveKey = createJwksResolver(`${issuer}/.well-known/jwks.json`, { fetcher });
+
+    return {
+        secret: async (_request: FastifyRequest, tokenOrHeader: TokenOrHeader) => {
+            const header = 'header' in tokenOrHeader ? tokenOrHeader.header : tokenOrHeader;
+            return resolveKey(header.kid);
+        },
+        verify: { ...verify, algorithms: ['RS256', 'ES256'] },
+    };
 }
 
-// Auth middleware - verifies Supabase JWT (OWASP A01)
+/**
+ * Role from token claims (app_metadata is only writable server-side)
+ */
+export function roleFromClaims(claims: SupabaseJwtClaims): Role | null {
+    const role = claims.app_metadata?.role ?? claims.user_role;
+    return PERSON_ROLES.includes(role as Role) ? role as Role : null;
+}
+
+/**
+ * Role stored on the user's profile (reader when there is no profile yet)
+ */
+async function getProfileRole(userId: string): Promise<Role> {
+    const { data } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    return PERSON_ROLES.includes(data?.role as Role) ? data!.role as Role : 'reader';
+}
+
+// Per-session revocation results, so the auth server is asked at most once per interval
+const revocationChecks = new Map<string, { revoked: boolean; checkedAt: number }>();
+const MAX_REVOCATION_ENTRIES = 10000;
+
+/**
+ * Whether a locally valid token belongs to a signed-out or deleted session.
+ * Auth server outages fail open: the signature and expiry were already checked.
+ */
+export async function isRevoked(token: string, claims: SupabaseJwtClaims): Promise<boolean> {
+    const intervalMs = env.AUTH_REVOCATION_CHECK_SECONDS * 1000;
+    if (intervalMs <= 0) return false;
+
+    const key = claims.session_id || `${claims.sub}:${claims.iat}`;
+    const cached = revocationChecks.get(key);
+    if (cached && (cached.revoked || Date.now() - cached.checkedAt < intervalMs)) {
+        return cached.revoked;
+    }
+
+    let revoked = false;
+    try {
+        const { data, error } = await supabase.auth.getUser(token);
+        // Only an explicit rejection counts; network failures and 5xx do not
+        revoked = Boolean(error && error.status && error.status >= 400 && error.status < 500) || (!error && !data.user);
+    } catch (err) {
+        console.warn('Revocation check failed, accepting locally verified token:', err);
+    }
+
+    if (revocationChecks.size >= MAX_REVOCATION_ENTRIES) {
+        const cutoff = Date.now() - intervalMs;
+        for (const [entry, check] of revocationChecks) {
+            if (!check.revoked && check.checkedAt < cutoff) revocationChecks.delete(entry);
+        }
+        if (revocationChecks.size >= MAX_REVOCATION_ENTRIES) revocationChecks.clear();
+    }
+    revocationChecks.set(key, { revoked, checkedAt: Date.now() });
+
+    return revoked;
+}
+
+// Auth middleware - verifies a service API key (X-API-Key) or Supabase JWT locally (OWASP A01)
 export async function requireAuth(
     request: FastifyRequest,
     reply: FastifyReply
 ): Promise<void> {
+    const apiKey = request.headers['x-api-key'];
+
+    if (typeof apiKey === 'string') {
+        const key = await verifyApiKey(apiKey);
+
+        if (!key) {
+            return reply.code(401).send({ error: 'Invalid API key' });
+        }
+
+        request.user = {
+            id: `service:${key.id}`,
+            role: 'service',
+            apiKey: { id: key.id, name: key.name, scopes: key.scopes },
+        };
+        return;
+    }
+
     const authHeader = request.headers.authorization;
 
     if (!authHeader?.startsWith('Bearer ')) {
@@ -26,20 +161,64 @@ export async function requireAuth(
 
     const token = authHeader.split(' ')[1];
 
+    let claims: SupabaseJwtClaims;
     try {
-        const { data: { user }, error } = await supabase.auth.getUser(token);
+        claims = await request.jwtVerify<SupabaseJwtClaims>();
+    } catch (err) {
+        request.log.debug(err);
+        request.user = undefined;
+        return reply.code(401).send({ error: 'Invalid token' });
+    }
 
-        if (error || !user) {
-            return reply.code(401).send({ error: 'Invalid token' });
+    try {
+        if (await isRevoked(token, claims)) {
+            request.user = undefined;
+            return reply.code(401).send({ error: 'Session revoked' });
         }
 
-        request.user = { id: user.id, email: user.email };
+        request.user = {
+            id: claims.sub,
+            email: claims.email,
+            role: roleFromClaims(claims) || await getProfileRole(claims.sub),
+        };
     } catch (err) {
         request.log.error(err);
+        request.user = undefined;
         return reply.code(401).send({ error: 'Authentication failed' });
     }
 }
 
+/**
+ * Whether a user satisfies any of the allowed roles. Human roles are ranked
+ * (an admin passes an editor check); service keys pass only when 'service'
+ * is allowed and the key carries the scope. A service user without a key
+ * passes nothing.
+ */
+export function hasRole(user: User, allowed: Role[], scope?: string): boolean {
+    if (user.role === 'service') {
+        return allowed.includes('service') && Boolean(user.apiKey) && (!scope || hasScope(user.apiKey!, scope));
+    }
+
+    const rank = ROLE_RANK[user.role];
+    return allowed.some((role) => role !== 'service' && rank >= ROLE_RANK[role]);
+}
+
+// Role check middleware - authenticates first when requireAuth has not run (OWASP A01)
+export function requireRole(allowed: Role | Role[], options: { scope?: ApiKeyScope } = {}) {
+    const roles = Array.isArray(allowed) ? allowed : [allowed];
+
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+        if (!request.user) {
+            await requireAuth(request, reply);
+            if (reply.sent || !request.user) return;
+        }
+
+        if (!hasRole(request.user, roles, options.scope)) {
+            return reply.code(403).send({ error: 'Forbidden' });
+        }
+    };
+}
+
 // Ownership check middleware (OWASP A01)
 export function requireOwnership(resourceKey: string = 'owner_id') {
     return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
@@ -0,0 +1,176 @@
+/**
+ * Rate Limiting
+ *
+ * Quotas per caller and route group for @fastify/rate-limit. Callers are
+ * identified by service API key or verified user token, falling back to the
+ * client IP, and their quota depends on their subscription tier. Counters
+ * live in Redis when configured so every instance shares them, otherwise in
+ * process memory.
+ */
+
+import { FastifyRequest } from 'fastify';
+import { RateLimitPluginOptions } from '@fastify/rate-limit';
+import type { Redis } from 'ioredis';
+import { supabase } from '../config/database.js';
+import { hashApiKey, verifyApiKey } from '../services/apiKeys.js';
+import { SupabaseJwtClaims } from './auth.js';
+
+export type RouteGroup = 'read' | 'write' | 'auth' | 'ai' | 'internal';
+
+// subscription_tier values on profiles, plus callers without an account or with an API key
+export const SUBSCRIPTION_TIERS = ['free', 'pro', 'enterprise'] as const;
+export type Tier = 'anonymous' | typeof SUBSCRIPTION_TIERS[number] | 'service';
+
+export interface Requester {
+    id: string;         // bucket identity, e.g. 'user:<uuid>' or 'ip:1.2.3.4'
+    tier: Tier;
+}
+
+export const RATE_LIMIT_WINDOW_MS = 60000;
+
+// Requests per minute by route group and tier
+export const RATE_LIMITS: Record<RouteGroup, Record<Tier, number>> = {
+    read: { anonymous: 60, free: 120, pro: 600, enterprise: 2000, service: 2000 },
+    write: { anonymous: 20, free: 60, pro: 300, enterprise: 1000, service: 1000 },
+    auth: { anonymous: 20, free: 30, pro: 60, enterprise: 120, service: 120 },
+    // Each call spends LLM quota
+    ai: { anonymous: 2, free: 5, pro: 30, enterprise: 120, service: 120 },
+    internal: { anonymous: 30, free: 60, pro: 120, enterprise: 300, service: 600 },
+};
+
+// First match wins; anything else is 'read' for GET/HEAD and 'write' otherwise
+const ROUTE_GROUPS: Array<{ group: RouteGroup; prefix: string; method?: string }> = [
+    { group: 'ai', method: 'POST', prefix: '/api/ai/' },
+    { group: 'ai', method: 'POST', prefix: '/api/stories/cluster' },
+    { group: 'internal', prefix: '/api/ingest/' },
+    { group: 'internal', prefix: '/api/admin/' },
+    { group: 'auth', prefix: '/api/v1/auth/' },
+];
+
+// Never limited, so health probes keep working under load
+const UNLIMITED_ROUTES = new Set(['/health']);
+
+const TIER_CACHE_MS = 5 * 60000;
+const API_KEY_CACHE_MS = 60000;
+const MAX_CACHE_ENTRIES = 10000;
+
+const tierCache = new Map<string, { tier: Tier; cachedAt: number }>();
+const apiKeyCache = new Map<string, { valid: boolean; cachedAt: number }>();
+const requesters = new WeakMap<FastifyRequest, Requester>();
+
+export function routeGroup(method: string, url: string): RouteGroup {
+    const rule = ROUTE_GROUPS.find((r) => url.startsWith(r.prefix) && (!r.method || r.method === method));
+    if (rule) return rule.group;
+
+    return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+export function limitFor(group: RouteGroup, tier: Tier): number {
+    return RATE_LIMITS[group][tier];
+}
+
+export function isSubscriptionTier(value: unknown): value is typeof SUBSCRIPTION_TIERS[number] {
+    return (SUBSCRIPTION_TIERS as readonly unknown[]).includes(value);
+}
+
+function cacheSet<T extends { cachedAt: number }>(cache: Map<string, T>, key: string, value: T): void {
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+    cache.set(key, value);
+}
+
+/**
+ * A user's subscription tier (free when unknown), cached for a few minutes
+ */
+async function getUserTier(userId: string): Promise<Tier> {
+    const cached = tierCache.get(userId);
+    if (cached && Date.now() - cached.cachedAt < TIER_CACHE_MS) {
+        return cached.tier;
+    }
+
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('subscription_tier')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) {
+        // Don't cache lookups that failed
+        console.error('Error reading subscription tier:', error);
+        return 'free';
+    }
+
+    const tier = isSubscriptionTier(data?.subscription_tier) ? data.subscription_tier : 'free';
+    cacheSet(tierCache, userId, { tier, cachedAt: Date.now() });
+    return tier;
+}
+
+async function isValidApiKey(hash: string, key: string): Promise<boolean> {
+    const cached = apiKeyCache.get(hash);
+    if (cached && Date.now() - cached.cachedAt < API_KEY_CACHE_MS) {
+        return cached.valid;
+    }
+
+    const valid = Boolean(await verifyApiKey(key));
+    cacheSet(apiKeyCache, hash, { valid, cachedAt: Date.now() });
+    return valid;
+}
+
+/**
+ * Who a request counts against. Credentials are verified here so forged keys
+ * or tokens cannot spread requests across fresh buckets; invalid ones are
+ * counted against the IP and rejected later by requireAuth.
+ */
+export async function identifyRequester(request: FastifyRequest): Promise<Requester> {
+    const anonymous: Requester = { id: `ip:${request.ip}`, tier: 'anonymous' };
+
+    try {
+        const apiKey = request.headers['x-api-key'];
+        if (typeof apiKey === 'string') {
+            const hash = hashApiKey(apiKey);
+            return await isValidApiKey(hash, apiKey) ? { id: `key:${hash.slice(0, 32)}`, tier: 'service' } : anonymous;
+        }
+
+        if (request.headers.authorization?.startsWith('Bearer ')) {
+            const claims = await request.jwtVerify<SupabaseJwtClaims>();
+            // requireAuth builds request.user from the claims later
+            request.user = undefined;
+            return { id: `user:${claims.sub}`, tier: await getUserTier(claims.sub) };
+        }
+    } catch (err) {
+        request.log.debug(err);
+    }
+
+    return anonymous;
+}
+
+async function requesterFor(request: FastifyRequest): Promise<Requester> {
+    let requester = requesters.get(request);
+    if (!requester) {
+        requester = await identifyRequester(request);
+        requesters.set(request, requester);
+    }
+    return requester;
+}
+
+function groupFor(request: FastifyRequest): RouteGroup {
+    return routeGroup(request.method, request.routeOptions.url || request.url);
+}
+
+/**
+ * @fastify/rate-limit options: one bucket per caller and route group, sized
+ * by tier, with IETF RateLimit-* and Retry-After headers
+ */
+export function rateLimitOptions(redis: Redis | null = null): RateLimitPluginOptions {
+    return {
+        global: true,
+        timeWindow: RATE_LIMIT_WINDOW_MS,
+        keyGenerator: async (request) => `${groupFor(request)}:${(await requesterFor(request)).id}`,
+        max: async (request) => limitFor(groupFor(request), (await requesterFor(request)).tier),
+        allowList: (request) => UNLIMITED_ROUTES.has(request.routeOptions.url || ''),
+        enableDraftSpec: true,
+        nameSpace: 'ratelimit:',
+        // A Redis outage must not take the API down with it
+        skipOnError: true,
+        ...(redis ? { redis } : {}),
+    };
+}
@@ -0,0 +1,373 @@
+import { FastifyPluginAsync } from 'fastify';
+import { backfillArticleSources } from '../ingest/sources.js';
+import { requireAuth, requireRole, Role } from '../middleware/auth.js';
+import { API_KEY_SCOPES, createApiKey, isApiKeyScope, listApiKeys, revokeApiKey } from '../services/apiKeys.js';
+import { supabase } from '../config/database.js';
+import { listJobTypes } from '../services/queue.js';
+import { getJobStatus, InvalidScheduleError, triggerJob, updateSchedule } from '../services/scheduler.js';
+import { bearerAuth, bearerOrApiKey, errorResponse, idParams, limitProperty, row, rows, timestamp, uuid } from '../schemas/common.js';
+
+const ASSIGNABLE_ROLES: Role[] = ['reader', 'editor', 'admin'];
+
+const tags = ['admin'];
+const security = bearerAuth;
+
+const apiKey = {
+    type: 'object',
+    properties: {
+        id: uuid,
+        name: { type: 'string' },
+        key_prefix: { type: 'string' },
+        scopes: { type: 'array', items: { type: 'string' } },
+        created_by: { type: ['string', 'null'] },
+        created_at: timestamp,
+        last_used_at: timestamp,
+        expires_at: timestamp,
+        revoked_at: timestamp,
+    },
+} as const;
+
+const backfillSchema = {
+    summary: 'Resolve source_id for articles stored without one',
+    tags,
+    security,
+    body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: { limit: limitProperty(500, 5000) },
+    },
+    response: {
+        // Backfill counts
+        200: { type: 'object', additionalProperties: true, properties: { message: { type: 'string' } } },
+        500: errorResponse,
+    },
+};
+
+const listKeysSchema = {
+    summary: 'List service API keys (never the keys themselves)',
+    tags,
+    security,
+    response: {
+        200: { type: 'object', properties: { data: { type: 'array', items: apiKey } } },
+    },
+};
+
+const createKeySchema = {
+    summary: 'Create a service API key; the plaintext key is only returned here',
+    tags,
+    security,
+    body: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        additionalProperties: false,
+        properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            scopes: { type: 'array', minItems: 1, items: { type: 'string', enum: [...API_KEY_SCOPES, '*'] } },
+            expires_at: { type: 'string', format: 'date-time' },
+        },
+    },
+    response: {
+        201: { type: 'object', properties: { ...apiKey.properties, key: { type: 'string' } } },
+        400: errorResponse,
+    },
+};
+
+const revokeKeySchema = {
+    summary: 'Revoke a service API key',
+    tags,
+    security,
+    params: idParams,
+    response: {
+        204: { type: 'null' },
+        404: errorResponse,
+    },
+};
+
+const setRoleSchema = {
+    summary: "Set a user's role",
+    tags,
+    security,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['role'],
+        additionalProperties: false,
+        properties: { role: { type: 'string', enum: ASSIGNABLE_ROLES } },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: { id: uuid, full_name: { type: ['string', 'null'] }, role: { type: 'string' } },
+        },
+        400: errorResponse,
+        404: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const jobTypeParams = {
+    type: 'object',
+    required: ['type'],
+    properties: { type: { type: 'string', minLength: 1, maxLength: 50 } },
+} as const;
+
+const schedule = {
+    type: 'object',
+    properties: {
+        job_type: { type: 'string' },
+        cron_expression: { type: 'string' },
+        payload: row,
+        is_paused: { type: 'boolean' },
+        updated_at: timestamp,
+    },
+} as const;
+
+const jobStatusSchema = {
+    summary: 'Job types with schedule, last run, result and duration',
+    tags,
+    security,
+    response: {
+        200: { type: 'object', properties: { jobs: rows } },
+    },
+};
+
+const runJobSchema = {
+    summary: 'Queue a job run now',
+    tags,
+    security: bearerOrApiKey,
+    params: jobTypeParams,
+    // Payload overrides, e.g. { "profiles": ["default"] } for ingest
+    body: { type: ['object', 'null'], additionalProperties: true },
+    response: {
+        202: { type: 'object', properties: { message: { type: 'string' }, job: { type: ['object', 'null'], additionalProperties: true } } },
+        404: errorResponse,
+    },
+};
+
+const pauseSchema = {
+    summary: 'Stop scheduled runs',
+    tags,
+    security,
+    params: jobTypeParams,
+    response: {
+        200: { type: 'object', properties: { schedule } },
+        404: errorResponse,
+    },
+};
+
+const resumeSchema = { ...pauseSchema, summary: 'Resume scheduled runs' };
+
+const updateScheduleSchema = {
+    summary: 'Edit a job schedule',
+    tags,
+    security,
+    params: jobTypeParams,
+    body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+            cron_expression: { type: 'string', minLength: 1, maxLength: 100 },
+            payload: { type: 'object', additionalProperties: true },
+        },
+    },
+    response: {
+        200: { type: 'object', properties: { schedule } },
+        400: errorResponse,
+        404: errorResponse,
+    },
+};
+
+export const adminRoutes: FastifyPluginAsync = async (fastify) => {
+    // All admin routes require authentication; most are admin-only
+    fastify.addHook('preHandler', requireAuth);
+    const adminOnly = requireRole('admin');
+
+    // POST /api/admin/sources/backfill - Resolve source_id for articles stored without one
+    fastify.post<{ Body: { limit?: number } | null }>('/sources/backfill', { schema: backfillSchema, preHandler: adminOnly }, async (request, reply) => {
+        const { limit = 500 } = request.body || {};
+
+        try {
+            const result = await backfillArticleSources(limit);
+
+            return {
+                message: 'Source backfill complete',
+                ...result,
+            };
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.code(500).send({ error: 'Source backfill failed' });
+        }
+    });
+
+    // GET /api/admin/api-keys - List service API keys (never the keys themselves)
+    fastify.get('/api-keys', { schema: listKeysSchema, preHandler: adminOnly }, async () => {
+        return { data: await listApiKeys() };
+    });
+
+    // POST /api/admin/api-keys - Create a service API key; the plaintext key is only returned here
+    // Body: { name, scopes: ['ingest' | 'ai' | 'cluster' | 'jobs' | '*'], expires_at? }
+    fastify.post<{ Body: { name?: string; scopes?: string[]; expires_at?: string } }>(
+        '/api-keys',
+        { schema: createKeySchema, preHandler: adminOnly },
+        async (request, reply) => {
+            const { name, scopes, expires_at } = request.body || {};
+
+            if (typeof name !== 'string' || name.trim().length === 0) {
+                return reply.code(400).send({ error: 'name is required' });
+            }
+            if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope) => isApiKeyScope(scope))) {
+                return reply.code(400).send({ error: 'scopes must list one or more of ingest, ai, cluster, jobs, *' });
+            }
+            if (expires_at !== undefined && Number.isNaN(new Date(expires_at).getTime())) {
+                return reply.code(400).send({ error: 'expires_at must be a date' });
+            }
+
+            const { key, record } = await createApiKey(name.trim(), scopes.filter(isApiKeyScope), {
+                createdBy: request.user!.id,
+                expiresAt: expires_at,
+            });
+
+            return reply.code(201).send({ ...record, key });
+        }
+    );
+
+    // DELETE /api/admin/api-keys/:id - Revoke a service API key
+    fastify.delete<{ Params: { id: string } }>('/api-keys/:id', { schema: revokeKeySchema, preHandler: adminOnly }, async (request, reply) => {
+        if (!await revokeApiKey(request.params.id)) {
+            return reply.code(404).send({ error: 'API key not found' });
+        }
+
+        return reply.code(204).send();
+    });
+
+    // PUT /api/admin/users/:id/role - Set a user's role
+    // Body: { role: 'reader' | 'editor' | 'admin' }
+    fastify.put<{ Params: { id: string }; Body: { role?: Role } }>(
+        '/users/:id/role',
+        { schema: setRoleSchema, preHandler: adminOnly },
+        async (request, reply) => {
+            const { role } = request.body || {};
+
+            if (!role || !ASSIGNABLE_ROLES.includes(role)) {
+                return reply.code(400).send({ error: `role must be one of ${ASSIGNABLE_ROLES.join(', ')}` });
+            }
+
+            const { data: current, error: readError } = await supabase
+                .from('profiles')
+                .select('role')
+                .eq('id', request.params.id)
+                .maybeSingle();
+
+            if (readError) {
+                fastify.log.error(readError);
+                return reply.code(400).send({ error: 'Failed to update role' });
+            }
+
+            if (!current) {
+                return reply.code(404).send({ error: 'Profile not found' });
+            }
+
+            const { data, error } = await supabase
+                .from('profiles')
+                .update({ role })
+                .eq('id', request.params.id)
+                .select('id, full_name, role')
+                .maybeSingle();
+
+            if (error) {
+                fastify.log.error(error);
+                return reply.code(400).send({ error: 'Failed to update role' });
+            }
+
+            if (!data) {
+                return reply.code(404).send({ error: 'Profile not found' });
+            }
+
+            // Tokens carry the role in app_metadata, which takes precedence over the
+            // profile; it applies once the user's session refreshes
+            const { error: authError } = await supabase.auth.admin.updateUserById(request.params.id, {
+                app_metadata: { role },
+            });
+
+            if (authError) {
+                fastify.log.error(authError);
+
+                // Put the profile back so it never disagrees with the tokens
+                const { error: rollbackError } = await supabase
+                    .from('profiles')
+                    .update({ role: current.role })
+                    .eq('id', request.params.id);
+
+                if (rollbackError) {
+                    fastify.log.error(rollbackError);
+                }
+
+                return reply.code(500).send({ error: 'Failed to update role' });
+            }
+
+            return data;
+        }
+    );
+
+    // Job control routes: admins, or service keys scoped to jobs for triggering runs
+    await fastify.register(async (jobs) => {
+        const canRunJobs = requireRole(['admin', 'service'], { scope: 'jobs' });
+
+        jobs.addHook<{ Params: { type?: string } }>('preHandler', async (request, reply) => {
+            const { type } = request.params;
+            if (type && !listJobTypes().includes(type)) {
+                return reply.code(404).send({ error: `Unknown job type: ${type}` });
+            }
+        });
+
+        // GET /api/admin/jobs - Job types with schedule, last run, result and duration
+        jobs.get('/', { schema: jobStatusSchema, preHandler: adminOnly }, async () => {
+            return { jobs: await getJobStatus() };
+        });
+
+        // POST /api/admin/jobs/:type/run - Queue a run now
+        // Body: payload overrides, e.g. { "profiles": ["default"] } for ingest
+        jobs.post<{ Params: { type: string }; Body: Record<string, unknown> | null }>('/:type/run', { schema: runJobSchema, preHandler: canRunJobs }, async (request, reply) => {
+            const job = await triggerJob(request.params.type, request.body || {});
+            return reply.code(202).send({ message: `${request.params.type} job queued`, job });
+        });
+
+        // POST /api/admin/jobs/:type/pause - Stop scheduled runs
+        jobs.post<{ Params: { type: string } }>('/:type/pause', { schema: pauseSchema, preHandler: adminOnly }, async (request) => {
+            return { schedule: await updateSchedule(request.params.type, { is_paused: true }, request.user?.id) };
+        });
+
+        // POST /api/admin/jobs/:type/resume - Resume scheduled runs
+        jobs.post<{ Params: { type: string } }>('/:type/resume', { schema: resumeSchema, preHandler: adminOnly }, async (request) => {
+            return { schedule: await updateSchedule(request.params.type, { is_paused: false }, request.user?.id) };
+        });
+
+        // PATCH /api/admin/jobs/:type - Edit the schedule
+        // Body: { cron_expression?, payload? }
+        jobs.patch<{ Params: { type: string }; Body: { cron_expression?: string; payload?: Record<string, unknown> } }>(
+            '/:type',
+            { schema: updateScheduleSchema, preHandler: adminOnly },
+            async (request, reply) => {
+                const { cron_expression, payload } = request.body || {};
+
+                if (cron_expression !== undefined && typeof cron_expression !== 'string') {
+                    return reply.code(400).send({ error: 'cron_expression must be a string' });
+                }
+                if (payload !== undefined && (typeof payload !== 'object' || payload === null || Array.isArray(payload))) {
+                    return reply.code(400).send({ error: 'payload must be an object' });
+                }
+
+                try {
+                    return {
+                        schedule: await updateSchedule(request.params.type, { cron_expression, payload }, request.user?.id),
+                    };
+                } catch (error) {
+                    if (error instanceof InvalidScheduleError) {
+                        return reply.code(400).send({ error: error.message });
+                    }
+                    throw error;
+                }
+            }
+        );
+    }, { prefix: '/jobs' });
+};
@@ -1,113 +1,182 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../config/database.js';
-import { analyzeArticle } from '../ai/groq.js';
+import { analyzeArticle, processUnanalyzedArticles, saveArticleAnalysis } from '../ai/groq.js';
+import { getOutputMetrics } from '../ai/structuredOutput.js';
+import { getLLMUsage } from '../services/llmUsage.js';
+import { QuotaExceededError } from '../services/quota.js';
+import { requireRole } from '../middleware/auth.js';
+import { bearerOrApiKey, cursorQuery, errorResponse, idParams, limitProperty, pageEnvelope, row, uuid } from '../schemas/common.js';
+import { applyKeyset, KeysetOrder, toPage } from '../services/pagination.js';
+
+const ENTITY_ORDER: KeysetOrder = { column: 'name', ascending: true };
+
+const tags = ['ai'];
+
+const processSchema = {
+    summary: 'Analyze a batch of unprocessed articles',
+    tags,
+    security: bearerOrApiKey,
+    body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: { limit: limitProperty(5, 50) },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                message: { type: 'string' },
+                processed: { type: 'integer' },
+                failed: { type: 'integer' },
+                results: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { id: uuid, success: { type: 'boolean' }, entities: { type: 'integer' } },
+                    },
+                },
+            },
+        },
+        500: errorResponse,
+    },
+};
+
+const analyzeSchema = {
+    summary: 'Analyze one article',
+    tags,
+    security: bearerOrApiKey,
+    params: idParams,
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                articleId: uuid,
+                analysis: row,
+            },
+        },
+        404: errorResponse,
+        429: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const entitiesSchema = {
+    summary: 'Extracted entities with article counts',
+    tags,
+    querystring: cursorQuery(50, {
+        type: { type: 'string', maxLength: 50 },
+    }),
+    response: {
+        200: pageEnvelope(row),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const count = { type: 'integer' } as const;
+
+// Validated model output per task (analysis, synthesis) since the process started
+const outputMetrics = {
+    type: 'object',
+    additionalProperties: {
+        type: 'object',
+        properties: {
+            requests: count,
+            validFirstTry: count,
+            repaired: count,
+            failed: count,
+            parseErrors: count,
+            validationErrors: count,
+            coercions: count,
+            failureRate: { type: 'number' },
+        },
+    },
+} as const;
+
+const usageTotals = {
+    calls: count,
+    failures: count,
+    cache_hits: count,
+    prompt_tokens: count,
+    completion_tokens: count,
+    total_tokens: count,
+    avg_latency_ms: { type: ['integer', 'null'] },
+} as const;
+
+// LLM calls per job type (analysis, synthesis, summary) and per day, provider and model
+const llmUsage = {
+    type: 'object',
+    properties: {
+        since: { type: 'string', format: 'date' },
+        by_job_type: { type: 'object', additionalProperties: { type: 'object', properties: usageTotals } },
+        daily: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    date: { type: 'string', format: 'date' },
+                    job_type: { type: 'string' },
+                    provider: { type: 'string' },
+                    model: { type: 'string' },
+                    ...usageTotals,
+                },
+            },
+        },
+    },
+} as const;
+
+const statsSchema = {
+    summary: 'AI processing progress, sentiment breakdown, model output validation and LLM usage',
+    tags,
+    querystring: {
+        type: 'object',
+        properties: {
+            days: { type: 'integer', minimum: 1, maximum: 90, default: 7 },
+        },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                articles: { type: 'object', properties: { total: count, processed: count, pending: count } },
+                entities: { type: 'object', properties: { total: count } },
+                sentiment: { type: 'object', properties: { positive: count, negative: count, neutral: count } },
+                validation: outputMetrics,
+                usage: llmUsage,
+            },
+        },
+    },
+};
 
 export const aiRoutes: FastifyPluginAsync = async (fastify) => {
+    // Analysis spends Groq quota: editors, or service keys scoped to ai
+    const canAnalyze = requireRole(['editor', 'service'], { scope: 'ai' });
+
     // POST /api/ai/process - Process unanalyzed articles with AI
-    fastify.post('/process', async (request, reply) => {
-        const { limit = 5 } = request.body as { limit?: number };
+    fastify.post<{ Body: { limit?: number } | null }>('/process', { schema: processSchema, preHandler: canAnalyze }, async (request, reply) => {
+        const { limit = 5 } = request.body || {};
 
         try {
-            // Get unprocessed articles
-            const { data: articles, error } = await supabase
-                .from('articles')
-                .select('id, title, excerpt')
-                .eq('processed', false)
-                .order('published_at', { ascending: false })
-                .limit(limit);
-
-            if (error) {
-                fastify.log.error(error);
-                return reply.code(500).send({ error: 'Failed to fetch articles' });
-            }
+            const summary = await processUnanalyzedArticles(limit);
 
-            if (!articles || articles.length === 0) {
+            if (summary.attempted === 0) {
                 return { message: 'No unprocessed articles', processed: 0 };
             }
 
-            const results: Array<{ id: string; success: boolean; entities?: number }> = [];
-
-            for (const article of articles) {
-                try {
-                    // Analyze with AI
-                    const analysis = await analyzeArticle(article.title, article.excerpt);
-
-                    // Update article with sentiment and category
-                    await supabase
-                        .from('articles')
-                        .update({
-                            sentiment: analysis.sentiment.sentiment,
-                            sentiment_score: analysis.sentiment.score,
-                            category: analysis.category || null,
-                            summary: analysis.summary || null,
-                            processed: true,
-                        })
-                        .eq('id', article.id);
-
-                    // Insert entities
-                    if (analysis.entities.length > 0) {
-                        for (const entity of analysis.entities) {
-                            // Upsert entity
-                            const { data: existingEntity } = await supabase
-                                .from('entities')
-                                .select('id')
-                                .eq('name', entity.name)
-                                .eq('type', entity.type)
-                                .single();
-
-                            let entityId = existingEntity?.id;
-
-                            if (!entityId) {
-                                const { data: newEntity } = await supabase
-                                    .from('entities')
-                                    .insert({
-                                        name: entity.name,
-                                        type: entity.type,
-                                    })
-                                    .select('id')
-                                    .single();
-                                entityId = newEntity?.id;
-                            }
-
-                            // Link entity to article
-                            if (entityId) {
-                                await supabase
-                                    .from('article_entities')
-                                    .upsert({
-                                        article_id: article.id,
-                                        entity_id: entityId,
-                                        confidence: entity.confidence,
-                                        context: entity.context,
-                                    }, { onConflict: 'article_id,entity_id' });
-                            }
-                        }
-                    }
-
-                    results.push({
-                        id: article.id,
-                        success: true,
-                        entities: analysis.entities.length,
-                    });
-                } catch (err) {
-                    fastify.log.error(`Failed to process article ${article.id}: ${err}`);
-                    results.push({ id: article.id, success: false });
-                }
-            }
-
             // Log the job
             await supabase.from('job_logs').insert({
                 job_type: 'process',
                 status: 'completed',
-                message: `Processed ${results.filter((r) => r.success).length}/${articles.length} articles`,
-                items_processed: results.filter((r) => r.success).length,
+                message: `Processed ${summary.processed}/${summary.attempted} articles`,
+                items_processed: summary.processed,
                 completed_at: new Date().toISOString(),
             });
 
             return {
                 message: 'AI processing complete',
-                processed: results.filter((r) => r.success).length,
-                failed: results.filter((r) => !r.success).length,
-                results,
+                processed: summary.processed,
+                failed: summary.failed,
+                results: summary.results,
             };
         } catch (error) {
             fastify.log.error(`AI processing error: ${error}`);
@@ -116,8 +185,8 @@ export const aiRoutes: FastifyPluginAsync = async (fastify) => {
     });
 
     // POST /api/ai/analyze - Analyze a single article by ID
-    fastify.post('/analyze/:id', async (request, reply) => {
-        const { id } = request.params as { id: string };
+    fastify.post<{ Params: { id: string } }>('/analyze/:id', { schema: analyzeSchema, preHandler: canAnalyze }, async (request, reply) => {
+        const { id } = request.params;
 
         const { data: article, error } = await supabase
             .from('articles')
@@ -131,32 +200,24 @@ export const aiRoutes: FastifyPluginAsync = async (fastify) => {
 
         try {
             const analysis = await analyzeArticle(article.title, article.excerpt);
-
-            // Update the article
-            await supabase
-                .from('articles')
-                .update({
-                    sentiment: analysis.sentiment.sentiment,
-                    sentiment_score: analysis.sentiment.score,
-                    category: analysis.category || null,
-                    summary: analysis.summary || null,
-                    processed: true,
-                })
-                .eq('id', id);
+            await saveArticleAnalysis(id, analysis);
 
             return {
                 articleId: id,
                 analysis,
             };
         } catch (err) {
+            if (err instanceof QuotaExceededError) {
+                return reply.code(429).send({ error: err.message });
+            }
             fastify.log.error(`Analysis error: ${err}`);
             return reply.code(500).send({ error: 'Analysis failed' });
         }
     });
 
     // GET /api/ai/entities - Get all extracted entities
-    fastify.get('/entities', async (request, reply) => {
-        const { type, limit = 50 } = request.query as { type?: string; limit?: number };
+    fastify.get<{ Querystring: { cursor?: string; type?: string; limit: number } }>('/entities', { schema: entitiesSchema }, async (request, reply) => {
+        const { cursor, type, limit } = request.query;
 
         let query = supabase
             .from('entities')
@@ -168,30 +229,31 @@ export const aiRoutes: FastifyPluginAsync = async (fastify) => {
           article_id,
           confidence
         )
-      `)
-            .limit(limit);
+      `, cursor ? {} : { count: 'exact' });
 
         if (type) {
             query = query.eq('type', type);
         }
 
-        const { data, error } = await query;
+        const { data, count, error } = await applyKeyset(query, ENTITY_ORDER, limit, cursor);
 
         if (error) {
             return reply.code(500).send({ error: 'Failed to fetch entities' });
         }
 
+        const page = toPage(data, ENTITY_ORDER, limit, count);
+
         // Add article count
-        const withCounts = (data || []).map((entity: any) => ({
+        const withCounts = page.data.map((entity: any) => ({
             ...entity,
             articleCount: entity.article_entities?.length || 0,
         }));
 
-        return { entities: withCounts };
+        return { ...page, data: withCounts };
     });
 
     // GET /api/ai/stats - Get AI processing stats
-    fastify.get('/stats', async () => {
+    fastify.get<{ Querystring: { days?: number } }>('/stats', { schema: statsSchema }, async (request) => {
         const { count: totalArticles } = await supabase
             .from('articles')
             .select('*', { count: 'exact', head: true });
@@ -232,6 +294,8 @@ export const aiRoutes: FastifyPluginAsync = async (fastify) => {
                 total: totalEntities || 0,
             },
             sentiment: sentimentCounts,
+            validation: getOutputMetrics(),
+            usage: await getLLMUsage(request.query.days),
         };
     });
 };
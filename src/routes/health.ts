@@ -1,7 +1,37 @@
 import { FastifyPluginAsync } from 'fastify';
 
+const healthSchema = {
+    summary: 'Server health check',
+    tags: ['system'],
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                status: { type: 'string' },
+                timestamp: { type: 'string', format: 'date-time' },
+                version: { type: 'string' },
+            },
+        },
+    },
+};
+
+const rootSchema = {
+    summary: 'API name, version and where to find the OpenAPI document',
+    tags: ['system'],
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                version: { type: 'string' },
+                docs: { type: 'string' },
+            },
+        },
+    },
+};
+
 export const healthRoutes: FastifyPluginAsync = async (fastify) => {
-    fastify.get('/health', async () => {
+    fastify.get('/health', { schema: healthSchema }, async () => {
         return {
             status: 'ok',
             timestamp: new Date().toISOString(),
@@ -9,7 +39,7 @@ export const healthRoutes: FastifyPluginAsync = async (fastify) => {
         };
     });
 
-    fastify.get('/', async () => {
+    fastify.get('/', { schema: rootSchema }, async () => {
         return {
             name: 'Newsportal API',
             version: '1.0.0',
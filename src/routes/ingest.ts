@@ -1,171 +1,417 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../config/database.js';
-import { fetchFromNewsData, mapNewsDataToArticle } from '../ingest/newsdata.js';
-import { fetchFromGNews, mapGNewsToArticle } from '../ingest/gnews.js';
+import { getAdapter, listAdapters } from '../ingest/registry.js';
+import { IngestOptions, ingestFromAdapter, ingestProfiles, logIngestionJob, summarizeProfileRuns } from '../ingest/pipeline.js';
+import { IngestionProfile, listActiveProfiles, parseProfileInput } from '../ingest/profiles.js';
+import { runContentExtractionJob } from '../ingest/content.js';
+import { QuotaExceededError } from '../services/quota.js';
+import { requireRole } from '../middleware/auth.js';
+import { bearerAuth, bearerOrApiKey, errorResponse, idParams, limitProperty, row, rows } from '../schemas/common.js';
+
+const tags = ['ingest'];
+
+const stringList = { type: 'array', maxItems: 20, items: { type: 'string', minLength: 1, maxLength: 200 } } as const;
+
+// Shape only; parseProfileInput normalizes values and checks adapters
+const profileProperties = {
+    name: { type: 'string', minLength: 1, maxLength: 100 },
+    description: { type: ['string', 'null'], maxLength: 1000 },
+    adapters: stringList,
+    categories: stringList,
+    languages: stringList,
+    countries: stringList,
+    queries: stringList,
+    max_pages: { type: ['integer', 'null'], minimum: 1, maximum: 20 },
+    is_active: { type: 'boolean' },
+} as const;
+
+// Per-adapter results are keyed by adapter id
+const runResults = { type: 'object', additionalProperties: row } as const;
+
+const adaptersSchema = {
+    summary: 'Registered news source adapters',
+    tags,
+    response: {
+        200: { type: 'object', properties: { adapters: rows } },
+    },
+};
+
+const allSchema = {
+    summary: 'Run every active ingestion profile',
+    tags,
+    security: bearerOrApiKey,
+    body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: {
+            profiles: { type: 'array', maxItems: 50, items: { type: 'string' } },
+            slotMinutes: { type: 'integer', minimum: 1, maximum: 1440 },
+        },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                message: { type: 'string' },
+                results: { type: 'object', additionalProperties: runResults },
+                totalStored: { type: 'integer' },
+            },
+        },
+    },
+};
+
+const listProfilesSchema = {
+    summary: 'List ingestion profiles',
+    tags,
+    response: {
+        200: { type: 'object', properties: { data: rows } },
+        500: errorResponse,
+    },
+};
+
+const createProfileSchema = {
+    summary: 'Create an ingestion profile',
+    tags,
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: profileProperties,
+    },
+    response: {
+        201: row,
+        400: errorResponse,
+        409: errorResponse,
+    },
+};
+
+const getProfileSchema = {
+    summary: 'Get an ingestion profile',
+    tags,
+    params: idParams,
+    response: {
+        200: row,
+        404: errorResponse,
+    },
+};
+
+const updateProfileSchema = {
+    summary: 'Update an ingestion profile',
+    tags,
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: profileProperties,
+    },
+    response: {
+        200: row,
+        400: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+    },
+};
+
+const deleteProfileSchema = {
+    summary: 'Delete an ingestion profile',
+    tags,
+    security: bearerAuth,
+    params: idParams,
+    response: {
+        204: { type: 'null' },
+        400: errorResponse,
+    },
+};
+
+const runProfileSchema = {
+    summary: 'Run one ingestion profile now',
+    tags,
+    security: bearerOrApiKey,
+    params: idParams,
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                message: { type: 'string' },
+                results: runResults,
+                totalStored: { type: 'integer' },
+            },
+        },
+        404: errorResponse,
+    },
+};
+
+const contentSchema = {
+    summary: 'Extract full text for stored articles',
+    tags,
+    security: bearerOrApiKey,
+    body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: { limit: limitProperty(20) },
+    },
+    response: {
+        // Extraction summary counts
+        200: { type: 'object', additionalProperties: true, properties: { message: { type: 'string' } } },
+        500: errorResponse,
+    },
+};
+
+const statusSchema = {
+    summary: 'Provider quota usage today and recent jobs',
+    tags,
+    response: {
+        200: { type: 'object', properties: { quotas: rows, recentJobs: rows } },
+    },
+};
+
+const cursorsSchema = {
+    summary: 'High-water marks per adapter scope',
+    tags,
+    response: {
+        200: { type: 'object', properties: { cursors: rows } },
+    },
+};
+
+const adapterRunSchema = {
+    summary: 'Fetch and store from one adapter',
+    tags,
+    security: bearerOrApiKey,
+    params: {
+        type: 'object',
+        required: ['adapter'],
+        properties: { adapter: { type: 'string', minLength: 1, maxLength: 50 } },
+    },
+    body: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        properties: {
+            categories: stringList,
+            countries: stringList,
+            languages: stringList,
+            queries: stringList,
+            maxPages: { type: 'integer', minimum: 1, maximum: 20 },
+            maxRequests: { type: 'integer', minimum: 1, maximum: 500 },
+            slotMinutes: { type: 'integer', minimum: 1, maximum: 1440 },
+        },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                message: { type: 'string' },
+                count: { type: 'integer' },
+                fetched: { type: 'integer' },
+                stored: { type: 'integer' },
+                duplicates: { type: 'integer' },
+                requests: { type: 'integer' },
+                scopes: { type: 'integer' },
+            },
+        },
+        404: errorResponse,
+        429: errorResponse,
+        500: errorResponse,
+    },
+};
 
 export const ingestRoutes: FastifyPluginAsync = async (fastify) => {
-    // POST /api/ingest/newsdata - Fetch and store from NewsData.io
-    fastify.post('/newsdata', async (request, reply) => {
-        try {
-            const articles = await fetchFromNewsData();
+    // Running ingestion spends provider quota: editors, or service keys scoped to ingest
+    const canIngest = requireRole(['editor', 'service'], { scope: 'ingest' });
+    const canEditProfiles = requireRole('editor');
 
-            if (articles.length === 0) {
-                return { message: 'No articles fetched', count: 0 };
-            }
+    // GET /api/ingest/adapters - List registered news source adapters
+    fastify.get('/adapters', { schema: adaptersSchema }, async () => {
+        return {
+            adapters: listAdapters().map((adapter) => ({
+                id: adapter.id,
+                name: adapter.name,
+                configured: adapter.isConfigured(),
+                quota: adapter.quota,
+                scopes: adapter.scopes,
+            })),
+        };
+    });
 
-            const mapped = articles.map(mapNewsDataToArticle);
-
-            // Upsert articles (avoid duplicates by URL)
-            const { data, error } = await supabase
-                .from('articles')
-                .upsert(
-                    mapped.map((article) => ({
-                        ...article,
-                        processed: false,
-                    })),
-                    { onConflict: 'url', ignoreDuplicates: true }
-                )
-                .select();
-
-            if (error) {
-                fastify.log.error(error);
-                return reply.code(500).send({ error: 'Failed to store articles' });
-            }
+    /**
+     * Run profiles and log the combined job
+     */
+    async function runProfiles(profiles: IngestionProfile[], slotMinutes?: number) {
+        const { results, totalStored, message } = summarizeProfileRuns(
+            await ingestProfiles(profiles, { slotMinutes })
+        );
 
-            // Log the job
-            await supabase.from('job_logs').insert({
-                job_type: 'ingest',
-                status: 'completed',
-                message: `NewsData.io: Fetched ${articles.length}, stored ${data?.length || 0}`,
-                items_processed: data?.length || 0,
-                completed_at: new Date().toISOString(),
-            });
+        await logIngestionJob(message, totalStored);
 
-            return {
-                message: 'NewsData ingestion complete',
-                fetched: articles.length,
-                stored: data?.length || 0,
-            };
-        } catch (error) {
+        return { results, totalStored };
+    }
+
+    // POST /api/ingest/all - Run every active ingestion profile
+    // Body: { profiles } restricts the run to the named profiles; { slotMinutes } paces
+    // metered providers across the day (used by the scheduler)
+    fastify.post<{ Body: { slotMinutes?: number; profiles?: string[] } | null }>('/all', { schema: allSchema, preHandler: canIngest }, async (request) => {
+        const { slotMinutes, profiles: names } = request.body || {};
+
+        const profiles = await listActiveProfiles(names);
+        if (profiles.length === 0) {
+            return { message: 'No active ingestion profiles', results: {}, totalStored: 0 };
+        }
+
+        return {
+            message: 'All ingestion complete',
+            ...await runProfiles(profiles, slotMinutes),
+        };
+    });
+
+    // GET /api/ingest/profiles - List ingestion profiles
+    fastify.get('/profiles', { schema: listProfilesSchema }, async (_request, reply) => {
+        const { data, error } = await supabase
+            .from('ingestion_profiles')
+            .select('*')
+            .order('name');
+
+        if (error) {
             fastify.log.error(error);
-            return reply.code(500).send({ error: 'Ingestion failed' });
+            return reply.code(500).send({ error: 'Failed to fetch ingestion profiles' });
         }
+
+        return { data };
     });
 
-    // POST /api/ingest/gnews - Fetch and store from GNews
-    fastify.post('/gnews', async (request, reply) => {
-        try {
-            const articles = await fetchFromGNews();
+    // POST /api/ingest/profiles - Create an ingestion profile
+    fastify.post('/profiles', { schema: createProfileSchema, preHandler: canEditProfiles }, async (request, reply) => {
+        const parsed = parseProfileInput(request.body);
+        if ('error' in parsed) {
+            return reply.code(400).send({ error: parsed.error });
+        }
 
-            if (articles.length === 0) {
-                return { message: 'No articles fetched', count: 0 };
-            }
+        const { data, error } = await supabase
+            .from('ingestion_profiles')
+            .insert(parsed.data)
+            .select()
+            .single();
 
-            const mapped = articles.map(mapGNewsToArticle);
-
-            const { data, error } = await supabase
-                .from('articles')
-                .upsert(
-                    mapped.map((article) => ({
-                        ...article,
-                        processed: false,
-                    })),
-                    { onConflict: 'url', ignoreDuplicates: true }
-                )
-                .select();
-
-            if (error) {
-                fastify.log.error(error);
-                return reply.code(500).send({ error: 'Failed to store articles' });
-            }
+        if (error) {
+            fastify.log.error(error);
+            // 23505 = unique_violation on name
+            return error.code === '23505'
+                ? reply.code(409).send({ error: `Profile already exists: ${parsed.data.name}` })
+                : reply.code(400).send({ error: 'Failed to create ingestion profile' });
+        }
 
-            await supabase.from('job_logs').insert({
-                job_type: 'ingest',
-                status: 'completed',
-                message: `GNews: Fetched ${articles.length}, stored ${data?.length || 0}`,
-                items_processed: data?.length || 0,
-                completed_at: new Date().toISOString(),
-            });
+        return reply.code(201).send(data);
+    });
 
-            return {
-                message: 'GNews ingestion complete',
-                fetched: articles.length,
-                stored: data?.length || 0,
-            };
-        } catch (error) {
+    // GET /api/ingest/profiles/:id - Get a single profile
+    fastify.get<{ Params: { id: string } }>('/profiles/:id', { schema: getProfileSchema }, async (request, reply) => {
+        const { data, error } = await supabase
+            .from('ingestion_profiles')
+            .select('*')
+            .eq('id', request.params.id)
+            .maybeSingle();
+
+        if (error || !data) {
+            return reply.code(404).send({ error: 'Ingestion profile not found' });
+        }
+
+        return data;
+    });
+
+    // PATCH /api/ingest/profiles/:id - Update a profile (only the given fields)
+    fastify.patch<{ Params: { id: string } }>('/profiles/:id', { schema: updateProfileSchema, preHandler: canEditProfiles }, async (request, reply) => {
+        const parsed = parseProfileInput(request.body, { partial: true });
+        if ('error' in parsed) {
+            return reply.code(400).send({ error: parsed.error });
+        }
+
+        const { data, error } = await supabase
+            .from('ingestion_profiles')
+            .update(parsed.data)
+            .eq('id', request.params.id)
+            .select()
+            .maybeSingle();
+
+        if (error) {
             fastify.log.error(error);
-            return reply.code(500).send({ error: 'Ingestion failed' });
+            return error.code === '23505'
+                ? reply.code(409).send({ error: `Profile already exists: ${parsed.data.name}` })
+                : reply.code(400).send({ error: 'Failed to update ingestion profile' });
+        }
+
+        if (!data) {
+            return reply.code(404).send({ error: 'Ingestion profile not found' });
         }
+
+        return data;
     });
 
-    // POST /api/ingest/all - Run all ingestion sources
-    fastify.post('/all', async (request, reply) => {
-        const results = {
-            newsdata: { fetched: 0, stored: 0 },
-            gnews: { fetched: 0, stored: 0 },
-        };
+    // DELETE /api/ingest/profiles/:id - Delete a profile
+    fastify.delete<{ Params: { id: string } }>('/profiles/:id', { schema: deleteProfileSchema, preHandler: canEditProfiles }, async (request, reply) => {
+        const { error } = await supabase
+            .from('ingestion_profiles')
+            .delete()
+            .eq('id', request.params.id);
 
-        // NewsData
-        try {
-            const newsDataArticles = await fetchFromNewsData();
-            results.newsdata.fetched = newsDataArticles.length;
-
-            if (newsDataArticles.length > 0) {
-                const mapped = newsDataArticles.map(mapNewsDataToArticle);
-                const { data } = await supabase
-                    .from('articles')
-                    .upsert(mapped.map((a) => ({ ...a, processed: false })), {
-                        onConflict: 'url',
-                        ignoreDuplicates: true
-                    })
-                    .select();
-                results.newsdata.stored = data?.length || 0;
-            }
-        } catch (e) {
-            fastify.log.error(`NewsData ingestion error: ${e}`);
+        if (error) {
+            fastify.log.error(error);
+            return reply.code(400).send({ error: 'Failed to delete ingestion profile' });
         }
 
-        // GNews
-        try {
-            const gnewsArticles = await fetchFromGNews();
-            results.gnews.fetched = gnewsArticles.length;
-
-            if (gnewsArticles.length > 0) {
-                const mapped = gnewsArticles.map(mapGNewsToArticle);
-                const { data } = await supabase
-                    .from('articles')
-                    .upsert(mapped.map((a) => ({ ...a, processed: false })), {
-                        onConflict: 'url',
-                        ignoreDuplicates: true
-                    })
-                    .select();
-                results.gnews.stored = data?.length || 0;
-            }
-        } catch (e) {
-            fastify.log.error(`GNews ingestion error: ${e}`);
+        return reply.code(204).send();
+    });
+
+    // POST /api/ingest/profiles/:id/run - Run one profile now (active or not)
+    fastify.post<{ Params: { id: string } }>('/profiles/:id/run', { schema: runProfileSchema, preHandler: canIngest }, async (request, reply) => {
+        const { data: profile } = await supabase
+            .from('ingestion_profiles')
+            .select('*')
+            .eq('id', request.params.id)
+            .maybeSingle();
+
+        if (!profile) {
+            return reply.code(404).send({ error: 'Ingestion profile not found' });
         }
 
-        // Log combined job
-        await supabase.from('job_logs').insert({
-            job_type: 'ingest',
-            status: 'completed',
-            message: `Combined: NewsData ${results.newsdata.stored}, GNews ${results.gnews.stored}`,
-            items_processed: results.newsdata.stored + results.gnews.stored,
-            completed_at: new Date().toISOString(),
-        });
+        const { results, totalStored } = await runProfiles([profile as IngestionProfile]);
 
         return {
-            message: 'All ingestion complete',
-            results,
-            totalStored: results.newsdata.stored + results.gnews.stored,
+            message: `${profile.name} ingestion complete`,
+            results: results[profile.name],
+            totalStored,
         };
     });
 
+    // POST /api/ingest/content - Download and extract full text for stored articles
+    fastify.post<{ Body: { limit?: number } | null }>('/content', { schema: contentSchema, preHandler: canIngest }, async (request, reply) => {
+        const { limit = 20 } = request.body || {};
+
+        try {
+            const summary = await runContentExtractionJob(limit);
+
+            await supabase.from('job_logs').insert({
+                job_type: 'extract',
+                status: 'completed',
+                message: `Extracted ${summary.extracted}/${summary.attempted} (paywalled ${summary.paywalled}, failed ${summary.failed})`,
+                items_processed: summary.extracted,
+                completed_at: new Date().toISOString(),
+            });
+
+            return {
+                message: 'Content extraction complete',
+                ...summary,
+            };
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.code(500).send({ error: 'Content extraction failed' });
+        }
+    });
+
     // GET /api/ingest/status - Check quota usage
-    fastify.get('/status', async () => {
+    fastify.get('/status', { schema: statusSchema }, async () => {
         const { data: quotas } = await supabase
             .from('api_quota_usage')
-            .select('*')
+            .select('service, date, requests_used, daily_limit, updated_at')
             .eq('date', new Date().toISOString().split('T')[0]);
 
         const { data: recentJobs } = await supabase
@@ -179,4 +425,54 @@ export const ingestRoutes: FastifyPluginAsync = async (fastify) => {
             recentJobs: recentJobs || [],
         };
     });
+
+    // GET /api/ingest/cursors - High-water marks per adapter scope
+    fastify.get('/cursors', { schema: cursorsSchema }, async () => {
+        const { data: cursors } = await supabase
+            .from('ingest_cursors')
+            .select('adapter, scope, high_water_mark, last_run_at')
+            .order('adapter')
+            .order('scope');
+
+        return { cursors: cursors || [] };
+    });
+
+    // POST /api/ingest/:adapter - Fetch and store from a single adapter
+    // Body: { categories, countries, languages, queries, maxPages } for an ad-hoc fan-out
+    fastify.post<{ Params: { adapter: string }; Body: IngestOptions | null }>('/:adapter', { schema: adapterRunSchema, preHandler: canIngest }, async (request, reply) => {
+        const adapter = getAdapter(request.params.adapter);
+
+        if (!adapter) {
+            return reply.code(404).send({ error: `Unknown news source: ${request.params.adapter}` });
+        }
+
+        try {
+            const result = await ingestFromAdapter(adapter, request.body || {});
+
+            if (result.fetched === 0) {
+                return { message: 'No articles fetched', count: 0 };
+            }
+
+            // Log the job
+            await logIngestionJob(
+                `${adapter.name}: Fetched ${result.fetched}, stored ${result.stored}`,
+                result.stored
+            );
+
+            return {
+                message: `${adapter.name} ingestion complete`,
+                fetched: result.fetched,
+                stored: result.stored,
+                duplicates: result.duplicates || 0,
+                requests: result.requests || 0,
+                scopes: result.scopes || 0,
+            };
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return reply.code(429).send({ error: error.message });
+            }
+            fastify.log.error(error);
+            return reply.code(500).send({ error: 'Ingestion failed' });
+        }
+    });
 };
@@ -1,23 +1,515 @@
 /**
  * Stories API Routes
  * 
- * REST endpoints for stories (synthesized article clusters)
+ * REST endpoints for stories (synthesized article clusters), and editor
+ * endpoints to correct clustering by merging, splitting and moving articles
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
 import { supabase } from '../config/database.js';
 import { runClusteringJob } from '../services/clustering.js';
+import {
+    attachArticles,
+    detachArticle,
+    listStoryAudit,
+    mergeStories,
+    resolveSlugRedirect,
+    splitStory,
+    StoryEditError,
+    StoryEditResult,
+} from '../services/storyEditing.js';
+import { diffVersions, getStoryVersions, listStoryVersions } from '../services/storyVersions.js';
+import { requireRole } from '../middleware/auth.js';
+import { applyKeyset, KeysetOrder, toPage } from '../services/pagination.js';
+import {
+    bearerAuth,
+    bearerOrApiKey,
+    cursorQuery,
+    errorResponse,
+    idParams,
+    limitProperty,
+    pageEnvelope,
+    nullableInteger,
+    nullableNumber,
+    nullableString,
+    row,
+    rows,
+    timestamp,
+    uuid,
+} from '../schemas/common.js';
 
 interface StoriesQuery {
-    limit?: number;
-    offset?: number;
+    cursor?: string;
+    limit: number;
     sector?: string;
 }
 
+// Newest first, so stories published while a reader scrolls don't shift their pages
+const STORY_ORDER: KeysetOrder = { column: 'published_at' };
+const TRENDING_ORDER: KeysetOrder = { column: 'view_count' };
+
 interface StoryParams {
     slug: string;
 }
 
+const impact = {
+    type: 'object',
+    properties: {
+        sector: nullableString,
+        sectorName: nullableString,
+        icon: nullableString,
+        color: nullableString,
+        type: nullableString,
+        severity: nullableInteger,
+        prediction: nullableString,
+        confidence: nullableNumber,
+    },
+} as const;
+
+// Fields shared by every story listing
+const storyCard = {
+    id: uuid,
+    title: { type: 'string' },
+    slug: { type: 'string' },
+    summary: nullableString,
+    hero_image_url: nullableString,
+    source_count: nullableInteger,
+    published_at: timestamp,
+} as const;
+
+const listSchema = {
+    summary: 'List published stories',
+    tags: ['stories'],
+    querystring: cursorQuery(20, {
+        sector: { type: 'string', maxLength: 100 },
+    }),
+    response: {
+        200: pageEnvelope({
+            type: 'object',
+            properties: {
+                ...storyCard,
+                sources: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { name: { type: 'string' }, logo_url: nullableString },
+                    },
+                },
+                impacts: { type: 'array', items: impact },
+            },
+        }),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const entityRef = {
+    type: 'object',
+    properties: { id: { type: 'string' }, name: { type: 'string' }, type: { type: 'string' } },
+} as const;
+
+// Sections of a synthesis as stored on the story (see ai/synthesis.ts)
+const synthesisSections = {
+    type: ['array', 'null'],
+    items: {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            content: { type: 'string' },
+            citations: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { source: { type: 'string' }, article_id: nullableString },
+                },
+            },
+        },
+    },
+} as const;
+
+// Citation check of a synthesis (see ai/citations.ts)
+const verification = {
+    type: ['object', 'null'],
+    properties: {
+        status: { type: 'string', enum: ['verified', 'flagged'] },
+        verified_at: timestamp,
+        unknown_sources: { type: 'array', items: { type: 'string' } },
+        sections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    status: { type: 'string', enum: ['verified', 'flagged'] },
+                    support: nullableNumber,
+                    unknown_sources: { type: 'array', items: { type: 'string' } },
+                    unsupported: { type: 'integer' },
+                    uncited: { type: 'integer' },
+                    sentences: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                text: { type: 'string' },
+                                sources: { type: 'array', items: { type: 'string' } },
+                                article_ids: { type: 'array', items: { type: 'string' } },
+                                support: nullableNumber,
+                                status: { type: 'string', enum: ['supported', 'unsupported', 'unknown_source', 'uncited'] },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+} as const;
+
+const detailSchema = {
+    summary: 'Full story with synthesis, entities, connections and source articles',
+    tags: ['stories'],
+    params: {
+        type: 'object',
+        required: ['slug'],
+        properties: { slug: { type: 'string', minLength: 1, maxLength: 300 } },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                ...storyCard,
+                synthesis: synthesisSections,
+                verification,
+                view_count: nullableInteger,
+                articles: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: uuid,
+                            title: { type: 'string' },
+                            excerpt: nullableString,
+                            url: { type: 'string' },
+                            image_url: nullableString,
+                            published_at: timestamp,
+                            source: nullableString,
+                            source_logo: nullableString,
+                            relevance: nullableNumber,
+                        },
+                    },
+                },
+                entities: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            ...entityRef.properties,
+                            role: nullableString,
+                            context: nullableString,
+                        },
+                    },
+                },
+                connections: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string' },
+                            source: entityRef,
+                            target: entityRef,
+                            relationship: nullableString,
+                            label: nullableString,
+                            strength: nullableNumber,
+                            evidence: nullableString,
+                        },
+                    },
+                },
+                impacts: { type: 'array', items: impact },
+            },
+        },
+        404: errorResponse,
+    },
+};
+
+const clusterSchema = {
+    summary: 'Run story clustering now',
+    tags: ['stories'],
+    security: bearerOrApiKey,
+    response: {
+        200: { type: 'object', additionalProperties: true, properties: { success: { type: 'boolean' } } },
+        500: { type: 'object', properties: { success: { type: 'boolean' }, error: { type: 'string' } } },
+    },
+};
+
+const trendingSchema = {
+    summary: 'Most viewed published stories',
+    tags: ['stories'],
+    querystring: cursorQuery(10),
+    response: {
+        200: pageEnvelope({ type: 'object', properties: { ...storyCard, view_count: nullableInteger } }),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const bySectorSchema = {
+    summary: 'Published stories with an impact on a sector',
+    tags: ['stories'],
+    params: {
+        type: 'object',
+        required: ['sector'],
+        properties: { sector: { type: 'string', minLength: 1, maxLength: 100 } },
+    },
+    querystring: cursorQuery(20),
+    response: {
+        200: pageEnvelope({ type: 'object', properties: { ...storyCard, story_impacts: { type: 'array', items: row } } }),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+// ============================================
+// Versions
+// ============================================
+
+const slugParams = {
+    type: 'object',
+    required: ['slug'],
+    properties: { slug: { type: 'string', minLength: 1, maxLength: 300 } },
+} as const;
+
+const versionMeta = {
+    version: { type: 'integer' },
+    title: { type: 'string' },
+    summary: nullableString,
+    article_ids: { type: 'array', items: uuid },
+    model: nullableString,
+    prompt_version: nullableString,
+    reason: { type: 'string' },
+    created_at: timestamp,
+} as const;
+
+const diffOps = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: { op: { type: 'string', enum: ['equal', 'added', 'removed'] }, text: { type: 'string' } },
+    },
+} as const;
+
+const valueChange = {
+    type: ['object', 'null'],
+    properties: { from: nullableString, to: nullableString },
+} as const;
+
+const versionsSchema = {
+    summary: 'Synthesis history of a story, newest first',
+    tags: ['stories'],
+    params: slugParams,
+    response: {
+        200: { type: 'object', properties: { data: { type: 'array', items: { type: 'object', properties: versionMeta } } } },
+        404: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const versionSchema = {
+    summary: 'One version of a story, with its sections',
+    tags: ['stories'],
+    params: {
+        type: 'object',
+        required: ['slug', 'version'],
+        properties: { ...slugParams.properties, version: { type: 'integer', minimum: 1 } },
+    },
+    response: {
+        200: { type: 'object', properties: { ...versionMeta, sections: rows, verification } },
+        404: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const diffSchema = {
+    summary: 'Section-by-section comparison of two versions (default: the latest against the one before)',
+    tags: ['stories'],
+    params: slugParams,
+    querystring: {
+        type: 'object',
+        properties: { from: { type: 'integer', minimum: 1 }, to: { type: 'integer', minimum: 1 } },
+    },
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                from: { type: 'integer' },
+                to: { type: 'integer' },
+                title: valueChange,
+                summary: { ...diffOps, type: ['array', 'null'] },
+                sections: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            title: { type: 'string' },
+                            status: { type: 'string', enum: ['added', 'removed', 'changed', 'unchanged'] },
+                            changes: diffOps,
+                        },
+                    },
+                },
+                articles: {
+                    type: 'object',
+                    properties: { added: { type: 'array', items: uuid }, removed: { type: 'array', items: uuid } },
+                },
+                model: valueChange,
+                prompt_version: valueChange,
+            },
+        },
+        400: errorResponse,
+        404: errorResponse,
+        500: errorResponse,
+    },
+};
+
+/**
+ * Id of the story with this slug. Replies with a redirect (slug merged
+ * away) or 404 and returns null when there is none.
+ */
+async function findStoryId(slug: string, url: string, reply: FastifyReply): Promise<string | null> {
+    const { data } = await supabase
+        .from('stories')
+        .select('id')
+        .eq('slug', slug)
+        .maybeSingle();
+
+    if (data) return data.id;
+
+    const target = await resolveSlugRedirect(slug);
+    if (target) {
+        const segment = `/stories/${encodeURIComponent(slug)}/`;
+        await reply.redirect(url.replace(segment, `/stories/${encodeURIComponent(target)}/`), 301);
+    } else {
+        await reply.status(404).send({ error: 'Story not found' });
+    }
+    return null;
+}
+
+// ============================================
+// Editing
+// ============================================
+
+const editTags = ['stories', 'editing'];
+
+const storyRef = {
+    type: ['object', 'null'],
+    properties: { id: uuid, slug: nullableString, title: { type: 'string' } },
+} as const;
+
+const editResult = {
+    type: 'object',
+    properties: {
+        action: { type: 'string' },
+        story: storyRef,
+        related: storyRef,
+        articleIds: { type: 'array', items: uuid },
+        resynthesized: { type: 'array', items: uuid },
+    },
+} as const;
+
+const editResponses = {
+    200: editResult,
+    400: errorResponse,
+    404: errorResponse,
+    500: errorResponse,
+};
+
+// Synthesis costs an LLM call per story, so editors opt in
+const resynthesize = { type: 'boolean', default: false, description: 'Re-run synthesis for the stories changed' } as const;
+
+const articleIds = { type: 'array', minItems: 1, maxItems: 100, items: uuid } as const;
+
+const mergeSchema = {
+    summary: 'Merge another story into this one; its slug redirects here',
+    tags: editTags,
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['source_id'],
+        additionalProperties: false,
+        properties: { source_id: uuid, resynthesize },
+    },
+    response: editResponses,
+};
+
+const splitSchema = {
+    summary: 'Move some of the story\'s articles into a new story',
+    tags: editTags,
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['article_ids'],
+        additionalProperties: false,
+        properties: {
+            article_ids: articleIds,
+            title: { type: 'string', minLength: 1, maxLength: 300 },
+            resynthesize,
+        },
+    },
+    response: { ...editResponses, 201: editResult },
+};
+
+const attachSchema = {
+    summary: 'Add articles to the story, moving them out of any other story',
+    tags: editTags,
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['article_ids'],
+        additionalProperties: false,
+        properties: { article_ids: articleIds, resynthesize },
+    },
+    response: editResponses,
+};
+
+const detachSchema = {
+    summary: 'Remove an article from the story; clustering will not put it back',
+    tags: editTags,
+    security: bearerAuth,
+    params: {
+        type: 'object',
+        required: ['id', 'articleId'],
+        properties: { id: uuid, articleId: uuid },
+    },
+    querystring: { type: 'object', properties: { resynthesize } },
+    response: editResponses,
+};
+
+const auditSchema = {
+    summary: 'Edit history of a story, newest first',
+    tags: editTags,
+    security: bearerAuth,
+    params: idParams,
+    querystring: { type: 'object', properties: { limit: limitProperty(50) } },
+    response: {
+        200: { type: 'object', properties: { data: rows } },
+        500: errorResponse,
+    },
+};
+
+/**
+ * Send an edit's result, mapping StoryEditError to its status code
+ */
+async function sendEdit(reply: FastifyReply, edit: () => Promise<StoryEditResult>, status: number = 200) {
+    try {
+        return reply.status(status).send(await edit());
+    } catch (error) {
+        if (error instanceof StoryEditError) {
+            return reply.status(error.statusCode).send({ error: error.message });
+        }
+        return reply.status(500).send({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+}
+
 export default async function storiesRoutes(fastify: FastifyInstance) {
 
     /**
@@ -26,10 +518,11 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
      */
     fastify.get<{ Querystring: StoriesQuery }>(
         '/stories',
+        { schema: listSchema },
         async (request, reply) => {
-            const { limit = 20, offset = 0, sector } = request.query;
+            const { cursor, limit } = request.query;
 
-            let query = supabase
+            const query = supabase
                 .from('stories')
                 .select(`
           id,
@@ -53,19 +546,19 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
             prediction,
             confidence
           )
-        `)
-                .eq('status', 'published')
-                .order('published_at', { ascending: false })
-                .range(offset, offset + limit - 1);
+        `, cursor ? {} : { count: 'exact' })
+                .eq('status', 'published');
 
-            const { data: stories, error } = await query;
+            const { data: stories, count, error } = await applyKeyset(query, STORY_ORDER, limit, cursor);
 
             if (error) {
                 return reply.status(500).send({ error: error.message });
             }
 
+            const page = toPage(stories, STORY_ORDER, limit, count);
+
             // Transform to flatten nested data
-            const transformed = stories?.map(story => ({
+            const transformed = page.data.map(story => ({
                 id: story.id,
                 title: story.title,
                 slug: story.slug,
@@ -86,7 +579,7 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
                 })) || [],
             }));
 
-            return reply.send({ stories: transformed });
+            return reply.send({ ...page, data: transformed });
         }
     );
 
@@ -96,6 +589,7 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
      */
     fastify.get<{ Params: StoryParams }>(
         '/stories/:slug',
+        { schema: detailSchema },
         async (request, reply) => {
             const { slug } = request.params;
 
@@ -138,6 +632,11 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
                 .single();
 
             if (error || !story) {
+                // Slugs of merged-away stories lead to the story they were merged into
+                const target = await resolveSlugRedirect(slug);
+                if (target) {
+                    return reply.redirect(encodeURIComponent(target), 301);
+                }
                 return reply.status(404).send({ error: 'Story not found' });
             }
 
@@ -175,6 +674,7 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
                 slug: story.slug,
                 summary: story.summary,
                 synthesis: story.synthesis,
+                verification: story.verification ?? null,
                 hero_image_url: story.hero_image_url,
                 source_count: story.source_count,
                 view_count: story.view_count,
@@ -232,10 +732,11 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
 
     /**
      * POST /api/stories/cluster
-     * Trigger clustering job (dev/admin only)
+     * Trigger clustering job (editors, or service keys scoped to cluster)
      */
     fastify.post(
         '/stories/cluster',
+        { schema: clusterSchema, preHandler: requireRole(['editor', 'service'], { scope: 'cluster' }) },
         async (request, reply) => {
             try {
                 const result = await runClusteringJob();
@@ -256,10 +757,13 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
      * GET /api/stories/trending
      * Get trending stories (most viewed in last 24h)
      */
-    fastify.get(
+    fastify.get<{ Querystring: { cursor?: string; limit: number } }>(
         '/stories/trending',
+        { schema: trendingSchema },
         async (request, reply) => {
-            const { data: stories, error } = await supabase
+            const { cursor, limit } = request.query;
+
+            const query = supabase
                 .from('stories')
                 .select(`
           id,
@@ -271,15 +775,15 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
           view_count,
           published_at
         `)
-                .eq('status', 'published')
-                .order('view_count', { ascending: false })
-                .limit(10);
+                .eq('status', 'published');
+
+            const { data: stories, error } = await applyKeyset(query, TRENDING_ORDER, limit, cursor);
 
             if (error) {
                 return reply.status(500).send({ error: error.message });
             }
 
-            return reply.send({ stories });
+            return reply.send(toPage(stories, TRENDING_ORDER, limit));
         }
     );
 
@@ -287,24 +791,15 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
      * GET /api/stories/by-sector/:sector
      * Get stories filtered by impact sector
      */
-    fastify.get<{ Params: { sector: string } }>(
+    fastify.get<{ Params: { sector: string }; Querystring: { cursor?: string; limit: number } }>(
         '/stories/by-sector/:sector',
+        { schema: bySectorSchema },
         async (request, reply) => {
             const { sector } = request.params;
+            const { cursor, limit } = request.query;
 
-            // Get story IDs that have this sector impact
-            const { data: impacts } = await supabase
-                .from('story_impacts')
-                .select('story_id')
-                .eq('sector_id', sector);
-
-            if (!impacts || impacts.length === 0) {
-                return reply.send({ stories: [] });
-            }
-
-            const storyIds = impacts.map(i => i.story_id);
-
-            const { data: stories, error } = await supabase
+            // Inner join: only stories with an impact on this sector
+            const query = supabase
                 .from('stories')
                 .select(`
           id,
@@ -314,22 +809,183 @@ export default async function storiesRoutes(fastify: FastifyInstance) {
           hero_image_url,
           source_count,
           published_at,
-          story_impacts (
+          story_impacts!inner (
             sector_id,
             impact_type,
             severity
           )
-        `)
-                .in('id', storyIds)
-                .eq('status', 'published')
-                .order('published_at', { ascending: false })
-                .limit(20);
+        `, cursor ? {} : { count: 'exact' })
+                .eq('story_impacts.sector_id', sector)
+                .eq('status', 'published');
+
+            const { data: stories, count, error } = await applyKeyset(query, STORY_ORDER, limit, cursor);
 
             if (error) {
                 return reply.status(500).send({ error: error.message });
             }
 
-            return reply.send({ stories });
+            return reply.send(toPage(stories, STORY_ORDER, limit, count));
+        }
+    );
+
+    /**
+     * GET /api/stories/:slug/versions
+     * Every synthesis of the story, newest first
+     */
+    fastify.get<{ Params: StoryParams }>(
+        '/stories/:slug/versions',
+        { schema: versionsSchema },
+        async (request, reply) => {
+            const storyId = await findStoryId(request.params.slug, request.url, reply);
+            if (!storyId) return reply;
+
+            try {
+                return reply.send({ data: await listStoryVersions(storyId) });
+            } catch (error) {
+                return reply.status(500).send({ error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+    );
+
+    /**
+     * GET /api/stories/:slug/versions/diff?from=1&to=2
+     * Compare two versions section by section
+     */
+    fastify.get<{ Params: StoryParams; Querystring: { from?: number; to?: number } }>(
+        '/stories/:slug/versions/diff',
+        { schema: diffSchema },
+        async (request, reply) => {
+            const storyId = await findStoryId(request.params.slug, request.url, reply);
+            if (!storyId) return reply;
+
+            try {
+                let { from, to } = request.query;
+                if (to === undefined) {
+                    to = (await listStoryVersions(storyId))[0]?.version;
+                }
+                if (to === undefined) {
+                    return reply.status(404).send({ error: 'Story has no versions' });
+                }
+                from ??= to - 1;
+
+                if (from < 1 || from === to) {
+                    return reply.status(400).send({ error: 'Need two different versions to compare' });
+                }
+
+                const [older, newer] = await getStoryVersions(storyId, [from, to]);
+                if (!older || !newer) {
+                    return reply.status(404).send({ error: `Version ${!older ? from : to} not found` });
+                }
+
+                return reply.send(diffVersions(older, newer));
+            } catch (error) {
+                return reply.status(500).send({ error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+    );
+
+    /**
+     * GET /api/stories/:slug/versions/:version
+     * One version with its full sections
+     */
+    fastify.get<{ Params: StoryParams & { version: number } }>(
+        '/stories/:slug/versions/:version',
+        { schema: versionSchema },
+        async (request, reply) => {
+            const storyId = await findStoryId(request.params.slug, request.url, reply);
+            if (!storyId) return reply;
+
+            try {
+                const [version] = await getStoryVersions(storyId, [request.params.version]);
+                if (!version) {
+                    return reply.status(404).send({ error: 'Version not found' });
+                }
+                return reply.send(version);
+            } catch (error) {
+                return reply.status(500).send({ error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+    );
+
+    // Editor-only: correct clustering mistakes
+
+    /**
+     * POST /api/stories/:id/merge
+     * Merge the story in source_id into this one
+     */
+    fastify.post<{ Params: { id: string }; Body: { source_id: string; resynthesize: boolean } }>(
+        '/stories/:id/merge',
+        { schema: mergeSchema, preHandler: requireRole('editor') },
+        async (request, reply) => {
+            const { source_id, resynthesize } = request.body;
+            return sendEdit(reply, () => mergeStories(request.params.id, source_id, {
+                actorId: request.user?.id,
+                resynthesize,
+            }));
+        }
+    );
+
+    /**
+     * POST /api/stories/:id/split
+     * Move article_ids into a new story
+     */
+    fastify.post<{ Params: { id: string }; Body: { article_ids: string[]; title?: string; resynthesize: boolean } }>(
+        '/stories/:id/split',
+        { schema: splitSchema, preHandler: requireRole('editor') },
+        async (request, reply) => {
+            const { article_ids, title, resynthesize } = request.body;
+            return sendEdit(reply, () => splitStory(request.params.id, article_ids, {
+                actorId: request.user?.id,
+                resynthesize,
+                title,
+            }), 201);
+        }
+    );
+
+    /**
+     * POST /api/stories/:id/articles
+     * Attach articles to the story
+     */
+    fastify.post<{ Params: { id: string }; Body: { article_ids: string[]; resynthesize: boolean } }>(
+        '/stories/:id/articles',
+        { schema: attachSchema, preHandler: requireRole('editor') },
+        async (request, reply) => {
+            const { article_ids, resynthesize } = request.body;
+            return sendEdit(reply, () => attachArticles(request.params.id, article_ids, {
+                actorId: request.user?.id,
+                resynthesize,
+            }));
+        }
+    );
+
+    /**
+     * DELETE /api/stories/:id/articles/:articleId
+     * Detach an article from the story
+     */
+    fastify.delete<{ Params: { id: string; articleId: string }; Querystring: { resynthesize?: boolean } }>(
+        '/stories/:id/articles/:articleId',
+        { schema: detachSchema, preHandler: requireRole('editor') },
+        async (request, reply) => {
+            return sendEdit(reply, () => detachArticle(request.params.id, request.params.articleId, {
+                actorId: request.user?.id,
+                resynthesize: request.query.resynthesize,
+            }));
+        }
+    );
+
+    /**
+     * GET /api/stories/:id/audit
+     * Merges, splits, attaches and detaches recorded for the story
+     */
+    fastify.get<{ Params: { id: string }; Querystring: { limit: number } }>(
+        '/stories/:id/audit',
+        { schema: auditSchema, preHandler: requireRole('editor') },
+        async (request, reply) => {
+            try {
+                return reply.send({ data: await listStoryAudit(request.params.id, request.query.limit) });
+            } catch (error) {
+                return reply.status(500).send({ error: error instanceof Error ? error.message : 'Unknown error' });
+            }
         }
     );
 }
@@ -1,19 +1,103 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../../config/database.js';
+import { cursorQuery, errorResponse, idParams, nullableNumber, nullableString, pageEnvelope, row, timestamp, uuid } from '../../schemas/common.js';
+import { applyKeyset, KeysetOrder, toPage } from '../../services/pagination.js';
+
+// Newest first; new articles land before the first page, never inside later ones
+const ARTICLE_ORDER: KeysetOrder = { column: 'published_at' };
 
 interface ArticleQuery {
-    page?: number;
-    limit?: number;
+    cursor?: string;
+    limit: number;
     category?: string;
     source?: string;
     search?: string;
 }
 
+const articleSummary = {
+    type: 'object',
+    properties: {
+        id: uuid,
+        title: { type: 'string' },
+        excerpt: nullableString,
+        summary: nullableString,
+        url: { type: 'string' },
+        image_url: nullableString,
+        source_id: nullableString,
+        published_at: timestamp,
+        category: nullableString,
+        region: nullableString,
+        sentiment: nullableString,
+        sentiment_score: nullableNumber,
+        created_at: timestamp,
+        news_sources: {
+            type: ['object', 'null'],
+            properties: {
+                name: { type: 'string' },
+                credibility_score: nullableNumber,
+                tier: nullableString,
+            },
+        },
+    },
+} as const;
+
+const listSchema = {
+    summary: 'List articles',
+    tags: ['articles'],
+    querystring: cursorQuery(20, {
+        category: { type: 'string', maxLength: 100 },
+        source: { type: 'string', maxLength: 200 },
+        search: { type: 'string', maxLength: 200 },
+    }),
+    response: {
+        200: pageEnvelope(articleSummary),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const getSchema = {
+    summary: 'Get an article with its entities and the other outlets that published it',
+    tags: ['articles'],
+    params: idParams,
+    response: {
+        // Full article row plus also_published_by
+        200: row,
+        404: errorResponse,
+    },
+};
+
+const relatedSchema = {
+    summary: 'Articles sharing entities with an article',
+    tags: ['articles'],
+    params: idParams,
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                data: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: uuid,
+                            title: { type: 'string' },
+                            excerpt: nullableString,
+                            image_url: nullableString,
+                            published_at: timestamp,
+                            category: nullableString,
+                        },
+                    },
+                },
+            },
+        },
+    },
+};
+
 export const articlesRoutes: FastifyPluginAsync = async (fastify) => {
     // GET /api/v1/articles - List articles with filters
-    fastify.get<{ Querystring: ArticleQuery }>('/', async (request) => {
-        const { page = 1, limit = 20, category, source, search } = request.query;
-        const offset = (page - 1) * limit;
+    fastify.get<{ Querystring: ArticleQuery }>('/', { schema: listSchema }, async (request) => {
+        const { cursor, limit, category, source, search } = request.query;
 
         let query = supabase
             .from('articles')
@@ -36,9 +120,7 @@ export const articlesRoutes: FastifyPluginAsync = async (fastify) => {
           credibility_score,
           tier
         )
-      `, { count: 'exact' })
-            .order('published_at', { ascending: false })
-            .range(offset, offset + limit - 1);
+      `, cursor ? {} : { count: 'exact' });
 
         if (category) {
             query = query.eq('category', category);
@@ -52,26 +134,18 @@ export const articlesRoutes: FastifyPluginAsync = async (fastify) => {
             query = query.textSearch('title', search);
         }
 
-        const { data, count, error } = await query;
+        const { data, count, error } = await applyKeyset(query, ARTICLE_ORDER, limit, cursor);
 
         if (error) {
             fastify.log.error(error);
             throw new Error('Failed to fetch articles');
         }
 
-        return {
-            data,
-            meta: {
-                page,
-                limit,
-                total: count || 0,
-                totalPages: Math.ceil((count || 0) / limit),
-            },
-        };
+        return toPage(data, ARTICLE_ORDER, limit, count);
     });
 
     // GET /api/v1/articles/:id - Get single article with entities
-    fastify.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    fastify.get<{ Params: { id: string } }>('/:id', { schema: getSchema }, async (request, reply) => {
         const { id } = request.params;
 
         const { data: article, error } = await supabase
@@ -101,11 +175,37 @@ export const articlesRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(404).send({ error: 'Article not found' });
         }
 
-        return article;
+        // Other outlets that published the same story (canonical article + its duplicates)
+        const canonicalId = article.duplicate_of || article.id;
+        const { data: copies } = await supabase
+            .from('articles')
+            .select(`
+        id,
+        url,
+        published_at,
+        news_sources (
+          name,
+          logo_url
+        )
+      `)
+            .or(`id.eq.${canonicalId},duplicate_of.eq.${canonicalId}`)
+            .neq('id', article.id)
+            .order('published_at', { ascending: true });
+
+        return {
+            ...article,
+            also_published_by: (copies || []).map((copy: any) => ({
+                id: copy.id,
+                url: copy.url,
+                published_at: copy.published_at,
+                source: copy.news_sources?.name || null,
+                source_logo: copy.news_sources?.logo_url || null,
+            })),
+        };
     });
 
     // GET /api/v1/articles/:id/related - Get related articles
-    fastify.get<{ Params: { id: string } }>('/:id/related', async (request, reply) => {
+    fastify.get<{ Params: { id: string } }>('/:id/related', { schema: relatedSchema }, async (request, reply) => {
         const { id } = request.params;
 
         // Get the article's entities first
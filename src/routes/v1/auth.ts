@@ -1,57 +1,70 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../../config/database.js';
+import { requireAuth } from '../../middleware/auth.js';
+import { bearerOrApiKey, errorResponse } from '../../schemas/common.js';
 
-export const authRoutes: FastifyPluginAsync = async (fastify) => {
-    // Verify JWT token
-    fastify.post('/verify', async (request, reply) => {
-        const authHeader = request.headers.authorization;
-        if (!authHeader?.startsWith('Bearer ')) {
-            return reply.code(401).send({ error: 'Missing authorization header' });
-        }
+const user = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        email: { type: 'string' },
+        role: { type: 'string', enum: ['reader', 'editor', 'admin', 'service'] },
+        apiKey: {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                scopes: { type: 'array', items: { type: 'string' } },
+            },
+        },
+    },
+} as const;
 
-        const token = authHeader.split(' ')[1];
-
-        try {
-            const { data, error } = await supabase.auth.getUser(token);
+const verifySchema = {
+    summary: 'Verify the caller\'s credentials',
+    tags: ['auth'],
+    security: bearerOrApiKey,
+    response: {
+        200: { type: 'object', properties: { user } },
+        401: errorResponse,
+    },
+};
 
-            if (error || !data.user) {
-                return reply.code(401).send({ error: 'Invalid token' });
-            }
+const meSchema = {
+    summary: 'Profile of the signed-in user',
+    tags: ['auth'],
+    security: bearerOrApiKey,
+    response: {
+        // Profile columns plus id, email and role
+        200: { type: 'object', additionalProperties: true, properties: user.properties },
+        401: errorResponse,
+        500: errorResponse,
+    },
+};
 
-            return { user: data.user };
-        } catch (err) {
-            fastify.log.error(err);
-            return reply.code(500).send({ error: 'Internal server error' });
-        }
+export const authRoutes: FastifyPluginAsync = async (fastify) => {
+    // Verify JWT token (locally; see requireAuth)
+    fastify.post('/verify', { schema: verifySchema, preHandler: requireAuth }, async (request) => {
+        return { user: request.user };
     });
 
     // Get user profile
-    fastify.get('/me', async (request, reply) => {
-        const authHeader = request.headers.authorization;
-        if (!authHeader?.startsWith('Bearer ')) {
-            return reply.code(401).send({ error: 'Unauthorized' });
-        }
-
-        const token = authHeader.split(' ')[1];
+    fastify.get('/me', { schema: meSchema, preHandler: requireAuth }, async (request, reply) => {
+        const { id, email, role } = request.user!;
 
         try {
-            const { data: { user }, error } = await supabase.auth.getUser(token);
-
-            if (error || !user) {
-                return reply.code(401).send({ error: 'Invalid token' });
-            }
-
             // Get extended profile
             const { data: profile } = await supabase
                 .from('profiles')
                 .select('*')
-                .eq('id', user.id)
-                .single();
+                .eq('id', id)
+                .maybeSingle();
 
             return {
-                id: user.id,
-                email: user.email,
+                id,
+                email,
                 ...profile,
+                role,
             };
         } catch (err) {
             fastify.log.error(err);
@@ -1,48 +1,91 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../../config/database.js';
 import { runCypher } from '../../db/neo4j.js';
+import { cursorQuery, errorResponse, idParams, pageEnvelope, row } from '../../schemas/common.js';
+import { applyKeyset, KeysetOrder, toPage } from '../../services/pagination.js';
+
+const ENTITY_ORDER: KeysetOrder = { column: 'name', ascending: true };
 
 interface EntityQuery {
-    page?: number;
-    limit?: number;
+    cursor?: string;
+    limit: number;
     type?: string;
 }
 
+const ENTITY_TYPES = ['person', 'company', 'location', 'commodity', 'sector', 'policy', 'event'] as const;
+
+const listSchema = {
+    summary: 'List entities',
+    tags: ['entities'],
+    querystring: cursorQuery(50, {
+        type: { type: 'string', enum: ENTITY_TYPES },
+    }),
+    response: {
+        200: pageEnvelope(row),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const getSchema = {
+    summary: 'Get an entity with its article count',
+    tags: ['entities'],
+    params: idParams,
+    response: {
+        200: row,
+        404: errorResponse,
+    },
+};
+
+const connectionsSchema = {
+    summary: 'Graph connections of an entity',
+    tags: ['entities'],
+    params: idParams,
+    response: {
+        200: {
+            type: 'object',
+            properties: {
+                data: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            relatedEntity: row,
+                            relationship: row,
+                        },
+                    },
+                },
+            },
+        },
+        500: errorResponse,
+    },
+};
+
 export const entitiesRoutes: FastifyPluginAsync = async (fastify) => {
     // GET /api/v1/entities - List entities
-    fastify.get<{ Querystring: EntityQuery }>('/', async (request) => {
-        const { page = 1, limit = 50, type } = request.query;
-        const offset = (page - 1) * limit;
+    fastify.get<{ Querystring: EntityQuery }>('/', { schema: listSchema }, async (request) => {
+        const { cursor, limit, type } = request.query;
 
         let query = supabase
             .from('entities')
-            .select('*', { count: 'exact' })
-            .order('name', { ascending: true })
-            .range(offset, offset + limit - 1);
+            .select('*', cursor ? {} : { count: 'exact' });
 
         if (type) {
             query = query.eq('type', type);
         }
 
-        const { data, count, error } = await query;
+        const { data, count, error } = await applyKeyset(query, ENTITY_ORDER, limit, cursor);
 
         if (error) {
             fastify.log.error(error);
             throw new Error('Failed to fetch entities');
         }
 
-        return {
-            data,
-            meta: {
-                page,
-                limit,
-                total: count || 0,
-            },
-        };
+        return toPage(data, ENTITY_ORDER, limit, count);
     });
 
     // GET /api/v1/entities/:id - Get entity with connections
-    fastify.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    fastify.get<{ Params: { id: string } }>('/:id', { schema: getSchema }, async (request, reply) => {
         const { id } = request.params;
 
         const { data: entity, error } = await supabase
@@ -68,7 +111,7 @@ export const entitiesRoutes: FastifyPluginAsync = async (fastify) => {
     });
 
     // GET /api/v1/entities/:id/connections - Get entity graph connections from Neo4j
-    fastify.get<{ Params: { id: string } }>('/:id/connections', async (request, reply) => {
+    fastify.get<{ Params: { id: string } }>('/:id/connections', { schema: connectionsSchema }, async (request, reply) => {
         const { id } = request.params;
 
         try {
@@ -1,32 +1,119 @@
 import { FastifyPluginAsync } from 'fastify';
 import { supabase } from '../../config/database.js';
 import { requireAuth } from '../../middleware/auth.js';
+import { bearerAuth, cursorQuery, errorResponse, idParams, pageEnvelope, row, uuid } from '../../schemas/common.js';
+import { applyKeyset, KeysetOrder, toPage } from '../../services/pagination.js';
+
+// Most recently edited first
+const INVESTIGATION_ORDER: KeysetOrder = { column: 'updated_at' };
+
+const tags = ['investigations'];
+const security = bearerAuth;
+
+const listSchema = {
+    summary: "List the caller's investigations",
+    tags,
+    security,
+    querystring: cursorQuery(20),
+    response: {
+        200: pageEnvelope(row),
+        400: errorResponse,
+        500: errorResponse,
+    },
+};
+
+const createSchema = {
+    summary: 'Create an investigation',
+    tags,
+    security,
+    body: {
+        type: 'object',
+        required: ['title'],
+        additionalProperties: false,
+        properties: {
+            title: { type: 'string', minLength: 1, maxLength: 300 },
+            description: { type: 'string', maxLength: 5000 },
+        },
+    },
+    response: {
+        201: row,
+        400: errorResponse,
+    },
+};
+
+const getSchema = {
+    summary: 'Get an investigation with its articles',
+    tags,
+    security,
+    params: idParams,
+    response: {
+        200: row,
+        403: errorResponse,
+        404: errorResponse,
+    },
+};
+
+const addArticleSchema = {
+    summary: 'Add an article to an investigation',
+    tags,
+    security,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['article_id'],
+        additionalProperties: false,
+        properties: {
+            article_id: uuid,
+            notes: { type: 'string', maxLength: 5000 },
+        },
+    },
+    response: {
+        201: row,
+        400: errorResponse,
+        403: errorResponse,
+    },
+};
+
+const deleteSchema = {
+    summary: 'Delete an investigation',
+    tags,
+    security,
+    params: idParams,
+    response: {
+        204: { type: 'null' },
+        400: errorResponse,
+        403: errorResponse,
+    },
+};
 
 export const investigationsRoutes: FastifyPluginAsync = async (fastify) => {
     // All investigation routes require authentication
     fastify.addHook('preHandler', requireAuth);
 
     // GET /api/v1/investigations - List user's investigations
-    fastify.get('/', async (request) => {
+    fastify.get<{ Querystring: { cursor?: string; limit: number } }>('/', { schema: listSchema }, async (request) => {
         const userId = request.user!.id;
+        const { cursor, limit } = request.query;
 
-        const { data, error } = await supabase
+        const query = supabase
             .from('investigations')
-            .select('*')
-            .eq('owner_id', userId)
-            .order('updated_at', { ascending: false });
+            .select('*', cursor ? {} : { count: 'exact' })
+            .eq('owner_id', userId);
+
+        const { data, count, error } = await applyKeyset(query, INVESTIGATION_ORDER, limit, cursor);
 
         if (error) {
             fastify.log.error(error);
             throw new Error('Failed to fetch investigations');
         }
 
-        return { data };
+        return toPage(data, INVESTIGATION_ORDER, limit, count);
     });
 
     // POST /api/v1/investigations - Create investigation
     fastify.post<{ Body: { title: string; description?: string } }>(
         '/',
+        { schema: createSchema },
         async (request, reply) => {
             const userId = request.user!.id;
             const { title, description } = request.body;
@@ -51,7 +138,7 @@ export const investigationsRoutes: FastifyPluginAsync = async (fastify) => {
     );
 
     // GET /api/v1/investigations/:id - Get investigation with articles
-    fastify.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    fastify.get<{ Params: { id: string } }>('/:id', { schema: getSchema }, async (request, reply) => {
         const { id } = request.params;
         const userId = request.user!.id;
 
@@ -89,6 +176,7 @@ export const investigationsRoutes: FastifyPluginAsync = async (fastify) => {
     // POST /api/v1/investigations/:id/articles - Add article to investigation
     fastify.post<{ Params: { id: string }; Body: { article_id: string; notes?: string } }>(
         '/:id/articles',
+        { schema: addArticleSchema },
         async (request, reply) => {
             const { id } = request.params;
             const { article_id, notes } = request.body;
@@ -126,7 +214,7 @@ export const investigationsRoutes: FastifyPluginAsync = async (fastify) => {
     );
 
     // DELETE /api/v1/investigations/:id - Delete investigation
-    fastify.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    fastify.delete<{ Params: { id: string } }>('/:id', { schema: deleteSchema }, async (request, reply) => {
         const { id } = request.params;
         const userId = request.user!.id;
 
@@ -0,0 +1,78 @@
+/**
+ * Shared Route Schemas
+ *
+ * JSON Schema fragments reused by route schemas. Fastify validates params,
+ * query strings and bodies against them (coercing query strings to numbers
+ * and applying defaults), and serializes responses through them so only the
+ * declared fields are sent.
+ */
+
+// Largest page a list endpoint will return
+export const MAX_PAGE_SIZE = 100;
+
+export const uuid = { type: 'string', format: 'uuid' } as const;
+
+export const nullableString = { type: ['string', 'null'] } as const;
+export const nullableNumber = { type: ['number', 'null'] } as const;
+export const nullableInteger = { type: ['integer', 'null'] } as const;
+export const timestamp = { type: ['string', 'null'], format: 'date-time' } as const;
+
+// A database row whose columns are passed through as stored
+export const row = { type: 'object', additionalProperties: true } as const;
+export const rows = { type: 'array', items: row } as const;
+
+// Error bodies from handlers ({ error }) and from Fastify itself (validation, 404, 429)
+export const errorResponse = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        message: { type: 'string' },
+        statusCode: { type: 'integer' },
+        code: { type: 'string' },
+    },
+} as const;
+
+export const idParams = {
+    type: 'object',
+    required: ['id'],
+    properties: { id: uuid },
+} as const;
+
+/**
+ * `limit` query/body property bounded by max, with a default
+ */
+export function limitProperty(defaultValue: number, maximum: number = MAX_PAGE_SIZE) {
+    return { type: 'integer', minimum: 1, maximum, default: defaultValue } as const;
+}
+
+/**
+ * Query string for cursor-paginated lists (see services/pagination.ts)
+ */
+export function cursorQuery(defaultLimit: number, extra: Record<string, unknown> = {}) {
+    return {
+        type: 'object',
+        properties: {
+            cursor: { type: 'string', minLength: 1, maxLength: 500, description: 'next_cursor from the previous page' },
+            limit: limitProperty(defaultLimit),
+            ...extra,
+        },
+    } as const;
+}
+
+/**
+ * { data, next_cursor, total } list envelope around an item schema
+ */
+export function pageEnvelope(item: Record<string, unknown>) {
+    return {
+        type: 'object',
+        properties: {
+            data: { type: 'array', items: item },
+            next_cursor: { type: ['string', 'null'] },
+            total: { type: ['integer', 'null'], description: 'Matching rows; only counted on the first page' },
+        },
+    } as const;
+}
+
+// Per-route security requirements, for the OpenAPI document
+export const bearerAuth: Array<Record<string, string[]>> = [{ bearerAuth: [] }];
+export const bearerOrApiKey: Array<Record<string, string[]>> = [{ bearerAuth: [] }, { apiKey: [] }];
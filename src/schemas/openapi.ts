@@ -0,0 +1,134 @@
+/**
+ * OpenAPI Document
+ *
+ * Builds an OpenAPI 3.1 document from the JSON Schemas attached to each
+ * route (3.1 uses JSON Schema as-is, so nullable type arrays carry over).
+ * Routes are collected with an onRoute hook registered before any routes,
+ * and the document is built once on first request.
+ */
+
+import { FastifyInstance, RouteOptions } from 'fastify';
+
+// Documentation keywords on route schemas (ignored by validation)
+declare module 'fastify' {
+    interface FastifySchema {
+        summary?: string;
+        description?: string;
+        tags?: string[];
+        security?: Array<Record<string, string[]>>;
+        hide?: boolean;
+    }
+}
+
+type JsonSchema = Record<string, any>;
+
+export interface OpenApiRoute {
+    method: string;
+    url: string;
+    schema: RouteOptions['schema'];
+}
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+    200: 'OK',
+    201: 'Created',
+    202: 'Accepted',
+    204: 'No Content',
+    400: 'Invalid request',
+    401: 'Not authenticated',
+    403: 'Not allowed',
+    404: 'Not found',
+    409: 'Conflict',
+    429: 'Rate limit or provider quota exceeded',
+    500: 'Server error',
+};
+
+/**
+ * Fastify path to OpenAPI path: /stories/:slug -> /stories/{slug}
+ */
+export function toOpenApiPath(url: string): string {
+    const path = url.replace(/:(\w+)/g, '{$1}');
+    return path.length > 1 ? path.replace(/\/$/, '') : path;
+}
+
+function parameters(schema: JsonSchema | undefined, location: 'path' | 'query') {
+    const required: string[] = schema?.required || [];
+
+    return Object.entries((schema?.properties || {}) as Record<string, JsonSchema>).map(([name, property]) => {
+        const { description, ...rest } = property;
+        return {
+            name,
+            in: location,
+            required: location === 'path' || required.includes(name),
+            ...(description ? { description } : {}),
+            schema: rest,
+        };
+    });
+}
+
+function responses(schema: JsonSchema | undefined) {
+    const entries = Object.entries(schema || { 200: {} }) as Array<[string, JsonSchema]>;
+
+    return Object.fromEntries(entries.map(([code, body]) => [code, {
+        description: body.description || STATUS_DESCRIPTIONS[code] || 'Response',
+        ...(body.type === 'null' || code === '204'
+            ? {}
+            : { content: { 'application/json': { schema: body } } }),
+    }]));
+}
+
+export function buildOpenApiDocument(routes: OpenApiRoute[], info: { title: string; version: string }) {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const { method, url, schema = {} } of routes) {
+        const path = toOpenApiPath(url);
+        const params = schema.params as JsonSchema | undefined;
+        const query = schema.querystring as JsonSchema | undefined;
+        const body = schema.body as JsonSchema | undefined;
+
+        paths[path] ??= {};
+        paths[path][method.toLowerCase()] = {
+            ...(schema.summary ? { summary: schema.summary } : {}),
+            ...(schema.description ? { description: schema.description } : {}),
+            ...(schema.tags ? { tags: schema.tags } : {}),
+            ...(schema.security ? { security: schema.security } : {}),
+            parameters: [...parameters(params, 'path'), ...parameters(query, 'query')],
+            ...(body ? { requestBody: { required: (body.required || []).length > 0, content: { 'application/json': { schema: body } } } } : {}),
+            responses: responses(schema.response as JsonSchema | undefined),
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info,
+        paths,
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Supabase access token' },
+                apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Service API key' },
+            },
+        },
+    };
+}
+
+/**
+ * Collect every route registered after this call and serve the document at `path`
+ */
+export function registerOpenApi(fastify: FastifyInstance, path: string, info: { title: string; version: string }): void {
+    const routes: OpenApiRoute[] = [];
+    let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+    fastify.addHook('onRoute', (route) => {
+        if (route.schema?.hide) return;
+
+        const methods = Array.isArray(route.method) ? route.method : [route.method];
+        for (const method of methods) {
+            if (method === 'HEAD') continue;
+            routes.push({ method, url: route.url, schema: route.schema });
+        }
+    });
+
+    fastify.get(path, { schema: { hide: true } }, async () => {
+        document ??= buildOpenApiDocument(routes, info);
+        return document;
+    });
+}
@@ -0,0 +1,151 @@
+/**
+ * Service API Keys
+ *
+ * Credentials for cron jobs and other service callers. Keys are shown once
+ * at creation; only a SHA-256 hash and a short prefix are stored, each key
+ * carries the scopes it may use, and revoked or expired keys stop working
+ * immediately.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { supabase } from '../config/database.js';
+
+// Route groups a key can be scoped to ('*' = all)
+export const API_KEY_SCOPES = ['ingest', 'ai', 'cluster', 'jobs'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number] | '*';
+
+export interface ServiceApiKey {
+    id: string;
+    name: string;
+    key_prefix: string;
+    scopes: ApiKeyScope[];
+    created_by: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+}
+
+const KEY_PREFIX = 'nsk_';
+
+// Characters kept for display, e.g. "nsk_3fA9c1"
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+// last_used_at is only rewritten once it is this stale, so cron calls don't each pay for a write
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+const KEY_COLUMNS = 'id, name, key_prefix, scopes, created_by, created_at, last_used_at, expires_at, revoked_at';
+
+export function generateApiKey(): string {
+    return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+    return value === '*' || (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function hasScope(key: Pick<ServiceApiKey, 'scopes'>, scope: string): boolean {
+    return key.scopes.includes('*') || key.scopes.includes(scope as ApiKeyScope);
+}
+
+/**
+ * Create a key; the plaintext is returned here and never again
+ */
+export async function createApiKey(
+    name: string,
+    scopes: ApiKeyScope[],
+    options: { createdBy?: string; expiresAt?: string | null } = {}
+): Promise<{ key: string; record: ServiceApiKey }> {
+    const key = generateApiKey();
+
+    const { data, error } = await supabase
+        .from('service_api_keys')
+        .insert({
+            name,
+            key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+            key_hash: hashApiKey(key),
+            scopes,
+            created_by: options.createdBy || null,
+            expires_at: options.expiresAt || null,
+        })
+        .select(KEY_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    return { key, record: data as ServiceApiKey };
+}
+
+/**
+ * Look up an active key by its plaintext; null if unknown, revoked or expired
+ */
+export async function verifyApiKey(key: string): Promise<ServiceApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const { data, error } = await supabase
+        .from('service_api_keys')
+        .select(KEY_COLUMNS)
+        .eq('key_hash', hashApiKey(key))
+        .is('revoked_at', null)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error verifying API key:', error);
+        return null;
+    }
+
+    const record = data as ServiceApiKey | null;
+    if (!record || (record.expires_at && new Date(record.expires_at) <= new Date())) {
+        return null;
+    }
+
+    // Best effort and not awaited: usage tracking must not fail or slow the request
+    if (!record.last_used_at || Date.now() - new Date(record.last_used_at).getTime() >= LAST_USED_RESOLUTION_MS) {
+        supabase
+            .from('service_api_keys')
+            .update({ last_used_at: new Date().toISOString() })
+            .eq('id', record.id)
+            .then(({ error: updateError }) => {
+                if (updateError) console.error('Error recording API key use:', updateError);
+            });
+    }
+
+    return record;
+}
+
+export async function listApiKeys(): Promise<ServiceApiKey[]> {
+    const { data, error } = await supabase
+        .from('service_api_keys')
+        .select(KEY_COLUMNS)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to list API keys: ${error.message}`);
+    }
+
+    return (data || []) as ServiceApiKey[];
+}
+
+/**
+ * Revoke a key; false if it does not exist or was already revoked
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('service_api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('revoked_at', null)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+}
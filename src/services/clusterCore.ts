@@ -0,0 +1,592 @@
+/**
+ * Clustering Core
+ *
+ * Similarity graph and clustering algorithms behind clusterArticles. Items
+ * are vectorized once (TF-IDF over pre-tokenized text, or their embeddings),
+ * candidate pairs come from an inverted index (TF-IDF) or random-hyperplane
+ * LSH (embeddings) and must be published within a time window of each other,
+ * and only candidate pairs are scored. Algorithms run on the resulting sparse
+ * graph, where pairs that were never scored count as similarity 0.
+ *
+ * Nothing here touches the database, so offline tools (scripts/) can cluster too.
+ */
+
+import { tokenize } from './text.js';
+
+export interface ClusterItem {
+    id: string;
+    publishedAt: number;                // epoch ms
+    tokens: string[];
+    embedding?: number[] | null;
+}
+
+export type ClusterAlgorithmName = 'greedy' | 'agglomerative' | 'hdbscan';
+
+export interface ClusterOptions {
+    threshold: number;
+    algorithm?: ClusterAlgorithmName;
+    // 'embedding' needs an embedding on every item
+    vectors?: 'tfidf' | 'embedding';
+    // Pairs published further apart are never compared
+    windowHours?: number;
+    // hdbscan: smallest cluster kept (smaller groups become singletons) and
+    // the neighbour count behind core distances
+    minClusterSize?: number;
+    minSamples?: number;
+}
+
+export interface ItemCluster {
+    items: number[];                    // indices into the input
+    similarity: number;                 // mean pairwise similarity (1 for singletons)
+}
+
+export interface ClusterRun {
+    clusters: ItemCluster[];
+    pairsScored: number;
+}
+
+// Undirected sparse graph: neighbour index -> similarity, stored both ways
+export interface SimilarityGraph {
+    size: number;
+    edges: Array<Map<number, number>>;
+    pairsScored: number;
+}
+
+// Items in newest-first order, for algorithms whose result depends on order
+export type ClusterAlgorithm = (graph: SimilarityGraph, order: number[], options: ClusterOptions) => number[][];
+
+export const DEFAULT_WINDOW_HOURS = 72;
+
+// Terms per item entered into the inverted index (its highest TF-IDF weights
+// among terms some other item shares)
+const INDEX_TERMS_PER_ITEM = 8;
+
+// Terms shared by more items than this are too generic to propose pairs
+const MAX_POSTINGS = 200;
+
+// ============================================
+// Vectors
+// ============================================
+
+// Sparse unit vector, term ids ascending
+interface SparseVector {
+    terms: number[];
+    weights: number[];
+}
+
+/**
+ * Unit-length TF-IDF vectors with sublinear term frequency and smoothed IDF
+ */
+export function tfidfVectors(documents: string[][]): SparseVector[] {
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+        for (const term of new Set(tokens)) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const termIds = new Map<string, number>();
+    const total = documents.length;
+
+    return documents.map((tokens) => {
+        const counts = new Map<string, number>();
+        tokens.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+
+        const entries = [...counts].map(([term, count]) => {
+            let id = termIds.get(term);
+            if (id === undefined) {
+                id = termIds.size;
+                termIds.set(term, id);
+            }
+            const idf = Math.log((1 + total) / (1 + documentFrequency.get(term)!)) + 1;
+            return [id, (1 + Math.log(count)) * idf] as const;
+        }).sort((a, b) => a[0] - b[0]);
+
+        const norm = Math.sqrt(entries.reduce((sum, [, w]) => sum + w * w, 0)) || 1;
+        return { terms: entries.map(([id]) => id), weights: entries.map(([, w]) => w / norm) };
+    });
+}
+
+function sparseDot(a: SparseVector, b: SparseVector): number {
+    let dot = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < a.terms.length && j < b.terms.length) {
+        if (a.terms[i] === b.terms[j]) dot += a.weights[i++] * b.weights[j++];
+        else if (a.terms[i] < b.terms[j]) i++;
+        else j++;
+    }
+
+    return dot;
+}
+
+function unit(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+// ============================================
+// Candidate pairs
+// ============================================
+
+/**
+ * Call `visit` for every pair of items in a group published within the
+ * window of each other (group sorted by time, so a sliding window suffices)
+ */
+function windowPairs(
+    group: number[],
+    times: number[],
+    windowMs: number,
+    visit: (a: number, b: number) => void
+): void {
+    const sorted = [...group].sort((a, b) => times[a] - times[b]);
+
+    for (let i = 0; i < sorted.length; i++) {
+        for (let j = i + 1; j < sorted.length && times[sorted[j]] - times[sorted[i]] <= windowMs; j++) {
+            visit(sorted[i], sorted[j]);
+        }
+    }
+}
+
+/**
+ * Items sharing one of their top-weighted terms. Terms no other item has are
+ * skipped: they carry the most weight but can never propose a pair.
+ */
+function invertedIndexBuckets(vectors: SparseVector[]): number[][] {
+    const frequency = new Map<number, number>();
+    for (const vector of vectors) {
+        vector.terms.forEach((term) => frequency.set(term, (frequency.get(term) || 0) + 1));
+    }
+
+    const postings = new Map<number, number[]>();
+
+    vectors.forEach((vector, index) => {
+        const top = vector.terms
+            .map((term, i) => [term, vector.weights[i]] as const)
+            .filter(([term]) => frequency.get(term)! > 1)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, INDEX_TERMS_PER_ITEM);
+
+        for (const [term] of top) {
+            const list = postings.get(term);
+            if (list) list.push(index);
+            else postings.set(term, [index]);
+        }
+    });
+
+    return [...postings.values()].filter((list) => list.length > 1 && list.length <= MAX_POSTINGS);
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so LSH planes are stable across runs
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Bands and rows per band so that a pair at the threshold collides in some
+ * band with probability >= 95% while unrelated (orthogonal) pairs collide
+ * as rarely as possible
+ */
+export function lshParameters(threshold: number, maxBands: number = 32): { bands: number; rows: number } {
+    // Probability that one random hyperplane puts both vectors on the same side
+    const p = 1 - Math.acos(Math.max(-1, Math.min(1, threshold))) / Math.PI;
+    let best = { bands: maxBands, rows: 1, falsePositives: Infinity };
+
+    for (let rows = 1; rows <= 16; rows++) {
+        const bands = Math.ceil(Math.log(0.05) / Math.log(1 - p ** rows));
+        if (!Number.isFinite(bands) || bands > maxBands) continue;
+
+        const falsePositives = 1 - (1 - 0.5 ** rows) ** bands;
+        if (falsePositives < best.falsePositives) best = { bands, rows, falsePositives };
+    }
+
+    return { bands: best.bands, rows: best.rows };
+}
+
+/**
+ * Items whose signatures agree on every random hyperplane of some band
+ */
+function lshBuckets(vectors: number[][], threshold: number): number[][] {
+    if (vectors.length === 0) return [];
+
+    const { bands, rows } = lshParameters(threshold);
+    const random = seededRandom(0x5eed);
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const dimensions = vectors[0].length;
+    const buckets: number[][] = [];
+
+    for (let band = 0; band < bands; band++) {
+        const planes = Array.from({ length: rows }, () => Array.from({ length: dimensions }, gaussian));
+        const bandBuckets = new Map<string, number[]>();
+
+        vectors.forEach((vector, index) => {
+            const key = planes.map((plane) => (dot(plane, vector) >= 0 ? '1' : '0')).join('');
+            const list = bandBuckets.get(key);
+            if (list) list.push(index);
+            else bandBuckets.set(key, [index]);
+        });
+
+        buckets.push(...[...bandBuckets.values()].filter((list) => list.length > 1));
+    }
+
+    return buckets;
+}
+
+// ============================================
+// Similarity graph
+// ============================================
+
+/**
+ * Score candidate pairs within the time window; edges keep similarities above 0
+ */
+export function buildSimilarityGraph(items: ClusterItem[], options: ClusterOptions): SimilarityGraph {
+    const size = items.length;
+    const edges = Array.from({ length: size }, () => new Map<number, number>());
+    const times = items.map((item) => item.publishedAt);
+    const windowMs = (options.windowHours ?? DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000;
+    const scored = new Set<number>();
+    let pairsScored = 0;
+
+    let similarity: (a: number, b: number) => number;
+    let buckets: number[][];
+
+    if (options.vectors === 'embedding') {
+        const vectors = items.map((item) => {
+            if (!item.embedding) throw new Error(`Item ${item.id} has no embedding`);
+            return unit(item.embedding);
+        });
+        similarity = (a, b) => dot(vectors[a], vectors[b]);
+        buckets = lshBuckets(vectors, options.threshold);
+    } else {
+        const vectors = tfidfVectors(items.map((item) => item.tokens));
+        similarity = (a, b) => sparseDot(vectors[a], vectors[b]);
+        buckets = invertedIndexBuckets(vectors);
+    }
+
+    for (const bucket of buckets) {
+        windowPairs(bucket, times, windowMs, (a, b) => {
+            const key = Math.min(a, b) * size + Math.max(a, b);
+            if (scored.has(key)) return;
+            scored.add(key);
+            pairsScored++;
+
+            const score = similarity(a, b);
+            if (score > 0) {
+                edges[a].set(b, score);
+                edges[b].set(a, score);
+            }
+        });
+    }
+
+    return { size, edges, pairsScored };
+}
+
+/**
+ * Mean pairwise similarity within a group (1 for a single item)
+ */
+export function cohesion(graph: SimilarityGraph, members: number[]): number {
+    if (members.length < 2) return 1;
+
+    let sum = 0;
+    for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+            sum += graph.edges[members[i]].get(members[j]) || 0;
+        }
+    }
+
+    return sum / (members.length * (members.length - 1) / 2);
+}
+
+// ============================================
+// Algorithms
+// ============================================
+
+/**
+ * Binary heap ordered by `before` (the root comes before every other entry)
+ */
+class Heap<T> {
+    private entries: T[] = [];
+
+    constructor(private before: (a: T, b: T) => boolean) {}
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    push(entry: T): void {
+        const entries = this.entries;
+        entries.push(entry);
+
+        let i = entries.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(entries[i], entries[parent])) break;
+            [entries[i], entries[parent]] = [entries[parent], entries[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const entries = this.entries;
+        const top = entries[0];
+        const last = entries.pop();
+
+        if (entries.length > 0 && last !== undefined) {
+            entries[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let first = i;
+                if (left < entries.length && this.before(entries[left], entries[first])) first = left;
+                if (right < entries.length && this.before(entries[right], entries[first])) first = right;
+                if (first === i) break;
+                [entries[i], entries[first]] = [entries[first], entries[i]];
+                i = first;
+            }
+        }
+
+        return top;
+    }
+}
+
+/**
+ * Greedy single pass: the newest unassigned item seeds a cluster, and each
+ * later item joins when its mean similarity to the members reaches the
+ * threshold. Only neighbours of members are visited (others average 0),
+ * in the order a full scan would reach them.
+ */
+export const greedy: ClusterAlgorithm = (graph, order, { threshold }) => {
+    const position = new Array<number>(graph.size);
+    order.forEach((item, i) => { position[item] = i; });
+
+    const assigned = new Set<number>();
+    const groups: number[][] = [];
+
+    for (const seed of order) {
+        if (assigned.has(seed)) continue;
+
+        const members = [seed];
+        assigned.add(seed);
+
+        const sums = new Map<number, number>();
+        const frontier = new Heap<number>((a, b) => position[a] < position[b]);
+        const queued = new Set<number>();
+
+        const addNeighbours = (member: number) => {
+            for (const [neighbour, similarity] of graph.edges[member]) {
+                if (assigned.has(neighbour)) continue;
+                sums.set(neighbour, (sums.get(neighbour) || 0) + similarity);
+                if (position[neighbour] > position[member] && !queued.has(neighbour)) {
+                    queued.add(neighbour);
+                    frontier.push(neighbour);
+                }
+            }
+        };
+        addNeighbours(seed);
+
+        while (frontier.size > 0) {
+            const candidate = frontier.pop()!;
+            if (assigned.has(candidate)) continue;
+
+            if ((sums.get(candidate) || 0) / members.length >= threshold) {
+                members.push(candidate);
+                assigned.add(candidate);
+                addNeighbours(candidate);
+            }
+        }
+
+        groups.push(members);
+    }
+
+    return groups;
+};
+
+/**
+ * Agglomerative clustering with average linkage: repeatedly merge the two
+ * clusters with the highest mean similarity until none reaches the
+ * threshold. A merged cluster's linkage to a third is a weighted mean of its
+ * parts', so only pairs already at the threshold ever need to be queued.
+ */
+export const agglomerative: ClusterAlgorithm = (graph, order, { threshold }) => {
+    const members = new Map<number, number[]>();
+    const links = new Map<number, Map<number, number>>();   // cluster -> cluster -> summed similarity
+    const version = new Map<number, number>();
+
+    interface Merge { a: number; b: number; score: number; versionA: number; versionB: number }
+    const merges = new Heap<Merge>((x, y) => x.score > y.score || (x.score === y.score && x.a + x.b < y.a + y.b));
+
+    for (let i = 0; i < graph.size; i++) {
+        members.set(i, [i]);
+        links.set(i, new Map(graph.edges[i]));
+        version.set(i, 0);
+    }
+
+    const queue = (a: number, b: number) => {
+        const score = links.get(a)!.get(b)! / (members.get(a)!.length * members.get(b)!.length);
+        if (score >= threshold) {
+            merges.push({ a, b, score, versionA: version.get(a)!, versionB: version.get(b)! });
+        }
+    };
+
+    for (let a = 0; a < graph.size; a++) {
+        for (const b of graph.edges[a].keys()) {
+            if (a < b) queue(a, b);
+        }
+    }
+
+    while (merges.size > 0) {
+        const { a, b, versionA, versionB } = merges.pop()!;
+        if (version.get(a) !== versionA || version.get(b) !== versionB) continue;
+
+        // Fold b into a
+        members.get(a)!.push(...members.get(b)!);
+        members.delete(b);
+        version.set(a, versionA + 1);
+        version.delete(b);
+
+        const linksA = links.get(a)!;
+        const linksB = links.get(b)!;
+        links.delete(b);
+        linksA.delete(b);
+
+        for (const [other, sum] of linksB) {
+            if (other === a) continue;
+            linksA.set(other, (linksA.get(other) || 0) + sum);
+            const otherLinks = links.get(other)!;
+            otherLinks.set(a, (otherLinks.get(a) || 0) + sum);
+            otherLinks.delete(b);
+        }
+
+        for (const other of linksA.keys()) queue(a, other);
+    }
+
+    // Newest-first order of each cluster's newest item, members likewise
+    const rank = new Array<number>(graph.size);
+    order.forEach((item, i) => { rank[item] = i; });
+
+    return [...members.values()]
+        .map((group) => group.sort((x, y) => rank[x] - rank[y]))
+        .sort((x, y) => rank[x[0]] - rank[y[0]]);
+};
+
+/**
+ * HDBSCAN-style density clustering: distances (1 - similarity) are raised to
+ * mutual reachability (no closer than either item's distance to its
+ * minSamples-th neighbour), items linked at or under the threshold distance
+ * are joined (single linkage), and groups smaller than minClusterSize are
+ * treated as noise and returned as singletons.
+ */
+export const hdbscan: ClusterAlgorithm = (graph, order, { threshold, minClusterSize = 2, minSamples = 2 }) => {
+    const maxDistance = 1 - threshold;
+
+    // Core distance: to the (minSamples - 1)-th nearest other item (the item counts itself)
+    const core = graph.edges.map((neighbours) => {
+        const distances = [...neighbours.values()].map((s) => 1 - s).sort((a, b) => a - b);
+        return distances[minSamples - 2] ?? 1;
+    });
+
+    const parent = Array.from({ length: graph.size }, (_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    graph.edges.forEach((neighbours, a) => {
+        for (const [b, similarity] of neighbours) {
+            if (a < b && Math.max(core[a], core[b], 1 - similarity) <= maxDistance) {
+                parent[find(a)] = find(b);
+            }
+        }
+    });
+
+    const components = new Map<number, number[]>();
+    for (const item of order) {
+        const root = find(item);
+        const list = components.get(root);
+        if (list) list.push(item);
+        else components.set(root, [item]);
+    }
+
+    return [...components.values()].flatMap((group) =>
+        group.length >= minClusterSize ? [group] : group.map((item) => [item])
+    );
+};
+
+export const CLUSTER_ALGORITHMS: Record<ClusterAlgorithmName, ClusterAlgorithm> = {
+    greedy,
+    agglomerative,
+    hdbscan,
+};
+
+export function isClusterAlgorithm(name: string): name is ClusterAlgorithmName {
+    return Object.prototype.hasOwnProperty.call(CLUSTER_ALGORITHMS, name);
+}
+
+/**
+ * Cluster items with the chosen algorithm (greedy by default)
+ */
+export function clusterItems(items: ClusterItem[], options: ClusterOptions): ClusterRun {
+    const graph = buildSimilarityGraph(items, options);
+    const order = items
+        .map((_, i) => i)
+        .sort((a, b) => items[b].publishedAt - items[a].publishedAt || a - b);
+
+    const groups = CLUSTER_ALGORITHMS[options.algorithm ?? 'greedy'](graph, order, options);
+
+    return {
+        clusters: groups.map((group) => ({ items: group, similarity: cohesion(graph, group) })),
+        pairsScored: graph.pairsScored,
+    };
+}
+
+// Article fields clustering reads
+export interface ClusterableArticle {
+    id: string;
+    title: string;
+    excerpt?: string | null;
+    published_at: string;
+    embedding?: number[] | null;
+}
+
+export interface ArticleCluster<T extends ClusterableArticle> {
+    articles: T[];
+    similarity: number;
+}
+
+/**
+ * Cluster articles by TF-IDF similarity of title + excerpt, or by their
+ * embeddings with `vectors: 'embedding'`
+ */
+export function clusterArticles<T extends ClusterableArticle>(articles: T[], options: ClusterOptions): ArticleCluster<T>[] {
+    const items = articles.map((a) => ({
+        id: a.id,
+        publishedAt: new Date(a.published_at).getTime(),
+        tokens: tokenize(`${a.title} ${a.excerpt || ''}`),
+        embedding: a.embedding,
+    }));
+
+    return clusterItems(items, options).clusters.map((cluster) => ({
+        articles: cluster.items.map((i) => articles[i]),
+        similarity: cluster.similarity,
+    }));
+}
@@ -0,0 +1,139 @@
+/**
+ * Clustering Evaluation
+ *
+ * Scores clusterArticles against hand-labeled articles (same label = same
+ * event) so thresholds and algorithms can be compared by numbers rather than
+ * by eye. Reports purity, B-cubed precision/recall/F1 and the adjusted Rand
+ * index for each threshold of a sweep. Used by scripts/evaluate-clustering.ts
+ * and the tests; nothing here touches the database.
+ */
+
+import { clusterArticles, ClusterableArticle, ClusterOptions } from './clusterCore.js';
+
+export interface LabeledArticle extends ClusterableArticle {
+    label: string;
+}
+
+export interface ClusteringScores {
+    clusters: number;
+    purity: number;
+    bcubedPrecision: number;
+    bcubedRecall: number;
+    bcubedF1: number;
+    ari: number;
+}
+
+export interface EvaluationRow extends ClusteringScores {
+    threshold: number;
+}
+
+function pairs(n: number): number {
+    return (n * (n - 1)) / 2;
+}
+
+/**
+ * Compare predicted clusters (lists of ids) with the true label of each id
+ */
+export function scoreClustering(predicted: string[][], labels: Map<string, string>): ClusteringScores {
+    const total = predicted.reduce((sum, cluster) => sum + cluster.length, 0);
+    const labelSizes = new Map<string, number>();
+    for (const cluster of predicted) {
+        for (const id of cluster) {
+            const label = labels.get(id)!;
+            labelSizes.set(label, (labelSizes.get(label) || 0) + 1);
+        }
+    }
+
+    let majority = 0;
+    let precision = 0;
+    let recall = 0;
+    let agreeingPairs = 0;
+    let clusterPairs = 0;
+
+    for (const cluster of predicted) {
+        // Contingency row: how many of the cluster's items carry each label
+        const counts = new Map<string, number>();
+        cluster.forEach((id) => counts.set(labels.get(id)!, (counts.get(labels.get(id)!) || 0) + 1));
+
+        majority += Math.max(...counts.values());
+        clusterPairs += pairs(cluster.length);
+
+        for (const [label, count] of counts) {
+            // Every item with this label in this cluster scores the same
+            precision += count * (count / cluster.length);
+            recall += count * (count / labelSizes.get(label)!);
+            agreeingPairs += pairs(count);
+        }
+    }
+
+    const bcubedPrecision = precision / total;
+    const bcubedRecall = recall / total;
+
+    const labelPairs = [...labelSizes.values()].reduce((sum, size) => sum + pairs(size), 0);
+    const expected = total > 1 ? (clusterPairs * labelPairs) / pairs(total) : 0;
+    const maximum = (clusterPairs + labelPairs) / 2;
+
+    return {
+        clusters: predicted.length,
+        purity: majority / total,
+        bcubedPrecision,
+        bcubedRecall,
+        bcubedF1: (2 * bcubedPrecision * bcubedRecall) / (bcubedPrecision + bcubedRecall),
+        // Identical trivial partitions (all singletons, or one cluster) agree perfectly
+        ari: maximum === expected ? 1 : (agreeingPairs - expected) / (maximum - expected),
+    };
+}
+
+/**
+ * Cluster labeled articles once and score the result
+ */
+export function evaluateClustering(articles: LabeledArticle[], options: ClusterOptions): ClusteringScores {
+    const labels = new Map(articles.map((a) => [a.id, a.label]));
+    const clusters = clusterArticles(articles, options).map((c) => c.articles.map((a) => a.id));
+
+    return scoreClustering(clusters, labels);
+}
+
+/**
+ * Thresholds from `from` to `to` inclusive, rounded to avoid float drift
+ */
+export function thresholdRange(from: number, to: number, step: number): number[] {
+    const thresholds: number[] = [];
+    for (let i = 0; from + i * step <= to + 1e-9; i++) {
+        thresholds.push(Math.round((from + i * step) * 1000) / 1000);
+    }
+    return thresholds;
+}
+
+export function sweepThresholds(
+    articles: LabeledArticle[],
+    thresholds: number[],
+    options: Omit<ClusterOptions, 'threshold'> = {}
+): EvaluationRow[] {
+    return thresholds.map((threshold) => ({
+        threshold,
+        ...evaluateClustering(articles, { ...options, threshold }),
+    }));
+}
+
+/**
+ * Plain-text table of a sweep; the row with the best B-cubed F1 is starred
+ */
+export function formatReport(rows: EvaluationRow[]): string {
+    const best = rows.reduce<EvaluationRow | null>((top, row) => (!top || row.bcubedF1 > top.bcubedF1 ? row : top), null);
+    const header = ['threshold', 'clusters', 'purity', 'b3-precision', 'b3-recall', 'b3-f1', 'ari'];
+    const lines = rows.map((row) => [
+        `${row === best ? '*' : ' '}${row.threshold.toFixed(3)}`,
+        String(row.clusters),
+        row.purity.toFixed(3),
+        row.bcubedPrecision.toFixed(3),
+        row.bcubedRecall.toFixed(3),
+        row.bcubedF1.toFixed(3),
+        row.ari.toFixed(3),
+    ]);
+
+    const widths = header.map((title, i) => Math.max(title.length, ...lines.map((line) => line[i].length)));
+    const format = (cells: string[]) => cells.map((cell, i) => cell.padStart(widths[i])).join('  ');
+
+    return [format(header), ...lines.map(format)].join('\n');
+}
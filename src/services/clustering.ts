@@ -1,207 +1,504 @@
 /**
  * Article Clustering Service
  * 
- * Groups similar articles together using text similarity.
- * Uses a simple TF-IDF approach for free-tier compatibility.
+ * Groups similar articles together. Articles are compared by the cosine of
+ * their embeddings (see ai/embeddings.ts); when embeddings can't be produced
+ * for every article, the run falls back to TF-IDF cosine similarity. The
+ * similarity graph and algorithms live in clusterCore.ts.
+ *
+ * Runs are incremental: new articles first join the open story whose
+ * centroid (mean embedding) they match, and only the rest are clustered
+ * into new stories. Stories close after a period without new articles.
+ * Each synthesis has its citations verified (ai/citations.ts) and is kept
+ * as a story version (see storyVersions.ts).
  */
 
+import { env } from '../config/env.js';
 import { supabase } from '../config/database.js';
-import { synthesizeArticles, SynthesisResult } from '../ai/synthesis.js';
+import { FALLBACK_MODEL, synthesizeArticles, SynthesisResult } from '../ai/synthesis.js';
+import { verifySynthesis } from '../ai/citations.js';
+import { embedArticles, EmbeddingProvider, getEmbeddingProvider, parseVector, vectorCosine } from '../ai/embeddings.js';
+import { ArticleCluster, clusterArticles, ClusterOptions, isClusterAlgorithm } from './clusterCore.js';
+import { recordStoryVersion } from './storyVersions.js';
+import { tokenize } from './text.js';
 
 interface Article {
     id: string;
     title: string;
     excerpt: string;
+    content?: string | null;
     url: string;
     source: string;
     published_at: string;
     image_url?: string;
+    embedding?: number[] | null;
+    embedding_model?: string | null;
+    excluded_story_ids?: string[];      // Stories an editor detached this article from
 }
 
-interface Cluster {
-    articles: Article[];
-    similarity: number;
+type Cluster = ArticleCluster<Article>;
+
+// TF-IDF cosine at which articles are grouped when clustering lexically
+const LEXICAL_THRESHOLD = 0.2;
+
+/**
+ * Clustering options from the environment for a run's similarity method
+ */
+function clusterOptions(method: 'embedding' | 'lexical', provider: EmbeddingProvider): ClusterOptions {
+    const algorithm = isClusterAlgorithm(env.CLUSTER_ALGORITHM) ? env.CLUSTER_ALGORITHM : 'greedy';
+
+    return {
+        algorithm,
+        vectors: method === 'embedding' ? 'embedding' : 'tfidf',
+        threshold: method === 'embedding' ? provider.clusterThreshold : LEXICAL_THRESHOLD,
+        windowHours: env.CLUSTER_WINDOW_HOURS,
+        minClusterSize: env.STORY_MIN_ARTICLES,
+    };
 }
 
+// Columns loaded for articles that may be synthesized
+const ARTICLE_COLUMNS = 'id, title, excerpt, content, url, published_at, image_url, news_sources(name)';
+
 /**
- * Simple text tokenizer - extracts significant words
+ * Article row (with its news_sources join) to the clustering shape
  */
-function tokenize(text: string): string[] {
-    const stopWords = new Set([
-        'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-        'of', 'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been',
-        'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
-        'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need',
-        'its', 'it', 'this', 'that', 'these', 'those', 'he', 'she', 'they',
-        'we', 'you', 'i', 'his', 'her', 'their', 'our', 'your', 'my', 'as',
-        'said', 'says', 'according', 'also', 'just', 'about', 'after', 'before',
-        'new', 'first', 'last', 'year', 'years', 'day', 'days', 'time', 'more',
-        'some', 'any', 'all', 'most', 'other', 'into', 'over', 'such', 'no',
-        'not', 'only', 'than', 'then', 'now', 'out', 'up', 'down', 'so', 'if',
-    ]);
-
-    return text
-        .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .split(/\s+/)
-        .filter(word => word.length > 2 && !stopWords.has(word));
+function toArticle(row: any): Article {
+    return {
+        id: row.id,
+        title: row.title,
+        excerpt: row.excerpt || '',
+        content: row.content,
+        url: row.url,
+        source: row.news_sources?.name || 'Unknown',
+        published_at: row.published_at,
+        image_url: row.image_url,
+        embedding: parseVector(row.embedding),
+        embedding_model: row.embedding_model,
+    };
 }
 
 /**
- * Calculate Jaccard similarity between two token sets
+ * Get recent articles that haven't been assigned to a story yet
  */
-function jaccardSimilarity(tokens1: string[], tokens2: string[]): number {
-    const set1 = new Set(tokens1);
-    const set2 = new Set(tokens2);
+async function getUnassignedArticles(hoursBack: number = 48): Promise<Article[]> {
+    const since = new Date(Date.now() - hoursBack * 60 * 60 * 1000).toISOString();
 
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
+    const { data, error } = await supabase
+        .from('articles')
+        .select(`${ARTICLE_COLUMNS}, embedding, embedding_model`)
+        .gte('published_at', since)
+        .is('duplicate_of', null)
+        .order('published_at', { ascending: false })
+        .limit(500);
 
-    return intersection.size / union.size;
+    if (error) {
+        console.error('Error fetching articles:', error);
+        return [];
+    }
+
+    // Check which articles already have stories
+    const articleIds = data.map(a => a.id);
+    const { data: existingLinks } = await supabase
+        .from('story_articles')
+        .select('article_id')
+        .in('article_id', articleIds);
+
+    const assignedIds = new Set(existingLinks?.map(l => l.article_id) || []);
+    const unassigned = data.filter(a => !assignedIds.has(a.id)).map(toArticle);
+
+    // Detached articles must not be matched back into the story they left
+    const { data: exclusions } = await supabase
+        .from('story_article_exclusions')
+        .select('story_id, article_id')
+        .in('article_id', unassigned.map(a => a.id));
+
+    for (const article of unassigned) {
+        const excluded = (exclusions || []).filter(e => e.article_id === article.id).map(e => e.story_id);
+        if (excluded.length > 0) article.excluded_story_ids = excluded;
+    }
+
+    return unassigned;
 }
 
 /**
- * Calculate cosine similarity using term frequencies
+ * Embed articles that have no embedding from the provider's model yet.
+ * Returns false when some article is still missing one, so the caller
+ * falls back to lexical similarity.
  */
-function cosineSimilarity(tokens1: string[], tokens2: string[]): number {
-    const freq1 = new Map<string, number>();
-    const freq2 = new Map<string, number>();
+async function ensureEmbeddings(articles: Article[], provider: EmbeddingProvider): Promise<boolean> {
+    const missing = articles.filter(a => !a.embedding || a.embedding_model !== provider.id);
+
+    if (missing.length > 0) {
+        try {
+            const embedded = await embedArticles(missing, provider);
+            for (const article of missing) {
+                article.embedding = embedded.get(article.id) || null;
+                article.embedding_model = article.embedding ? provider.id : null;
+            }
+        } catch (error) {
+            console.error('Error embedding articles, falling back to lexical similarity:', error);
+            return false;
+        }
+    }
 
-    tokens1.forEach(t => freq1.set(t, (freq1.get(t) || 0) + 1));
-    tokens2.forEach(t => freq2.set(t, (freq2.get(t) || 0) + 1));
+    return articles.every(a => a.embedding && a.embedding_model === provider.id);
+}
 
-    const allTerms = new Set([...freq1.keys(), ...freq2.keys()]);
+// ============================================
+// Open stories
+// ============================================
 
-    let dotProduct = 0;
-    let magnitude1 = 0;
-    let magnitude2 = 0;
+interface OpenStory {
+    id: string;
+    source_count: number;
+    centroid: number[];
+    pending_article_count: number;
+    last_article_at: string | null;
+}
+
+interface StoryMatch {
+    story: OpenStory;
+    articles: Array<{ article: Article; similarity: number }>;
+}
+
+// Open stories considered per run, most recently active first
+const MAX_OPEN_STORIES = 200;
 
-    allTerms.forEach(term => {
-        const v1 = freq1.get(term) || 0;
-        const v2 = freq2.get(term) || 0;
-        dotProduct += v1 * v2;
-        magnitude1 += v1 * v1;
-        magnitude2 += v2 * v2;
-    });
+// Stories whose centroid is missing or from another model, recomputed per run
+const CENTROID_REFRESH_LIMIT = 20;
 
-    if (magnitude1 === 0 || magnitude2 === 0) return 0;
+/**
+ * Element-wise mean of vectors (a story's centroid); null when there are none
+ */
+function meanVector(vectors: number[][]): number[] | null {
+    if (vectors.length === 0) return null;
 
-    return dotProduct / (Math.sqrt(magnitude1) * Math.sqrt(magnitude2));
+    const sum = new Array<number>(vectors[0].length).fill(0);
+    vectors.forEach(vector => vector.forEach((v, i) => { sum[i] += v; }));
+    return sum.map(v => v / vectors.length);
 }
 
 /**
- * Combined similarity score (Jaccard + Cosine average)
+ * Centroid of a story with `count` members after adding `vectors`
  */
-function calculateSimilarity(article1: Article, article2: Article): number {
-    const text1 = `${article1.title} ${article1.excerpt}`;
-    const text2 = `${article2.title} ${article2.excerpt}`;
+function extendCentroid(centroid: number[], count: number, vectors: number[][]): number[] {
+    const sum = centroid.map(v => v * count);
+    vectors.forEach(vector => vector.forEach((v, i) => { sum[i] += v; }));
+    return sum.map(v => v / (count + vectors.length));
+}
 
-    const tokens1 = tokenize(text1);
-    const tokens2 = tokenize(text2);
+/**
+ * Assign each article to the open story whose centroid it is most similar
+ * to, if that similarity reaches the threshold
+ */
+function matchArticlesToStories(
+    articles: Article[],
+    stories: OpenStory[],
+    threshold: number
+): { matches: StoryMatch[]; unmatched: Article[] } {
+    const matches = new Map<string, StoryMatch>();
+    const unmatched: Article[] = [];
+
+    for (const article of articles) {
+        let best: { story: OpenStory; similarity: number } | null = null;
+
+        if (article.embedding) {
+            for (const story of stories) {
+                if (article.excluded_story_ids?.includes(story.id)) continue;
+
+                const similarity = vectorCosine(article.embedding, story.centroid);
+                if (similarity >= threshold && (!best || similarity > best.similarity)) {
+                    best = { story, similarity };
+                }
+            }
+        }
 
-    const jaccard = jaccardSimilarity(tokens1, tokens2);
-    const cosine = cosineSimilarity(tokens1, tokens2);
+        if (!best) {
+            unmatched.push(article);
+            continue;
+        }
+
+        const match = matches.get(best.story.id) || { story: best.story, articles: [] };
+        match.articles.push({ article, similarity: best.similarity });
+        matches.set(best.story.id, match);
+    }
 
-    return (jaccard + cosine) / 2;
+    return { matches: [...matches.values()], unmatched };
 }
 
 /**
- * Cluster articles by similarity using greedy clustering
+ * Close stories whose newest article is older than the inactivity window
  */
-function clusterArticles(articles: Article[], threshold: number = 0.35): Cluster[] {
-    const clusters: Cluster[] = [];
-    const assigned = new Set<string>();
+async function closeInactiveStories(inactivityHours: number): Promise<number> {
+    const cutoff = new Date(Date.now() - inactivityHours * 60 * 60 * 1000).toISOString();
 
-    // Sort by recency (newest first)
-    const sorted = [...articles].sort((a, b) =>
-        new Date(b.published_at).getTime() - new Date(a.published_at).getTime()
-    );
+    const { data, error } = await supabase
+        .from('stories')
+        .update({ closed_at: new Date().toISOString() })
+        .is('closed_at', null)
+        .lt('last_article_at', cutoff)
+        .select('id');
+
+    if (error) {
+        console.error('Error closing inactive stories:', error);
+        return 0;
+    }
+
+    return data?.length || 0;
+}
+
+/**
+ * Recompute a story's centroid from its articles' embeddings, embedding
+ * any member that has none from the provider's model
+ */
+async function refreshCentroid(storyId: string, provider: EmbeddingProvider): Promise<number[] | null> {
+    const { data, error } = await supabase
+        .from('story_articles')
+        .select('articles(id, title, excerpt, embedding, embedding_model)')
+        .eq('story_id', storyId);
+
+    if (error || !data) {
+        console.error(`Error loading articles for story ${storyId}:`, error);
+        return null;
+    }
+
+    const members = data.map(link => link.articles as any).filter(Boolean);
+    const vectors = new Map<string, number[]>();
+    const missing = [];
+
+    for (const member of members) {
+        const embedding = member.embedding_model === provider.id ? parseVector(member.embedding) : null;
+        if (embedding) vectors.set(member.id, embedding);
+        else missing.push(member);
+    }
+
+    if (missing.length > 0) {
+        for (const [id, embedding] of await embedArticles(missing, provider)) {
+            vectors.set(id, embedding);
+        }
+    }
+
+    const centroid = meanVector([...vectors.values()]);
+    if (!centroid) return null;
 
-    for (const article of sorted) {
-        if (assigned.has(article.id)) continue;
+    await supabase
+        .from('stories')
+        .update({ centroid: JSON.stringify(centroid), centroid_model: provider.id })
+        .eq('id', storyId);
 
-        // Start a new cluster with this article
-        const cluster: Cluster = { articles: [article], similarity: 1 };
-        assigned.add(article.id);
+    return centroid;
+}
 
-        // Find similar articles to add to this cluster
-        for (const candidate of sorted) {
-            if (assigned.has(candidate.id)) continue;
+/**
+ * Published stories still open for new articles, with centroids from the
+ * provider's model (stale centroids are recomputed, a few per run)
+ */
+async function getOpenStories(provider: EmbeddingProvider): Promise<OpenStory[]> {
+    const { data, error } = await supabase
+        .from('stories')
+        .select('id, source_count, centroid, centroid_model, pending_article_count, last_article_at')
+        .eq('status', 'published')
+        .is('closed_at', null)
+        .order('last_article_at', { ascending: false, nullsFirst: false })
+        .limit(MAX_OPEN_STORIES);
 
-            // Check similarity against all articles in cluster
-            const similarities = cluster.articles.map(a => calculateSimilarity(a, candidate));
-            const avgSimilarity = similarities.reduce((a, b) => a + b, 0) / similarities.length;
+    if (error) {
+        console.error('Error fetching open stories:', error);
+        return [];
+    }
 
-            if (avgSimilarity >= threshold) {
-                cluster.articles.push(candidate);
-                cluster.similarity = Math.min(cluster.similarity, avgSimilarity);
-                assigned.add(candidate.id);
+    const stories: OpenStory[] = [];
+    let refreshed = 0;
+
+    for (const row of data || []) {
+        let centroid = row.centroid_model === provider.id ? parseVector(row.centroid) : null;
+
+        if (!centroid && refreshed < CENTROID_REFRESH_LIMIT) {
+            refreshed++;
+            try {
+                centroid = await refreshCentroid(row.id, provider);
+            } catch (refreshError) {
+                console.error(`Error refreshing centroid for story ${row.id}:`, refreshError);
             }
         }
 
-        clusters.push(cluster);
+        if (centroid) {
+            stories.push({
+                id: row.id,
+                source_count: row.source_count || 0,
+                centroid,
+                pending_article_count: row.pending_article_count || 0,
+                last_article_at: row.last_article_at,
+            });
+        }
     }
 
-    return clusters;
+    return stories;
 }
 
 /**
- * Get recent articles that haven't been assigned to a story yet
+ * Newest published_at among articles (and an existing value)
  */
-async function getUnassignedArticles(hoursBack: number = 48): Promise<Article[]> {
-    const since = new Date(Date.now() - hoursBack * 60 * 60 * 1000).toISOString();
+function latestPublishedAt(articles: Article[], current: string | null = null): string | null {
+    return articles.reduce<string | null>(
+        (latest, a) => (!latest || a.published_at > latest ? a.published_at : latest),
+        current
+    );
+}
 
-    const { data, error } = await supabase
-        .from('articles')
-        .select('id, title, excerpt, url, published_at, image_url, news_sources(name)')
-        .gte('published_at', since)
-        .order('published_at', { ascending: false })
-        .limit(500);
+/**
+ * Link matched articles to their story and fold them into its centroid.
+ * Returns the story's pending article count afterwards, or null on failure.
+ */
+async function attachToStory(match: StoryMatch, provider: EmbeddingProvider): Promise<number | null> {
+    const { story } = match;
+    const articles = match.articles.map(m => m.article);
+
+    const { error: linkError } = await supabase.from('story_articles').insert(
+        match.articles.map(({ article, similarity }) => ({
+            story_id: story.id,
+            article_id: article.id,
+            relevance_score: similarity,
+        }))
+    );
+
+    if (linkError) {
+        console.error(`Error attaching articles to story ${story.id}:`, linkError);
+        return null;
+    }
+
+    const pending = story.pending_article_count + articles.length;
+    const centroid = extendCentroid(story.centroid, story.source_count, articles.map(a => a.embedding!));
+
+    const { error } = await supabase
+        .from('stories')
+        .update({
+            centroid: JSON.stringify(centroid),
+            centroid_model: provider.id,
+            pending_article_count: pending,
+            last_article_at: latestPublishedAt(articles, story.last_article_at),
+        })
+        .eq('id', story.id);
 
     if (error) {
-        console.error('Error fetching articles:', error);
-        return [];
+        console.error(`Error updating story ${story.id}:`, error);
     }
 
-    // Check which articles already have stories
-    const articleIds = data.map(a => a.id);
-    const { data: existingLinks } = await supabase
-        .from('story_articles')
-        .select('article_id')
-        .in('article_id', articleIds);
+    return pending;
+}
 
-    const assignedIds = new Set(existingLinks?.map(l => l.article_id) || []);
+// ============================================
+// Synthesis
+// ============================================
 
-    return data
-        .filter(a => !assignedIds.has(a.id))
-        .map(a => ({
-            id: a.id,
-            title: a.title,
-            excerpt: a.excerpt || '',
-            url: a.url,
-            source: (a.news_sources as any)?.name || 'Unknown',
-            published_at: a.published_at,
-            image_url: a.image_url,
-        }));
+/**
+ * Store a synthesis' entities, entity connections and sector impacts for a story
+ */
+async function saveSynthesisGraph(storyId: string, synthesis: SynthesisResult): Promise<void> {
+    // Save entities and create/link them
+    for (const entity of synthesis.entities) {
+        // Find or create entity
+        const { data: existingEntity } = await supabase
+            .from('entities')
+            .select('id')
+            .ilike('name', entity.name)
+            .single();
+
+        let entityId: string;
+
+        if (existingEntity) {
+            entityId = existingEntity.id;
+        } else {
+            const { data: newEntity } = await supabase
+                .from('entities')
+                .insert({
+                    name: entity.name,
+                    type: entity.type,
+                })
+                .select('id')
+                .single();
+
+            if (!newEntity) continue;
+            entityId = newEntity.id;
+        }
+
+        // Link entity to story
+        await supabase.from('story_entities').upsert({
+            story_id: storyId,
+            entity_id: entityId,
+            role: entity.role,
+            context: entity.context,
+        }, {
+            onConflict: 'story_id,entity_id'
+        });
+    }
+
+    // Save entity connections
+    for (const connection of synthesis.connections) {
+        // Find source and target entities by name
+        const { data: sourceEntity } = await supabase
+            .from('entities')
+            .select('id')
+            .ilike('name', connection.source)
+            .single();
+
+        const { data: targetEntity } = await supabase
+            .from('entities')
+            .select('id')
+            .ilike('name', connection.target)
+            .single();
+
+        if (sourceEntity && targetEntity) {
+            await supabase.from('entity_connections').upsert({
+                source_entity_id: sourceEntity.id,
+                target_entity_id: targetEntity.id,
+                relationship_type: connection.relationship,
+                relationship_label: connection.relationship.replace(/_/g, ' '),
+                strength: connection.strength,
+                evidence: connection.evidence,
+                story_id: storyId,
+            }, {
+                onConflict: 'source_entity_id,target_entity_id,relationship_type'
+            });
+        }
+    }
+
+    // Save impact predictions (a re-synthesis replaces the earlier prediction per sector)
+    const impactInserts = synthesis.impacts.map(impact => ({
+        story_id: storyId,
+        sector_id: impact.sector,
+        impact_type: impact.type,
+        severity: impact.severity,
+        prediction: impact.prediction,
+        confidence: impact.confidence,
+    }));
+
+    if (impactInserts.length > 0) {
+        await supabase.from('story_impacts').upsert(impactInserts, { onConflict: 'story_id,sector_id' });
+    }
 }
 
 /**
  * Create a story from a cluster of articles
  */
-async function createStoryFromCluster(cluster: Cluster): Promise<string | null> {
+async function createStoryFromCluster(cluster: Cluster, provider: EmbeddingProvider | null): Promise<string | null> {
     const { articles } = cluster;
 
-    // Allow single-article stories for standalone breaking news
     if (articles.length < 1) return null;
 
     try {
         // Generate synthesis using AI
         console.log(`Synthesizing ${articles.length} articles...`);
         const synthesis = await synthesizeArticles(articles);
+        const verification = verifySynthesis(synthesis.sections, articles);
 
         // Pick the best hero image
         const heroImage = articles.find(a => a.image_url)?.image_url;
 
+        // Centroid only when clustered by embeddings, so later articles can attach
+        const centroid = provider ? meanVector(articles.map(a => a.embedding!)) : null;
+        const now = new Date().toISOString();
+
         // Create the story
         const { data: story, error: storyError } = await supabase
             .from('stories')
@@ -209,9 +506,14 @@ async function createStoryFromCluster(cluster: Cluster): Promise<string | null>
                 title: synthesis.title,
                 summary: synthesis.summary,
                 synthesis: synthesis.sections,
+                verification,
                 hero_image_url: heroImage,
                 status: 'published',
-                published_at: new Date().toISOString(),
+                published_at: now,
+                synthesized_at: now,
+                last_article_at: latestPublishedAt(articles),
+                centroid: centroid ? JSON.stringify(centroid) : null,
+                centroid_model: centroid ? provider!.id : null,
             })
             .select('id')
             .single();
@@ -230,133 +532,172 @@ async function createStoryFromCluster(cluster: Cluster): Promise<string | null>
 
         await supabase.from('story_articles').insert(articleLinks);
 
-        // Save entities and create/link them
-        for (const entity of synthesis.entities) {
-            // Find or create entity
-            const { data: existingEntity } = await supabase
-                .from('entities')
-                .select('id')
-                .ilike('name', entity.name)
-                .single();
+        await saveSynthesisGraph(story.id, synthesis);
+        await recordStoryVersion(story.id, synthesis, verification, articles.map(a => a.id), 'created');
 
-            let entityId: string;
-
-            if (existingEntity) {
-                entityId = existingEntity.id;
-            } else {
-                const { data: newEntity } = await supabase
-                    .from('entities')
-                    .insert({
-                        name: entity.name,
-                        type: entity.type,
-                    })
-                    .select('id')
-                    .single();
-
-                if (!newEntity) continue;
-                entityId = newEntity.id;
-            }
+        console.log(`Created story: ${synthesis.title} (${story.id})`);
+        return story.id;
 
-            // Link entity to story
-            await supabase.from('story_entities').upsert({
-                story_id: story.id,
-                entity_id: entityId,
-                role: entity.role,
-                context: entity.context,
-            });
+    } catch (error) {
+        console.error('Error creating story from cluster:', error);
+        return null;
+    }
+}
+
+/**
+ * Regenerate a story's synthesis from all of its articles and reset its
+ * pending article count. When no model answered, the story keeps its
+ * synthesis and pending count so the next run tries again.
+ */
+async function resynthesizeStory(storyId: string): Promise<boolean> {
+    try {
+        const { data, error } = await supabase
+            .from('story_articles')
+            .select(`articles(${ARTICLE_COLUMNS})`)
+            .eq('story_id', storyId);
+
+        if (error || !data) {
+            console.error(`Error loading articles for story ${storyId}:`, error);
+            return false;
         }
 
-        // Save entity connections
-        for (const connection of synthesis.connections) {
-            // Find source and target entities by name
-            const { data: sourceEntity } = await supabase
-                .from('entities')
-                .select('id')
-                .ilike('name', connection.source)
-                .single();
+        const articles = data
+            .map(link => link.articles)
+            .filter(Boolean)
+            .map(toArticle)
+            .sort((a, b) => new Date(b.published_at).getTime() - new Date(a.published_at).getTime());
 
-            const { data: targetEntity } = await supabase
-                .from('entities')
-                .select('id')
-                .ilike('name', connection.target)
-                .single();
+        console.log(`Re-synthesizing story ${storyId} from ${articles.length} articles...`);
+        const synthesis = await synthesizeArticles(articles);
 
-            if (sourceEntity && targetEntity) {
-                await supabase.from('entity_connections').upsert({
-                    source_entity_id: sourceEntity.id,
-                    target_entity_id: targetEntity.id,
-                    relationship_type: connection.relationship,
-                    relationship_label: connection.relationship.replace(/_/g, ' '),
-                    strength: connection.strength,
-                    evidence: connection.evidence,
-                    story_id: story.id,
-                }, {
-                    onConflict: 'source_entity_id,target_entity_id,relationship_type'
-                });
-            }
+        if (synthesis.model === FALLBACK_MODEL) {
+            console.warn(`Keeping the current synthesis of story ${storyId}: no model was available`);
+            return false;
         }
 
-        // Save impact predictions
-        const impactInserts = synthesis.impacts.map(impact => ({
-            story_id: story.id,
-            sector_id: impact.sector,
-            impact_type: impact.type,
-            severity: impact.severity,
-            prediction: impact.prediction,
-            confidence: impact.confidence,
-        }));
+        const verification = verifySynthesis(synthesis.sections, articles);
+
+        const { error: updateError } = await supabase
+            .from('stories')
+            .update({
+                title: synthesis.title,
+                summary: synthesis.summary,
+                synthesis: synthesis.sections,
+                verification,
+                synthesized_at: new Date().toISOString(),
+                pending_article_count: 0,
+            })
+            .eq('id', storyId);
 
-        if (impactInserts.length > 0) {
-            await supabase.from('story_impacts').insert(impactInserts);
+        if (updateError) {
+            console.error(`Error updating synthesis for story ${storyId}:`, updateError);
+            return false;
         }
 
-        console.log(`Created story: ${synthesis.title} (${story.id})`);
-        return story.id;
+        await saveSynthesisGraph(storyId, synthesis);
+        await recordStoryVersion(storyId, synthesis, verification, articles.map(a => a.id), 'resynthesized');
+        return true;
 
     } catch (error) {
-        console.error('Error creating story from cluster:', error);
-        return null;
+        console.error(`Error re-synthesizing story ${storyId}:`, error);
+        return false;
     }
 }
 
-/**
- * Main clustering job - run periodically
- */
-export async function runClusteringJob(): Promise<{
+// ============================================
+// Job
+// ============================================
+
+export interface ClusteringJobResult {
     articlesProcessed: number;
+    articlesAttached: number;
     storiesCreated: number;
+    storiesResynthesized: number;
+    storiesClosed: number;
     clusters: number;
-}> {
+    method?: 'embedding' | 'lexical';
+}
+
+/**
+ * Main clustering job - run periodically. Closes quiet stories, attaches new
+ * articles to open stories they match, re-synthesizes stories that gathered
+ * enough new articles and clusters the rest into new stories.
+ */
+export async function runClusteringJob(): Promise<ClusteringJobResult> {
     console.log('Starting clustering job...');
 
+    const result: ClusteringJobResult = {
+        articlesProcessed: 0,
+        articlesAttached: 0,
+        storiesCreated: 0,
+        storiesResynthesized: 0,
+        storiesClosed: await closeInactiveStories(env.STORY_INACTIVITY_HOURS),
+        clusters: 0,
+    };
+
     // Get unassigned articles from last 30 days (720 hours)
     const articles = await getUnassignedArticles(720);
     console.log(`Found ${articles.length} unassigned articles`);
 
-    if (articles.length < 2) {
-        return { articlesProcessed: 0, storiesCreated: 0, clusters: 0 };
+    if (articles.length === 0) {
+        return result;
     }
 
-    // Cluster by similarity (lower threshold to group more articles)
-    const clusters = clusterArticles(articles, 0.20);
-    console.log(`Formed ${clusters.length} clusters`);
+    result.articlesProcessed = articles.length;
+
+    const provider = getEmbeddingProvider();
+    result.method = await ensureEmbeddings(articles, provider) ? 'embedding' : 'lexical';
 
-    // Allow single-article stories too for breaking news
-    const validClusters = clusters.filter(c => c.articles.length >= 1);
-    console.log(`${validClusters.length} clusters have 1+ articles`);
+    // Follow-ups join the open story they match (needs centroids, so embedding runs only)
+    let remaining = articles;
+    if (result.method === 'embedding') {
+        const openStories = await getOpenStories(provider);
+        const { matches, unmatched } = matchArticlesToStories(articles, openStories, provider.clusterThreshold);
+        remaining = unmatched;
+
+        const due = new Set(
+            openStories.filter(s => s.pending_article_count >= env.STORY_RESYNTHESIS_ARTICLES).map(s => s.id)
+        );
+
+        for (const match of matches) {
+            const pending = await attachToStory(match, provider);
+            if (pending === null) continue;
+
+            result.articlesAttached += match.articles.length;
+            if (pending >= env.STORY_RESYNTHESIS_ARTICLES) due.add(match.story.id);
+        }
+
+        for (const storyId of due) {
+            if (await resynthesizeStory(storyId)) result.storiesResynthesized++;
+        }
+
+        console.log(`Attached ${result.articlesAttached} articles to ${matches.length} open stories`);
+    }
+
+    // Cluster the rest by embedding similarity, or lexically
+    const clusters = clusterArticles(remaining, clusterOptions(result.method, provider));
+    console.log(`Formed ${clusters.length} clusters (${result.method} similarity)`);
+
+    // Lone articles wait for a follow-up rather than becoming stories of their own
+    const validClusters = clusters.filter(c => c.articles.length >= env.STORY_MIN_ARTICLES);
+    console.log(`${validClusters.length} clusters have ${env.STORY_MIN_ARTICLES}+ articles`);
+    result.clusters = validClusters.length;
 
     // Create stories from valid clusters
-    let storiesCreated = 0;
     for (const cluster of validClusters) {
-        const storyId = await createStoryFromCluster(cluster);
-        if (storyId) storiesCreated++;
+        const storyId = await createStoryFromCluster(cluster, result.method === 'embedding' ? provider : null);
+        if (storyId) result.storiesCreated++;
     }
 
-    return {
-        articlesProcessed: articles.length,
-        storiesCreated,
-        clusters: validClusters.length,
-    };
+    return result;
 }
 
-export { clusterArticles, calculateSimilarity, getUnassignedArticles };
+export {
+    clusterArticles,
+    extendCentroid,
+    getUnassignedArticles,
+    matchArticlesToStories,
+    meanVector,
+    resynthesizeStory,
+    tokenize,
+};
@@ -0,0 +1,79 @@
+/**
+ * Job Handlers
+ *
+ * Ingestion, content extraction, AI processing and clustering as queue job types. Handlers run
+ * in-process on whichever instance leases the job; throwing schedules a retry.
+ */
+
+import { registerJobHandler } from './queue.js';
+import { runClusteringJob } from './clustering.js';
+import { listActiveProfiles } from '../ingest/profiles.js';
+import { ingestProfiles, summarizeProfileRuns } from '../ingest/pipeline.js';
+import { runContentExtractionJob } from '../ingest/content.js';
+import { processUnanalyzedArticles } from '../ai/groq.js';
+import { purgeExpiredCompletions } from '../ai/llmCache.js';
+
+export interface IngestJobPayload {
+    slotMinutes?: number;
+    profiles?: string[];
+}
+
+export interface ContentJobPayload {
+    limit?: number;
+}
+
+export interface ProcessJobPayload {
+    limit?: number;
+}
+
+registerJobHandler('ingest', async (job) => {
+    const { slotMinutes, profiles: names } = job.payload as IngestJobPayload;
+
+    const profiles = await listActiveProfiles(names);
+    if (profiles.length === 0) {
+        return { message: 'No active ingestion profiles' };
+    }
+
+    const { results, totalStored, message } = summarizeProfileRuns(
+        await ingestProfiles(profiles, { slotMinutes })
+    );
+
+    return { message, itemsProcessed: totalStored, result: results };
+});
+
+registerJobHandler('content', async (job) => {
+    const { limit = 20 } = job.payload as ContentJobPayload;
+    // New articles and failed extractions whose retry is due
+    const summary = await runContentExtractionJob(limit);
+
+    return {
+        message: `Extracted ${summary.extracted}/${summary.attempted} (paywalled ${summary.paywalled}, failed ${summary.failed})`,
+        itemsProcessed: summary.extracted,
+        result: summary,
+    };
+});
+
+registerJobHandler('process', async (job) => {
+    const { limit = 10 } = job.payload as ProcessJobPayload;
+    const { results, ...summary } = await processUnanalyzedArticles(limit);
+
+    return {
+        message: `Processed ${summary.processed}/${summary.attempted} articles`
+            + (summary.quotaExhausted ? ' (Groq quota exhausted)' : ''),
+        itemsProcessed: summary.processed,
+        result: summary,
+    };
+});
+
+registerJobHandler('cluster', async () => {
+    const result = await runClusteringJob();
+    // Clustering is scheduled by default and writes most cached replies, so it clears expired ones
+    await purgeExpiredCompletions();
+
+    return {
+        message: `Clustered ${result.articlesProcessed} articles: attached ${result.articlesAttached} to open stories, `
+            + `created ${result.storiesCreated} stories, re-synthesized ${result.storiesResynthesized}, closed ${result.storiesClosed}`,
+        itemsProcessed: result.storiesCreated + result.articlesAttached,
+        result,
+    };
+});
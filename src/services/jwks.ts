@@ -0,0 +1,90 @@
+/**
+ * JWKS Key Cache
+ *
+ * Resolves JWT signing keys by `kid` from a JSON Web Key Set, caching them so
+ * token verification stays local. The set is refetched when it goes stale or
+ * when a token names an unknown `kid` (key rotation), at most once per
+ * `minRefreshIntervalMs` so forged kids cannot hammer the auth server.
+ */
+
+import { createPublicKey, webcrypto } from 'node:crypto';
+import { HttpFetcher } from '../ingest/types.js';
+
+export interface JwksOptions {
+    ttlMs?: number;
+    minRefreshIntervalMs?: number;
+    fetcher?: HttpFetcher;
+}
+
+export type JwksKeyResolver = (kid: string | undefined) => Promise<string>;
+
+interface Jwk extends webcrypto.JsonWebKey {
+    kid?: string;
+    use?: string;
+}
+
+/**
+ * PEM public keys by kid; keys meant for encryption are skipped
+ */
+export function parseJwks(body: { keys?: Jwk[] }): Map<string, string> {
+    const keys = new Map<string, string>();
+
+    for (const jwk of body.keys || []) {
+        if (jwk.use && jwk.use !== 'sig') continue;
+        try {
+            const pem = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' });
+            keys.set(jwk.kid || '', pem.toString());
+        } catch (error) {
+            console.warn(`Skipping unusable JWK ${jwk.kid || '(no kid)'}:`, error);
+        }
+    }
+
+    return keys;
+}
+
+export function createJwksResolver(url: string, options: JwksOptions = {}): JwksKeyResolver {
+    const { ttlMs = 10 * 60000, minRefreshIntervalMs = 60000, fetcher = fetch } = options;
+
+    let keys = new Map<string, string>();
+    let fetchedAt = 0;
+    let inflight: Promise<void> | null = null;
+
+    async function refresh(): Promise<void> {
+        inflight ??= (async () => {
+            try {
+                const response = await fetcher(url);
+                if (!response.ok) {
+                    throw new Error(`JWKS fetch error: ${response.status}`);
+                }
+                keys = parseJwks(await response.json() as { keys?: Jwk[] });
+                fetchedAt = Date.now();
+            } finally {
+                inflight = null;
+            }
+        })();
+        return inflight;
+    }
+
+    return async (kid) => {
+        const age = Date.now() - fetchedAt;
+        const known = keys.has(kid || '');
+
+        if (fetchedAt === 0 || age > ttlMs || (!known && age >= minRefreshIntervalMs)) {
+            try {
+                await refresh();
+            } catch (error) {
+                // Keep verifying with the keys we have while the auth server is unreachable
+                if (keys.size === 0) throw error;
+                console.warn('JWKS refresh failed, using cached keys:', error);
+            }
+        }
+
+        // Tokens without a kid are accepted when the set has exactly one key
+        const key = kid ? keys.get(kid) : (keys.size === 1 ? [...keys.values()][0] : undefined);
+        if (!key) {
+            throw new Error(`Unknown signing key: ${kid || '(no kid)'}`);
+        }
+
+        return key;
+    };
+}
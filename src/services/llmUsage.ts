@@ -0,0 +1,124 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Every LLM call (cache hits included) is added to `llm_usage`: calls,
+ * failures, cache hits, prompt and completion tokens and total latency per
+ * UTC day, job type (analysis, synthesis, summary), provider and model.
+ * Read back for /api/ai/stats.
+ */
+
+import { supabase } from '../config/database.js';
+
+export interface LLMCallRecord {
+    jobType: string;
+    provider: string;
+    model: string;
+    cacheHit?: boolean;
+    failed?: boolean;
+    promptTokens?: number;
+    completionTokens?: number;
+    latencyMs?: number;
+}
+
+export interface LLMUsageRow {
+    date: string;
+    job_type: string;
+    provider: string;
+    model: string;
+    calls: number;
+    failures: number;
+    cache_hits: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    latency_ms: number;
+}
+
+export interface LLMUsageTotals {
+    calls: number;
+    failures: number;
+    cache_hits: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    avg_latency_ms: number | null;     // Per provider call; cache hits excluded
+}
+
+export interface LLMUsageReport {
+    since: string;
+    by_job_type: Record<string, LLMUsageTotals>;
+    daily: Array<Pick<LLMUsageRow, 'date' | 'job_type' | 'provider' | 'model'> & LLMUsageTotals>;
+}
+
+/**
+ * Add one call to today's totals. Never throws: accounting failures must
+ * not break the call that was already made.
+ */
+export async function recordLLMCall(call: LLMCallRecord): Promise<void> {
+    const { error } = await supabase.rpc('record_llm_call', {
+        p_job_type: call.jobType,
+        p_provider: call.provider,
+        p_model: call.model,
+        p_cache_hit: call.cacheHit ?? false,
+        p_failed: call.failed ?? false,
+        p_prompt_tokens: call.promptTokens ?? 0,
+        p_completion_tokens: call.completionTokens ?? 0,
+        p_latency_ms: Math.round(call.latencyMs ?? 0),
+    });
+
+    if (error) {
+        console.error(`Error recording LLM usage for ${call.jobType}:`, error);
+    }
+}
+
+function totals(rows: LLMUsageRow[]): LLMUsageTotals {
+    const sum = (pick: (row: LLMUsageRow) => number) => rows.reduce((total, row) => total + Number(pick(row) || 0), 0);
+    const calls = sum(row => row.calls);
+    const promptTokens = sum(row => row.prompt_tokens);
+    const completionTokens = sum(row => row.completion_tokens);
+
+    return {
+        calls,
+        failures: sum(row => row.failures),
+        cache_hits: sum(row => row.cache_hits),
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+        avg_latency_ms: calls > 0 ? Math.round(sum(row => row.latency_ms) / calls) : null,
+    };
+}
+
+/**
+ * Totals per job type, and per day/job type/provider/model, newest day first
+ */
+export function summarizeLLMUsage(rows: LLMUsageRow[], since: string): LLMUsageReport {
+    const byJobType = new Map<string, LLMUsageRow[]>();
+    for (const row of rows) {
+        byJobType.set(row.job_type, [...(byJobType.get(row.job_type) || []), row]);
+    }
+
+    return {
+        since,
+        by_job_type: Object.fromEntries([...byJobType].map(([jobType, jobRows]) => [jobType, totals(jobRows)])),
+        daily: [...rows]
+            .sort((a, b) => b.date.localeCompare(a.date) || a.job_type.localeCompare(b.job_type))
+            .map(row => ({ date: row.date, job_type: row.job_type, provider: row.provider, model: row.model, ...totals([row]) })),
+    };
+}
+
+/**
+ * Usage over the last `days` UTC days, today included (empty when the
+ * totals can't be read)
+ */
+export async function getLLMUsage(days: number = 7): Promise<LLMUsageReport> {
+    const since = new Date(Date.now() - (days - 1) * 86400000).toISOString().split('T')[0];
+
+    const { data, error } = await supabase
+        .from('llm_usage')
+        .select('date, job_type, provider, model, calls, failures, cache_hits, prompt_tokens, completion_tokens, latency_ms')
+        .gte('date', since);
+
+    if (error) {
+        console.error('Error reading LLM usage:', error);
+    }
+    return summarizeLLMUsage(data || [], since);
+}
@@ -0,0 +1,133 @@
+/**
+ * Keyset Pagination
+ *
+ * Opaque cursors for list endpoints. A cursor records the sort column value
+ * and id of the last row on a page, and the next page starts strictly after
+ * that row, so rows published while a client scrolls never shift or repeat
+ * items the way offsets do. Lists sort by (column, id) with nulls last.
+ */
+
+export interface KeysetOrder {
+    column: string;
+    ascending?: boolean;
+}
+
+interface CursorPayload {
+    c: string;                          // sort column, so cursors can't cross endpoints
+    v: string | number | null;          // sort column value of the last row
+    id: string;
+}
+
+export interface Page<T> {
+    data: T[];
+    next_cursor: string | null;
+    total: number | null;               // only counted on the first page
+}
+
+// Minimal query builder surface (Supabase's filter builder satisfies it)
+interface KeysetQuery<Q> {
+    order(column: string, options: { ascending: boolean; nullsFirst: boolean }): Q;
+    or(filters: string): Q;
+    limit(count: number): Q;
+}
+
+export class InvalidCursorError extends Error {
+    statusCode = 400;
+
+    constructor() {
+        super('Invalid cursor');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+export function encodeCursor(order: KeysetOrder, row: Record<string, unknown>): string {
+    const value = row[order.column];
+    const payload: CursorPayload = {
+        c: order.column,
+        v: typeof value === 'number' || typeof value === 'string' ? value : null,
+        id: String(row.id),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(order: KeysetOrder, cursor: string): CursorPayload {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    if (!payload || payload.c !== order.column || typeof payload.id !== 'string'
+        || !(payload.v === null || typeof payload.v === 'string' || typeof payload.v === 'number')) {
+        throw new InvalidCursorError();
+    }
+    return payload;
+}
+
+/**
+ * PostgREST value, quoted so commas and parentheses in names survive or() parsing
+ */
+function quote(value: string | number): string {
+    return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * or() filter selecting rows after the cursor row in (column, id) order, nulls last
+ */
+export function keysetFilter(order: KeysetOrder, cursor: CursorPayload): string {
+    const op = order.ascending ? 'gt' : 'lt';
+    const { c: column, v: value } = cursor;
+    const id = quote(cursor.id);
+
+    if (value === null) {
+        return `and(${column}.is.null,id.${op}.${id})`;
+    }
+
+    return [
+        `${column}.${op}.${quote(value)}`,
+        `and(${column}.eq.${quote(value)},id.${op}.${id})`,
+        `${column}.is.null`,
+    ].join(',');
+}
+
+/**
+ * Order by (column, id), start after the cursor and fetch one extra row to
+ * tell whether another page exists
+ */
+export function applyKeyset<Q extends KeysetQuery<Q>>(
+    query: Q,
+    order: KeysetOrder,
+    limit: number,
+    cursor?: string
+): Q {
+    const ascending = order.ascending ?? false;
+    let keyed = query
+        .order(order.column, { ascending, nullsFirst: false })
+        .order('id', { ascending, nullsFirst: false });
+
+    if (cursor) {
+        keyed = keyed.or(keysetFilter(order, decodeCursor(order, cursor)));
+    }
+
+    return keyed.limit(limit + 1);
+}
+
+/**
+ * Trim the extra row fetched by applyKeyset and build the envelope
+ */
+export function toPage<T extends Record<string, unknown>>(
+    rows: T[] | null,
+    order: KeysetOrder,
+    limit: number,
+    total: number | null = null
+): Page<T> {
+    const data = (rows || []).slice(0, limit);
+    const hasMore = (rows || []).length > limit;
+
+    return {
+        data,
+        next_cursor: hasMore && data.length > 0 ? encodeCursor(order, data[data.length - 1]) : null,
+        total,
+    };
+}
@@ -0,0 +1,272 @@
+/**
+ * Job Queue Service
+ *
+ * Postgres-backed queue on top of `job_logs`: jobs are enqueued as `queued`
+ * rows, leased by one worker at a time (SKIP LOCKED, see `lease_job`), kept
+ * alive with heartbeats, retried with exponential backoff and dead-lettered
+ * after `max_attempts`. Finished rows stay behind as the job history.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { supabase } from '../config/database.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface Job<TPayload = Record<string, unknown>> {
+    id: string;
+    job_type: string;
+    status: JobStatus;
+    payload: TPayload;
+    result: unknown;
+    message: string | null;
+    items_processed: number;
+    attempts: number;
+    max_attempts: number;
+    run_at: string;
+    enqueued_at: string | null;
+    started_at: string | null;
+    completed_at: string | null;
+    locked_by: string | null;
+    locked_until: string | null;
+    heartbeat_at: string | null;
+    last_error: string | null;
+    dedupe_key: string | null;
+}
+
+export interface JobOutcome {
+    message: string;
+    itemsProcessed?: number;
+    result?: unknown;
+}
+
+export type JobHandler = (job: Job<any>) => Promise<JobOutcome>;
+
+export interface EnqueueOptions {
+    runAt?: Date;
+    maxAttempts?: number;
+    // Only one queued/running job may hold a key; later enqueues are dropped
+    dedupeKey?: string;
+}
+
+// Lease length; heartbeats renew it every third of that while a handler runs
+const LEASE_SECONDS = 300;
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60_000;
+
+const handlers = new Map<string, JobHandler>();
+
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export function registerJobHandler(jobType: string, handler: JobHandler): void {
+    if (handlers.has(jobType)) {
+        throw new Error(`Job handler already registered: ${jobType}`);
+    }
+    handlers.set(jobType, handler);
+}
+
+export function listJobTypes(): string[] {
+    return Array.from(handlers.keys());
+}
+
+/**
+ * Delay before retry number `attempts` (30s, 1m, 2m, ... capped at 1h)
+ */
+export function backoffDelay(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Add a job to the queue; returns null when the dedupe key is already pending
+ */
+export async function enqueueJob(
+    jobType: string,
+    payload: Record<string, unknown> = {},
+    options: EnqueueOptions = {}
+): Promise<Job | null> {
+    const { data, error } = await supabase
+        .from('job_logs')
+        .insert({
+            job_type: jobType,
+            status: 'queued',
+            payload,
+            run_at: (options.runAt || new Date()).toISOString(),
+            max_attempts: options.maxAttempts ?? 3,
+            dedupe_key: options.dedupeKey || null,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        // 23505 = unique_violation on the pending dedupe_key index
+        if (error.code === '23505') return null;
+        throw new Error(`Failed to enqueue ${jobType} job: ${error.message}`);
+    }
+
+    return data as Job;
+}
+
+/**
+ * Lease the next due job of a registered type, if any
+ */
+export async function leaseJob(workerId: string = WORKER_ID): Promise<Job | null> {
+    const { data, error } = await supabase.rpc('lease_job', {
+        p_worker: workerId,
+        p_lease_seconds: LEASE_SECONDS,
+        p_job_types: listJobTypes(),
+    });
+
+    if (error) {
+        throw new Error(`Failed to lease job: ${error.message}`);
+    }
+
+    return ((data as Job[] | null) || [])[0] || null;
+}
+
+/**
+ * Extend a lease; false means another worker has taken the job over
+ */
+export async function heartbeatJob(job: Job, workerId: string = WORKER_ID): Promise<boolean> {
+    const { data, error } = await supabase.rpc('heartbeat_job', {
+        p_id: job.id,
+        p_worker: workerId,
+        p_lease_seconds: LEASE_SECONDS,
+    });
+
+    if (error) {
+        console.error(`[Queue] Heartbeat failed for job ${job.id}:`, error);
+        return true;
+    }
+
+    return Boolean(data);
+}
+
+export async function completeJob(job: Job, outcome: JobOutcome, workerId: string = WORKER_ID): Promise<void> {
+    const { error } = await supabase
+        .from('job_logs')
+        .update({
+            status: 'completed',
+            message: outcome.message,
+            items_processed: outcome.itemsProcessed || 0,
+            result: outcome.result ?? null,
+            completed_at: new Date().toISOString(),
+            locked_by: null,
+            locked_until: null,
+        })
+        .eq('id', job.id)
+        .eq('locked_by', workerId);
+
+    if (error) {
+        console.error(`[Queue] Failed to complete job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Schedule a retry with backoff, or dead-letter the job once out of attempts
+ */
+export async function failJob(job: Job, failure: unknown, workerId: string = WORKER_ID): Promise<void> {
+    const message = failure instanceof Error ? failure.message : String(failure);
+    const dead = job.attempts >= job.max_attempts;
+
+    const { error } = await supabase
+        .from('job_logs')
+        .update({
+            status: dead ? 'dead' : 'queued',
+            last_error: message,
+            message: dead ? `Failed after ${job.attempts} attempts: ${message}` : `Attempt ${job.attempts} failed: ${message}`,
+            run_at: dead ? job.run_at : new Date(Date.now() + backoffDelay(job.attempts)).toISOString(),
+            completed_at: dead ? new Date().toISOString() : null,
+            locked_by: null,
+            locked_until: null,
+        })
+        .eq('id', job.id)
+        .eq('locked_by', workerId);
+
+    if (error) {
+        console.error(`[Queue] Failed to record failure for job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Run a leased job's handler with heartbeats and record the outcome
+ */
+export async function runJob(job: Job, workerId: string = WORKER_ID): Promise<void> {
+    const handler = handlers.get(job.job_type);
+
+    if (!handler) {
+        await failJob({ ...job, attempts: job.max_attempts }, new Error(`No handler for job type ${job.job_type}`), workerId);
+        return;
+    }
+
+    // Handlers cannot be interrupted, so a lost lease is only reported; the
+    // completion update below is then ignored because locked_by no longer matches
+    const heartbeat = setInterval(async () => {
+        if (!await heartbeatJob(job, workerId)) {
+            console.warn(`[Queue] Lost lease on job ${job.id} (${job.job_type})`);
+        }
+    }, (LEASE_SECONDS * 1000) / 3);
+
+    try {
+        const outcome = await handler(job);
+        await completeJob(job, outcome, workerId);
+        console.log(`[Queue] ${job.job_type} job ${job.id} completed: ${outcome.message}`);
+    } catch (error) {
+        console.error(`[Queue] ${job.job_type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+        await failJob(job, error, workerId);
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+let stopping = false;
+
+/**
+ * Poll for due jobs and run them one at a time in this process
+ */
+export function startJobWorker(pollIntervalMs: number = 5000): void {
+    if (workerTimer || currentRun) return;
+    stopping = false;
+
+    const poll = async () => {
+        workerTimer = null;
+        if (stopping) return;
+
+        try {
+            // Drain everything due before sleeping again
+            let job = await leaseJob();
+            while (job && !stopping) {
+                try {
+                    currentRun = runJob(job);
+                    await currentRun;
+                } finally {
+                    currentRun = null;
+                }
+                job = stopping ? null : await leaseJob();
+            }
+        } catch (error) {
+            console.error('[Queue] Worker poll error:', error);
+        }
+
+        if (!stopping) {
+            workerTimer = setTimeout(poll, pollIntervalMs);
+        }
+    };
+
+    console.log(`[Queue] Worker ${WORKER_ID} polling every ${pollIntervalMs}ms`);
+    workerTimer = setTimeout(poll, 0);
+}
+
+/**
+ * Stop polling and wait for the job in progress, if any, to finish
+ */
+export async function stopJobWorker(): Promise<void> {
+    stopping = true;
+    if (workerTimer) {
+        clearTimeout(workerTimer);
+        workerTimer = null;
+    }
+    await currentRun;
+}
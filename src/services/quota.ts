@@ -0,0 +1,146 @@
+/**
+ * API Quota Service
+ *
+ * Tracks per-provider daily request usage in `api_quota_usage`, refuses calls
+ * once a provider's daily limit is (nearly) spent, spaces out calls to respect
+ * per-minute limits, and splits the remaining daily budget across scheduler runs.
+ */
+
+import { supabase } from '../config/database.js';
+
+export interface ServiceQuota {
+    dailyLimit: number | null;   // null = unmetered
+    requestsPerMinute?: number;
+}
+
+// Quotas for metered services that are not news source adapters
+export const SERVICE_QUOTAS: Record<string, ServiceQuota> = {
+    // Free tier for llama-3.3-70b-versatile
+    groq: { dailyLimit: 1000, requestsPerMinute: 30 },
+    // Free tier for gemini-2.0-flash, the fallback model
+    gemini: { dailyLimit: 1500, requestsPerMinute: 15 },
+    // Jina bills tokens rather than requests; requests are counted for visibility
+    jina: { dailyLimit: null, requestsPerMinute: 60 },
+};
+
+// Share of the daily limit held back for manual runs once usage gets close
+const RESERVE_RATIO = 0.05;
+
+export class QuotaExceededError extends Error {
+    constructor(public service: string, public used: number, public dailyLimit: number) {
+        super(`Daily quota exhausted for ${service} (${used}/${dailyLimit})`);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+function today(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Requests used today for a service
+ */
+export async function getUsage(service: string): Promise<number> {
+    const { data, error } = await supabase
+        .from('api_quota_usage')
+        .select('requests_used')
+        .eq('service', service)
+        .eq('date', today())
+        .maybeSingle();
+
+    if (error) {
+        console.error(`Error reading quota usage for ${service}:`, error);
+        return 0;
+    }
+
+    return data?.requests_used || 0;
+}
+
+/**
+ * Requests still available today (Infinity for unmetered services)
+ */
+export async function getRemaining(service: string, quota: ServiceQuota): Promise<number> {
+    if (quota.dailyLimit === null) return Infinity;
+    return Math.max(0, quota.dailyLimit - await getUsage(service));
+}
+
+/**
+ * Throw if a call would dip into the reserve (or past the limit)
+ */
+export async function assertQuota(
+    service: string,
+    quota: ServiceQuota,
+    options: { needed?: number; useReserve?: boolean } = {}
+): Promise<void> {
+    if (quota.dailyLimit === null) return;
+
+    const { needed = 1, useReserve = false } = options;
+    const used = await getUsage(service);
+    const reserve = useReserve ? 0 : Math.ceil(quota.dailyLimit * RESERVE_RATIO);
+
+    if (used + needed > quota.dailyLimit - reserve) {
+        throw new QuotaExceededError(service, used, quota.dailyLimit);
+    }
+}
+
+/**
+ * Count requests against today's usage. Never throws: accounting failures
+ * must not break the call that was already made.
+ */
+export async function recordUsage(service: string, quota: ServiceQuota, amount: number = 1): Promise<void> {
+    const { error } = await supabase.rpc('increment_api_usage', {
+        p_service: service,
+        p_amount: amount,
+        p_daily_limit: quota.dailyLimit,
+    });
+
+    if (error) {
+        console.error(`Error recording quota usage for ${service}:`, error);
+    }
+}
+
+const lastCallAt = new Map<string, number>();
+
+/**
+ * Wait long enough since the previous call to stay under requestsPerMinute
+ */
+export async function throttle(service: string, quota: ServiceQuota): Promise<void> {
+    if (!quota.requestsPerMinute) return;
+
+    const interval = 60000 / quota.requestsPerMinute;
+    const wait = (lastCallAt.get(service) || 0) + interval - Date.now();
+
+    if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    lastCallAt.set(service, Date.now());
+}
+
+/**
+ * Requests a scheduled run may spend so the remaining budget lasts until the
+ * end of the UTC day, given the scheduler fires every `slotMinutes`
+ */
+export async function getRunBudget(
+    service: string,
+    quota: ServiceQuota,
+    slotMinutes: number,
+    now: Date = new Date()
+): Promise<number> {
+    const remaining = await getRemaining(service, quota);
+    if (!Number.isFinite(remaining)) return Infinity;
+
+    return splitBudget(remaining - Math.ceil((quota.dailyLimit || 0) * RESERVE_RATIO), slotMinutes, now);
+}
+
+/**
+ * Even share of a remaining budget for the current slot
+ */
+export function splitBudget(remaining: number, slotMinutes: number, now: Date = new Date()): number {
+    if (remaining <= 0) return 0;
+
+    const endOfDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    const slotsLeft = Math.max(1, Math.ceil((endOfDay - now.getTime()) / (slotMinutes * 60000)));
+
+    return Math.floor(remaining / slotsLeft);
+}
@@ -1,157 +1,268 @@
 /**
  * Scheduler Service
- * 
- * Runs periodic jobs for news ingestion and story clustering.
- * Uses node-cron for scheduling.
+ *
+ * Enqueues periodic jobs on the durable job queue according to the
+ * schedules stored in `job_schedules`, and starts this instance's queue
+ * worker. Uses node-cron for scheduling; every instance may fire the same
+ * tick because the tick's dedupe key lets only one enqueue through.
+ * Schedules are re-read every minute so edits made through another
+ * instance's admin API take effect everywhere.
  */
 
 import cron from 'node-cron';
-import { runClusteringJob } from './clustering.js';
-
-// Track job status
-const jobStatus = {
-    ingestion: {
-        lastRun: null as Date | null,
-        isRunning: false,
-        lastResult: null as any,
-    },
-    clustering: {
-        lastRun: null as Date | null,
-        isRunning: false,
-        lastResult: null as any,
-    },
-};
+import { enqueueJob, Job, listJobTypes, startJobWorker, stopJobWorker } from './queue.js';
+import { supabase } from '../config/database.js';
+import './jobs.js';
+
+export interface JobSchedule {
+    job_type: string;
+    cron_expression: string;
+    payload: Record<string, unknown>;
+    is_paused: boolean;
+    updated_at?: string;
+}
+
+// Used when the schedules table is empty or unreachable
+const DEFAULT_SCHEDULES: JobSchedule[] = [
+    // News ingestion: Every hour, paced against the remaining daily quota
+    // (slotMinutes should match the cron interval)
+    { job_type: 'ingest', cron_expression: '0 * * * *', payload: { slotMinutes: 60 }, is_paused: false },
+    // Full-text extraction: Every hour at :20, after ingestion (publisher pages are unmetered)
+    { job_type: 'content', cron_expression: '20 * * * *', payload: { limit: 20 }, is_paused: false },
+    // Story clustering: Every 4 hours at :30 (after ingestion has time to complete)
+    { job_type: 'cluster', cron_expression: '30 */4 * * *', payload: {}, is_paused: false },
+    // AI processing: off until enabled, since it spends the Groq quota
+    { job_type: 'process', cron_expression: '15 * * * *', payload: { limit: 10 }, is_paused: true },
+];
+
+const SYNC_INTERVAL_MS = 60000;
+
+export class InvalidScheduleError extends Error {
+    constructor(public cronExpression: string) {
+        super(`Invalid cron expression: ${cronExpression}`);
+        this.name = 'InvalidScheduleError';
+    }
+}
+
+interface ActiveTask {
+    schedule: JobSchedule;
+    task: cron.ScheduledTask | null;   // null while paused
+}
+
+const active = new Map<string, ActiveTask>();
+let syncTimer: NodeJS.Timeout | null = null;
 
 /**
- * Run news ingestion from all configured sources
+ * Minute-precision key shared by every instance firing the same cron tick
  */
-async function runIngestionJob() {
-    if (jobStatus.ingestion.isRunning) {
-        console.log('[Scheduler] Ingestion job already running, skipping...');
-        return;
-    }
+function tickKey(jobType: string, now: Date = new Date()): string {
+    return `${jobType}:${now.toISOString().slice(0, 16)}`;
+}
 
-    console.log('[Scheduler] Starting ingestion job...');
-    jobStatus.ingestion.isRunning = true;
-    jobStatus.ingestion.lastRun = new Date();
-
-    try {
-        // Dynamically import to avoid circular dependencies
-        const baseUrl = process.env.RENDER_EXTERNAL_URL || `http://localhost:${process.env.PORT || 8080}`;
-
-        // Trigger ingestion via internal API call
-        const response = await fetch(`${baseUrl}/api/ingest/all`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({}),
-        });
-
-        const result = await response.json();
-        jobStatus.ingestion.lastResult = result;
-        console.log('[Scheduler] Ingestion completed:', result);
-
-    } catch (error) {
-        console.error('[Scheduler] Ingestion error:', error);
-        jobStatus.ingestion.lastResult = { error: String(error) };
-    } finally {
-        jobStatus.ingestion.isRunning = false;
+/**
+ * Stored schedules, falling back to the defaults for job types without a row
+ */
+export async function listSchedules(): Promise<JobSchedule[]> {
+    const { data, error } = await supabase
+        .from('job_schedules')
+        .select('job_type, cron_expression, payload, is_paused, updated_at');
+
+    if (error) {
+        console.error('[Scheduler] Error reading job schedules:', error);
     }
+
+    const stored = new Map(((data || []) as JobSchedule[]).map((row) => [row.job_type, row]));
+    return DEFAULT_SCHEDULES.map((fallback) => stored.get(fallback.job_type) || fallback);
+}
+
+export async function getSchedule(jobType: string): Promise<JobSchedule | undefined> {
+    return (await listSchedules()).find((schedule) => schedule.job_type === jobType);
 }
 
 /**
- * Run story clustering job
+ * Queue a job now, merging payload overrides into the job type's scheduled payload
  */
-async function runClusteringJobWrapper() {
-    if (jobStatus.clustering.isRunning) {
-        console.log('[Scheduler] Clustering job already running, skipping...');
-        return;
-    }
+export async function triggerJob(jobType: string, payload: Record<string, unknown> = {}): Promise<Job | null> {
+    const schedule = await getSchedule(jobType);
+    return enqueueJob(jobType, { ...(schedule?.payload || {}), ...payload });
+}
+
+/**
+ * Start, restart or stop local cron tasks so they match the given schedules
+ */
+function reconcile(schedules: JobSchedule[]): void {
+    for (const schedule of schedules) {
+        const current = active.get(schedule.job_type);
+        if (current
+            && current.schedule.cron_expression === schedule.cron_expression
+            && current.schedule.is_paused === schedule.is_paused) {
+            current.schedule = schedule;
+            continue;
+        }
+
+        current?.task?.stop();
 
-    console.log('[Scheduler] Starting clustering job...');
-    jobStatus.clustering.isRunning = true;
-    jobStatus.clustering.lastRun = new Date();
+        if (!cron.validate(schedule.cron_expression)) {
+            console.error(`[Scheduler] Invalid cron expression for ${schedule.job_type}: ${schedule.cron_expression}`);
+            active.set(schedule.job_type, { schedule, task: null });
+            continue;
+        }
 
-    try {
-        const result = await runClusteringJob();
-        jobStatus.clustering.lastResult = result;
-        console.log('[Scheduler] Clustering completed:', result);
+        const entry: ActiveTask = { schedule, task: null };
+        if (!schedule.is_paused) {
+            entry.task = cron.schedule(schedule.cron_expression, async () => {
+                try {
+                    const job = await enqueueJob(schedule.job_type, entry.schedule.payload, {
+                        dedupeKey: tickKey(schedule.job_type),
+                    });
+                    console.log(job
+                        ? `[Scheduler] Queued ${schedule.job_type} job ${job.id}`
+                        : `[Scheduler] ${schedule.job_type} already queued for this tick, skipping...`);
+                } catch (error) {
+                    console.error(`[Scheduler] Failed to queue ${schedule.job_type}:`, error);
+                }
+            }, {
+                timezone: 'UTC'
+            });
+        }
 
-    } catch (error) {
-        console.error('[Scheduler] Clustering error:', error);
-        jobStatus.clustering.lastResult = { error: String(error) };
-    } finally {
-        jobStatus.clustering.isRunning = false;
+        active.set(schedule.job_type, entry);
+        console.log(`  - ${schedule.job_type}: ${schedule.is_paused ? 'paused' : schedule.cron_expression}`);
     }
 }
 
+async function syncSchedules(): Promise<void> {
+    reconcile(await listSchedules());
+}
+
 /**
- * Initialize all scheduled jobs
+ * Change a schedule's cron expression, payload or pause flag and apply it
+ * on this instance right away (others pick it up on their next sync)
  */
-export function initializeScheduler() {
-    console.log('[Scheduler] Initializing scheduled jobs...');
+export async function updateSchedule(
+    jobType: string,
+    changes: Partial<Pick<JobSchedule, 'cron_expression' | 'payload' | 'is_paused'>>,
+    updatedBy?: string
+): Promise<JobSchedule> {
+    const current = await getSchedule(jobType);
+    if (!current) {
+        throw new Error(`Unknown job type: ${jobType}`);
+    }
+
+    if (changes.cron_expression !== undefined && !cron.validate(changes.cron_expression)) {
+        throw new InvalidScheduleError(changes.cron_expression);
+    }
 
-    // News ingestion: Every 2 hours
-    // Cron: At minute 0 past every 2nd hour
-    cron.schedule('0 */2 * * *', () => {
-        console.log('[Scheduler] Triggering scheduled ingestion...');
-        runIngestionJob();
-    }, {
-        timezone: 'UTC'
-    });
-
-    // Story clustering: Every 4 hours (after ingestion has time to complete)
-    // Cron: At minute 30 past every 4th hour
-    cron.schedule('30 */4 * * *', () => {
-        console.log('[Scheduler] Triggering scheduled clustering...');
-        runClusteringJobWrapper();
-    }, {
-        timezone: 'UTC'
-    });
-
-    console.log('[Scheduler] Jobs scheduled:');
-    console.log('  - Ingestion: Every 2 hours (at :00)');
-    console.log('  - Clustering: Every 4 hours (at :30)');
-
-    // Run initial jobs after 1 minute delay (let server fully start)
-    setTimeout(() => {
-        console.log('[Scheduler] Running initial ingestion after startup...');
-        runIngestionJob();
-    }, 60000);
-
-    setTimeout(() => {
-        console.log('[Scheduler] Running initial clustering after startup...');
-        runClusteringJobWrapper();
-    }, 120000);
+    const { data, error } = await supabase
+        .from('job_schedules')
+        .upsert({
+            job_type: jobType,
+            cron_expression: changes.cron_expression ?? current.cron_expression,
+            payload: changes.payload ?? current.payload,
+            is_paused: changes.is_paused ?? current.is_paused,
+            updated_by: updatedBy || null,
+        }, { onConflict: 'job_type' })
+        .select('job_type, cron_expression, payload, is_paused, updated_at')
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to update ${jobType} schedule: ${error.message}`);
+    }
+
+    if (syncTimer) {
+        reconcile([data as JobSchedule]);
+    }
+
+    return data as JobSchedule;
 }
 
 /**
- * Get current job status (for health check endpoint)
+ * Initialize all scheduled jobs and the queue worker
  */
-export function getJobStatus() {
-    return {
-        ingestion: {
-            lastRun: jobStatus.ingestion.lastRun?.toISOString() || null,
-            isRunning: jobStatus.ingestion.isRunning,
-            lastResult: jobStatus.ingestion.lastResult,
-        },
-        clustering: {
-            lastRun: jobStatus.clustering.lastRun?.toISOString() || null,
-            isRunning: jobStatus.clustering.isRunning,
-            lastResult: jobStatus.clustering.lastResult,
-        },
-    };
+export async function initializeScheduler(): Promise<void> {
+    console.log('[Scheduler] Initializing scheduled jobs...');
+    await syncSchedules();
+
+    syncTimer = setInterval(() => {
+        syncSchedules().catch((error) => console.error('[Scheduler] Schedule sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+
+    // Initial runs after startup (let server fully start); shared keys so a
+    // rolling deploy of several instances queues them once
+    const now = Date.now();
+    for (const [jobType, delay] of [['ingest', 60000], ['content', 90000], ['cluster', 120000]] as const) {
+        const schedule = active.get(jobType)?.schedule;
+        if (!schedule || schedule.is_paused) continue;
+
+        enqueueJob(jobType, schedule.payload, { dedupeKey: `${jobType}:startup`, runAt: new Date(now + delay) })
+            .catch((error) => console.error(`[Scheduler] Failed to queue initial ${jobType}:`, error));
+    }
+
+    startJobWorker();
 }
 
 /**
- * Manually trigger ingestion (for API endpoint)
+ * Stop firing cron ticks and let the job in progress finish
  */
-export async function triggerIngestion() {
-    return runIngestionJob();
+export async function stopScheduler(): Promise<void> {
+    if (syncTimer) {
+        clearInterval(syncTimer);
+        syncTimer = null;
+    }
+    for (const { task } of active.values()) {
+        task?.stop();
+    }
+    active.clear();
+    await stopJobWorker();
 }
 
 /**
- * Manually trigger clustering (for API endpoint)
+ * Every job type with its schedule, last finished run and queue state
  */
-export async function triggerClustering() {
-    return runClusteringJobWrapper();
+export async function getJobStatus() {
+    const schedules = await listSchedules();
+
+    return Promise.all(listJobTypes().map(async (jobType) => {
+        const schedule = schedules.find((s) => s.job_type === jobType);
+
+        const { data: lastRun } = await supabase
+            .from('job_logs')
+            .select('id, status, message, items_processed, result, last_error, attempts, started_at, completed_at')
+            .eq('job_type', jobType)
+            .in('status', ['completed', 'dead'])
+            .order('completed_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        const { data: pending } = await supabase
+            .from('job_logs')
+            .select('id, status, run_at, attempts')
+            .eq('job_type', jobType)
+            .in('status', ['queued', 'running'])
+            .order('run_at');
+
+        return {
+            jobType,
+            schedule: schedule?.cron_expression || null,
+            paused: schedule?.is_paused ?? true,
+            payload: schedule?.payload || {},
+            running: (pending || []).some((job) => job.status === 'running'),
+            queued: (pending || []).filter((job) => job.status === 'queued').length,
+            lastRun: lastRun
+                ? {
+                    id: lastRun.id,
+                    status: lastRun.status,
+                    startedAt: lastRun.started_at,
+                    completedAt: lastRun.completed_at,
+                    durationMs: lastRun.started_at && lastRun.completed_at
+                        ? new Date(lastRun.completed_at).getTime() - new Date(lastRun.started_at).getTime()
+                        : null,
+                    message: lastRun.message,
+                    itemsProcessed: lastRun.items_processed,
+                    result: lastRun.result,
+                    error: lastRun.last_error,
+                }
+                : null,
+        };
+    }));
 }
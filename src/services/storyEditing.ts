@@ -0,0 +1,337 @@
+/**
+ * Story Editing Service
+ *
+ * Editor corrections to what clustering produced: merge duplicate stories,
+ * split articles out into a new story, and attach or detach articles. Every
+ * edit can re-run synthesis for the stories it changed and is recorded in
+ * story_audit_log. Merged-away slugs keep working through story_slug_redirects,
+ * and detached articles are never attached to that story again by clustering.
+ *
+ * Centroids of edited stories are cleared; the next clustering run
+ * recomputes them from the new membership.
+ */
+
+import { supabase } from '../config/database.js';
+import { resynthesizeStory } from './clustering.js';
+
+export type StoryEditAction = 'merge' | 'split' | 'attach' | 'detach';
+
+export interface StoryRef {
+    id: string;
+    slug: string | null;
+    title: string;
+}
+
+export interface StoryEditOptions {
+    actorId?: string;
+    resynthesize?: boolean;
+}
+
+export interface StoryEditResult {
+    action: StoryEditAction;
+    story: StoryRef;                // The story edited (merge target, split origin)
+    related: StoryRef | null;       // The merged-away story, or the story a split created
+    articleIds: string[];           // Articles that changed story
+    resynthesized: string[];        // Stories whose synthesis was regenerated
+}
+
+export interface StoryAuditEntry {
+    id: string;
+    story_id: string | null;
+    action: StoryEditAction;
+    actor_id: string | null;
+    details: Record<string, unknown>;
+    created_at: string;
+}
+
+export class StoryEditError extends Error {
+    constructor(message: string, public statusCode: 400 | 404 = 400) {
+        super(message);
+        this.name = 'StoryEditError';
+    }
+}
+
+async function getStory(id: string): Promise<StoryRef> {
+    const { data, error } = await supabase
+        .from('stories')
+        .select('id, slug, title')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new StoryEditError(`Story ${id} not found`, 404);
+
+    return data;
+}
+
+/**
+ * Ids of a story's articles, with their titles (newest first)
+ */
+async function getStoryArticles(storyId: string): Promise<Array<{ id: string; title: string }>> {
+    const { data, error } = await supabase
+        .from('story_articles')
+        .select('articles(id, title, published_at)')
+        .eq('story_id', storyId);
+
+    if (error) throw new Error(error.message);
+
+    return (data || [])
+        .map((link: any) => link.articles)
+        .filter(Boolean)
+        .sort((a: any, b: any) => (b.published_at || '').localeCompare(a.published_at || ''))
+        .map((a: any) => ({ id: a.id, title: a.title }));
+}
+
+/**
+ * Clear centroids so the next clustering run recomputes them
+ */
+async function invalidateCentroids(storyIds: string[]): Promise<void> {
+    if (storyIds.length === 0) return;
+
+    const { error } = await supabase
+        .from('stories')
+        .update({ centroid: null, centroid_model: null })
+        .in('id', storyIds);
+
+    if (error) throw new Error(error.message);
+}
+
+async function resynthesize(storyIds: string[], options: StoryEditOptions): Promise<string[]> {
+    if (!options.resynthesize) return [];
+
+    const done: string[] = [];
+    for (const id of storyIds) {
+        if (await resynthesizeStory(id)) done.push(id);
+    }
+    return done;
+}
+
+/**
+ * Record an edit; audit failures are logged rather than undoing the edit
+ */
+async function recordAudit(result: StoryEditResult, options: StoryEditOptions, details: Record<string, unknown> = {}): Promise<void> {
+    const { error } = await supabase.from('story_audit_log').insert({
+        story_id: result.story.id,
+        action: result.action,
+        actor_id: options.actorId || null,
+        details: {
+            ...details,
+            related: result.related,
+            article_ids: result.articleIds,
+            resynthesized: result.resynthesized,
+        },
+    });
+
+    if (error) {
+        console.error(`Error recording ${result.action} audit entry for story ${result.story.id}:`, error);
+    }
+}
+
+/**
+ * Merge `sourceId` into `targetId`: articles, entities, impacts and
+ * connections move to the target, the source is deleted and its slug
+ * redirects to the target
+ */
+export async function mergeStories(targetId: string, sourceId: string, options: StoryEditOptions = {}): Promise<StoryEditResult> {
+    if (targetId === sourceId) {
+        throw new StoryEditError('Cannot merge a story into itself');
+    }
+
+    const target = await getStory(targetId);
+    const source = await getStory(sourceId);
+    const articleIds = (await getStoryArticles(sourceId)).map(a => a.id);
+
+    const { error } = await supabase.rpc('merge_stories', { p_target: targetId, p_source: sourceId });
+    if (error) throw new Error(error.message);
+
+    const result: StoryEditResult = {
+        action: 'merge',
+        story: target,
+        related: source,
+        articleIds,
+        resynthesized: await resynthesize([targetId], options),
+    };
+
+    await recordAudit(result, options);
+    return result;
+}
+
+/**
+ * Move some of a story's articles into a new story, titled `title` or after
+ * the newest article moved until synthesis gives it a proper one
+ */
+export async function splitStory(
+    storyId: string,
+    articleIds: string[],
+    options: StoryEditOptions & { title?: string } = {}
+): Promise<StoryEditResult> {
+    const story = await getStory(storyId);
+    const members = await getStoryArticles(storyId);
+    const memberIds = new Set(members.map(a => a.id));
+    const selected = [...new Set(articleIds)];
+
+    const foreign = selected.filter(id => !memberIds.has(id));
+    if (foreign.length > 0) {
+        throw new StoryEditError(`Articles not in story ${storyId}: ${foreign.join(', ')}`);
+    }
+    if (selected.length === 0 || selected.length === members.length) {
+        throw new StoryEditError('A split must leave at least one article in each story');
+    }
+
+    const title = options.title || members.find(a => selected.includes(a.id))!.title;
+
+    const { data: newId, error } = await supabase.rpc('split_story', {
+        p_story: storyId,
+        p_article_ids: selected,
+        p_title: title,
+    });
+    if (error || !newId) throw new Error(error?.message || 'split_story returned no story');
+
+    const created = await getStory(newId as string);
+
+    const result: StoryEditResult = {
+        action: 'split',
+        story,
+        related: created,
+        articleIds: selected,
+        resynthesized: await resynthesize([storyId, created.id], options),
+    };
+
+    await recordAudit(result, options);
+    return result;
+}
+
+/**
+ * Add articles to a story, moving them out of any story they were in. The
+ * move runs in the attach_articles RPC; a story can't be emptied this way
+ * (merge it instead).
+ */
+export async function attachArticles(storyId: string, articleIds: string[], options: StoryEditOptions = {}): Promise<StoryEditResult> {
+    const story = await getStory(storyId);
+    const ids = [...new Set(articleIds)];
+
+    const { data: articles, error: articlesError } = await supabase
+        .from('articles')
+        .select('id')
+        .in('id', ids);
+    if (articlesError) throw new Error(articlesError.message);
+
+    const found = new Set((articles || []).map(a => a.id));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+        throw new StoryEditError(`Articles not found: ${missing.join(', ')}`, 404);
+    }
+
+    const { data: links, error: linksError } = await supabase
+        .from('story_articles')
+        .select('story_id, article_id')
+        .in('article_id', ids);
+    if (linksError) throw new Error(linksError.message);
+
+    const sources = [...new Set((links || []).map(l => l.story_id).filter(id => id !== storyId))];
+    for (const sourceId of sources) {
+        const remaining = (await getStoryArticles(sourceId)).filter(a => !found.has(a.id));
+        if (remaining.length === 0) {
+            throw new StoryEditError(`Attaching would leave story ${sourceId} without articles; merge it instead`);
+        }
+    }
+
+    const { data: attached, error } = await supabase.rpc('attach_articles', { p_story: storyId, p_article_ids: ids });
+    if (error) throw new Error(error.message);
+
+    // Previous story of each moved article, for the audit trail
+    const rows = (attached || []) as Array<{ attached_id: string; previous_story_id: string | null }>;
+    const added = [...new Set(rows.map(row => row.attached_id))];
+    const movedFrom: Record<string, string> = {};
+    for (const row of rows) {
+        if (row.previous_story_id) movedFrom[row.attached_id] = row.previous_story_id;
+    }
+
+    const result: StoryEditResult = {
+        action: 'attach',
+        story,
+        related: null,
+        articleIds: added,
+        resynthesized: added.length > 0
+            ? await resynthesize([storyId, ...new Set(Object.values(movedFrom))], options)
+            : [],
+    };
+
+    await recordAudit(result, options, { moved_from: movedFrom });
+    return result;
+}
+
+/**
+ * Remove an article from a story; clustering treats it as unassigned again
+ * but will not put it back into this story. A story's last article can't be
+ * detached.
+ */
+export async function detachArticle(storyId: string, articleId: string, options: StoryEditOptions = {}): Promise<StoryEditResult> {
+    const story = await getStory(storyId);
+    const members = await getStoryArticles(storyId);
+
+    if (!members.some(a => a.id === articleId)) {
+        throw new StoryEditError(`Article ${articleId} is not in story ${storyId}`, 404);
+    }
+    if (members.length === 1) {
+        throw new StoryEditError('A story must keep at least one article');
+    }
+
+    const { data: removed, error } = await supabase
+        .from('story_articles')
+        .delete()
+        .eq('story_id', storyId)
+        .eq('article_id', articleId)
+        .select('article_id');
+    if (error) throw new Error(error.message);
+
+    if (!removed || removed.length === 0) {
+        throw new StoryEditError(`Article ${articleId} is not in story ${storyId}`, 404);
+    }
+
+    const { error: exclusionError } = await supabase
+        .from('story_article_exclusions')
+        .upsert({ story_id: storyId, article_id: articleId }, { onConflict: 'story_id,article_id' });
+    if (exclusionError) throw new Error(exclusionError.message);
+
+    await invalidateCentroids([storyId]);
+
+    const result: StoryEditResult = {
+        action: 'detach',
+        story,
+        related: null,
+        articleIds: [articleId],
+        resynthesized: await resynthesize([storyId], options),
+    };
+
+    await recordAudit(result, options);
+    return result;
+}
+
+/**
+ * A story's edit history, newest first
+ */
+export async function listStoryAudit(storyId: string, limit: number = 50): Promise<StoryAuditEntry[]> {
+    const { data, error } = await supabase
+        .from('story_audit_log')
+        .select('id, story_id, action, actor_id, details, created_at')
+        .eq('story_id', storyId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return data || [];
+}
+
+/**
+ * Current slug of the story an old (merged-away) slug redirects to
+ */
+export async function resolveSlugRedirect(slug: string): Promise<string | null> {
+    const { data } = await supabase
+        .from('story_slug_redirects')
+        .select('stories(slug)')
+        .eq('slug', slug)
+        .maybeSingle();
+
+    return (data?.stories as any)?.slug || null;
+}
@@ -0,0 +1,169 @@
+/**
+ * Story Versions Service
+ *
+ * Every synthesis run is kept in story_versions: title, summary, sections,
+ * the articles it was written from, the model and prompt that wrote it and
+ * its citation verification. Versions can be listed and compared section by
+ * section, sentence by sentence, so readers can see how a briefing was
+ * corrected.
+ */
+
+import { supabase } from '../config/database.js';
+import { SynthesisResult, SynthesisSection } from '../ai/synthesis.js';
+import { SynthesisVerification } from '../ai/citations.js';
+import { diffSequences, DiffOp, splitSentences } from './text.js';
+
+export type VersionReason = 'created' | 'resynthesized' | 'backfill';
+
+export interface StoryVersion {
+    id: string;
+    story_id: string;
+    version: number;
+    title: string;
+    summary: string | null;
+    sections: SynthesisSection[];
+    article_ids: string[];
+    model: string | null;
+    prompt_version: string | null;
+    reason: VersionReason;
+    verification: SynthesisVerification | null;
+    created_at: string;
+}
+
+export interface ValueChange<T> {
+    from: T;
+    to: T;
+}
+
+export interface SectionDiff {
+    title: string;
+    status: 'added' | 'removed' | 'changed' | 'unchanged';
+    changes: DiffOp[];
+}
+
+export interface VersionDiff {
+    from: number;
+    to: number;
+    title: ValueChange<string> | null;
+    summary: DiffOp[] | null;
+    sections: SectionDiff[];
+    articles: { added: string[]; removed: string[] };
+    model: ValueChange<string | null> | null;
+    prompt_version: ValueChange<string | null> | null;
+}
+
+// Columns for version listings; sections and verification are only loaded for single versions
+const VERSION_SUMMARY_COLUMNS = 'id, story_id, version, title, summary, article_ids, model, prompt_version, reason, created_at';
+
+/**
+ * Append a story's next version. Failures are logged: losing a history
+ * entry must not fail the synthesis it describes.
+ */
+export async function recordStoryVersion(
+    storyId: string,
+    synthesis: SynthesisResult,
+    verification: SynthesisVerification,
+    articleIds: string[],
+    reason: Exclude<VersionReason, 'backfill'>
+): Promise<number | null> {
+    const { data, error } = await supabase.rpc('add_story_version', {
+        p_story_id: storyId,
+        p_title: synthesis.title,
+        p_summary: synthesis.summary,
+        p_sections: synthesis.sections,
+        p_article_ids: articleIds,
+        p_model: synthesis.model,
+        p_prompt_version: synthesis.promptVersion,
+        p_reason: reason,
+        p_verification: verification,
+    });
+
+    if (error) {
+        console.error(`Error recording version for story ${storyId}:`, error);
+        return null;
+    }
+
+    return data as number;
+}
+
+/**
+ * A story's versions, newest first, without sections or verification
+ */
+export async function listStoryVersions(storyId: string): Promise<Array<Omit<StoryVersion, 'sections' | 'verification'>>> {
+    const { data, error } = await supabase
+        .from('story_versions')
+        .select(VERSION_SUMMARY_COLUMNS)
+        .eq('story_id', storyId)
+        .order('version', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+}
+
+/**
+ * Full versions by number, in the order asked for (missing ones are skipped)
+ */
+export async function getStoryVersions(storyId: string, versions: number[]): Promise<StoryVersion[]> {
+    const { data, error } = await supabase
+        .from('story_versions')
+        .select(`${VERSION_SUMMARY_COLUMNS}, sections, verification`)
+        .eq('story_id', storyId)
+        .in('version', versions);
+
+    if (error) throw new Error(error.message);
+
+    const byNumber = new Map((data || []).map((row: StoryVersion) => [row.version, row]));
+    return versions.map(v => byNumber.get(v)).filter((v): v is StoryVersion => Boolean(v));
+}
+
+function change<T>(from: T, to: T): ValueChange<T> | null {
+    return from === to ? null : { from, to };
+}
+
+/**
+ * Sentence diff of two texts, or null when they are identical
+ */
+function diffText(from: string | null, to: string | null): DiffOp[] | null {
+    if ((from || '') === (to || '')) return null;
+    return diffSequences(splitSentences(from || ''), splitSentences(to || ''));
+}
+
+/**
+ * Compare two versions: title, summary, each section (matched by title, in
+ * the newer version's order with removed sections last), the article set
+ * and the model and prompt behind them
+ */
+export function diffVersions(from: StoryVersion, to: StoryVersion): VersionDiff {
+    const before = new Map((from.sections || []).map(section => [section.title, section]));
+    const after = new Map((to.sections || []).map(section => [section.title, section]));
+    const titles = [...after.keys(), ...[...before.keys()].filter(title => !after.has(title))];
+
+    const sections = titles.map((title): SectionDiff => {
+        const old = before.get(title);
+        const current = after.get(title);
+        const changes = diffSequences(splitSentences(old?.content || ''), splitSentences(current?.content || ''));
+
+        const status = !old ? 'added'
+            : !current ? 'removed'
+                : changes.every(c => c.op === 'equal') ? 'unchanged' : 'changed';
+
+        return { title, status, changes };
+    });
+
+    const fromArticles = new Set(from.article_ids || []);
+    const toArticles = new Set(to.article_ids || []);
+
+    return {
+        from: from.version,
+        to: to.version,
+        title: change(from.title, to.title),
+        summary: diffText(from.summary, to.summary),
+        sections,
+        articles: {
+            added: [...toArticles].filter(id => !fromArticles.has(id)),
+            removed: [...fromArticles].filter(id => !toArticles.has(id)),
+        },
+        model: change(from.model, to.model),
+        prompt_version: change(from.prompt_version, to.prompt_version),
+    };
+}
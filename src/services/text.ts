@@ -0,0 +1,132 @@
+/**
+ * Text Utilities
+ *
+ * Tokenization shared by clustering and duplicate detection, the hashed
+ * n-gram vectors behind the local embedding provider, and the sentence diff
+ * behind story version comparisons.
+ */
+
+/**
+ * Simple text tokenizer - extracts significant words
+ */
+export function tokenize(text: string): string[] {
+    const stopWords = new Set([
+        'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+        'of', 'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been',
+        'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
+        'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need',
+        'its', 'it', 'this', 'that', 'these', 'those', 'he', 'she', 'they',
+        'we', 'you', 'i', 'his', 'her', 'their', 'our', 'your', 'my', 'as',
+        'said', 'says', 'according', 'also', 'just', 'about', 'after', 'before',
+        'new', 'first', 'last', 'year', 'years', 'day', 'days', 'time', 'more',
+        'some', 'any', 'all', 'most', 'other', 'into', 'over', 'such', 'no',
+        'not', 'only', 'than', 'then', 'now', 'out', 'up', 'down', 'so', 'if',
+    ]);
+
+    return text
+        .toLowerCase()
+        .replace(/[^\w\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 2 && !stopWords.has(word));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Weighted n-gram features: words, word bigrams and character trigrams
+ * (which let inflections like "raise"/"raises" overlap)
+ */
+function ngramFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) || 0) + weight);
+    const words = tokenize(text);
+
+    words.forEach((word, i) => {
+        add(`w:${word}`, 1);
+        if (i > 0) add(`b:${words[i - 1]} ${word}`, 1);
+
+        const padded = `^${word}$`;
+        for (let j = 0; j + 3 <= padded.length; j++) {
+            add(`c:${padded.slice(j, j + 3)}`, 0.25);
+        }
+    });
+
+    return features;
+}
+
+/**
+ * Deterministic embedding: n-gram features hashed into `dimensions` buckets
+ * with a hash-derived sign (so collisions cancel out rather than add up),
+ * square-root weights (repeated terms count sublinearly) and unit length
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+
+    for (const [feature, weight] of ngramFeatures(text)) {
+        const hash = fnv1a(feature);
+        const sign = hash & 0x80000000 ? -1 : 1;
+        vector[hash % dimensions] += sign * Math.sqrt(weight);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Sentences of a paragraph, split after terminal punctuation
+ */
+export function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+export interface DiffOp {
+    op: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Longest-common-subsequence diff of two sequences (sentences, lines):
+ * what was removed from `before` and added in `after`, in order
+ */
+export function diffSequences(before: string[], after: string[]): DiffOp[] {
+    // common[i][j] = LCS length of before[i..] and after[j..]
+    const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            common[i][j] = before[i] === after[j]
+                ? common[i + 1][j + 1] + 1
+                : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            ops.push({ op: 'equal', text: before[i] });
+            i++;
+            j++;
+        } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+            // Removals first, so a rewritten sentence reads old then new
+            ops.push({ op: 'removed', text: before[i++] });
+        } else {
+            ops.push({ op: 'added', text: after[j++] });
+        }
+    }
+
+    return ops;
+}
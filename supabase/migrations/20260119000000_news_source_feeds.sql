@@ -0,0 +1,20 @@
+-- RSS / Atom Feed Ingestion
+-- Migration: 003_news_source_feeds.sql
+-- Adds per-source feed URLs and conditional GET validators to news_sources
+
+-- ============================================
+-- NEWS_SOURCES: Feed configuration and poll state
+-- ============================================
+ALTER TABLE news_sources ADD COLUMN IF NOT EXISTS feed_url TEXT;
+ALTER TABLE news_sources ADD COLUMN IF NOT EXISTS feed_etag TEXT;           -- ETag from the last 200 response
+ALTER TABLE news_sources ADD COLUMN IF NOT EXISTS feed_last_modified TEXT;  -- Last-Modified from the last 200 response
+ALTER TABLE news_sources ADD COLUMN IF NOT EXISTS feed_last_polled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_news_sources_feed ON news_sources(feed_url) WHERE feed_url IS NOT NULL;
+
+-- Seed feed URLs for sources that publish them
+UPDATE news_sources SET feed_url = 'https://feeds.bbci.co.uk/news/world/rss.xml' WHERE domain = 'bbc.com' AND feed_url IS NULL;
+UPDATE news_sources SET feed_url = 'https://feeds.npr.org/1001/rss.xml' WHERE domain = 'npr.org' AND feed_url IS NULL;
+UPDATE news_sources SET feed_url = 'https://www.theguardian.com/world/rss' WHERE domain = 'theguardian.com' AND feed_url IS NULL;
+UPDATE news_sources SET feed_url = 'https://www.aljazeera.com/xml/rss/all.xml' WHERE domain = 'aljazeera.com' AND feed_url IS NULL;
+UPDATE news_sources SET feed_url = 'https://www.cnbc.com/id/100727362/device/rss/rss.html' WHERE domain = 'cnbc.com' AND feed_url IS NULL;
@@ -0,0 +1,12 @@
+-- Near-Duplicate Article Detection
+-- Migration: 004_article_dedup.sql
+-- Adds content fingerprints and canonical-article links for syndicated copies
+
+-- ============================================
+-- ARTICLES: Fingerprint and canonical link
+-- ============================================
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS fingerprint TEXT;  -- 64-bit SimHash of title + excerpt (hex)
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES articles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_articles_fingerprint ON articles(fingerprint) WHERE fingerprint IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_duplicate_of ON articles(duplicate_of) WHERE duplicate_of IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Full-Text Article Extraction
+-- Migration: 005_article_content_extraction.sql
+-- Tracks the outcome of downloading and extracting articles.content
+
+-- ============================================
+-- ARTICLES: Extraction status
+-- ============================================
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_status TEXT
+  CHECK (content_status IN ('extracted', 'paywalled', 'empty', 'unsupported', 'failed'));  -- NULL = not attempted yet
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_extracted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_articles_content_pending ON articles(published_at DESC) WHERE content_status IS NULL;
@@ -0,0 +1,44 @@
+-- Provider Quota Accounting
+-- Migration: 006_api_quota_usage.sql
+-- Daily per-service request counters read by /api/ingest/status and the scheduler
+
+-- ============================================
+-- API_QUOTA_USAGE: One row per service per UTC day
+-- ============================================
+CREATE TABLE IF NOT EXISTS api_quota_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service TEXT NOT NULL,           -- newsdata, gnews, groq, ...
+  date DATE NOT NULL DEFAULT (NOW() AT TIME ZONE 'utc')::date,
+  requests_used INT NOT NULL DEFAULT 0,
+  daily_limit INT,                 -- NULL for unmetered services
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(service, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_quota_usage_date ON api_quota_usage(date DESC);
+
+ALTER TABLE api_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage api_quota_usage" ON api_quota_usage
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- HELPER FUNCTION: Atomically add to today's usage
+-- ============================================
+CREATE OR REPLACE FUNCTION increment_api_usage(p_service TEXT, p_amount INT DEFAULT 1, p_daily_limit INT DEFAULT NULL)
+RETURNS INT AS $$
+DECLARE
+  used INT;
+BEGIN
+  INSERT INTO api_quota_usage (service, date, requests_used, daily_limit)
+  VALUES (p_service, (NOW() AT TIME ZONE 'utc')::date, p_amount, p_daily_limit)
+  ON CONFLICT (service, date) DO UPDATE
+    SET requests_used = api_quota_usage.requests_used + EXCLUDED.requests_used,
+        daily_limit = COALESCE(EXCLUDED.daily_limit, api_quota_usage.daily_limit),
+        updated_at = NOW()
+  RETURNING requests_used INTO used;
+
+  RETURN used;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+-- Incremental Ingestion Cursors
+-- Migration: 007_ingest_cursors.sql
+-- Newest published_at seen per adapter and fetch scope, so paging stops at last run's articles
+
+-- ============================================
+-- INGEST_CURSORS: High-water mark per adapter/scope
+-- ============================================
+CREATE TABLE IF NOT EXISTS ingest_cursors (
+  adapter TEXT NOT NULL,           -- newsdata, gnews, ...
+  scope TEXT NOT NULL,             -- e.g. 'category=technology|country=us', '*' when unscoped
+  high_water_mark TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (adapter, scope)
+);
+
+ALTER TABLE ingest_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage ingest_cursors" ON ingest_cursors
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- HELPER FUNCTION: Move a cursor forward (never backwards)
+-- ============================================
+CREATE OR REPLACE FUNCTION advance_ingest_cursor(p_adapter TEXT, p_scope TEXT, p_mark TIMESTAMPTZ DEFAULT NULL)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  mark TIMESTAMPTZ;
+BEGIN
+  INSERT INTO ingest_cursors (adapter, scope, high_water_mark, last_run_at)
+  VALUES (p_adapter, p_scope, p_mark, NOW())
+  ON CONFLICT (adapter, scope) DO UPDATE
+    SET high_water_mark = GREATEST(ingest_cursors.high_water_mark, EXCLUDED.high_water_mark),
+        last_run_at = NOW(),
+        updated_at = NOW()
+  RETURNING high_water_mark INTO mark;
+
+  RETURN mark;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+-- Ingestion Profiles
+-- Migration: 008_ingestion_profiles.sql
+-- Stored fan-out definitions (categories, languages, countries, keyword searches) run by /api/ingest/all
+
+-- ============================================
+-- INGESTION_PROFILES: What each desk wants fetched
+-- ============================================
+CREATE TABLE IF NOT EXISTS ingestion_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  adapters TEXT[] NOT NULL DEFAULT '{}',     -- Adapter ids to run; empty = all registered
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  languages TEXT[] NOT NULL DEFAULT '{}',
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  queries TEXT[] NOT NULL DEFAULT '{}',      -- Keyword searches, e.g. 'supply chain'
+  max_pages INT CHECK (max_pages IS NULL OR max_pages > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_profiles_active ON ingestion_profiles(is_active) WHERE is_active = TRUE;
+
+ALTER TABLE ingestion_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage ingestion_profiles" ON ingestion_profiles
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_ingestion_profiles_updated_at
+  BEFORE UPDATE ON ingestion_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- SEED: Generic headlines, matching behaviour before profiles existed
+-- ============================================
+INSERT INTO ingestion_profiles (name, description, languages)
+VALUES ('default', 'English top headlines from every provider', ARRAY['en'])
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,86 @@
+-- Durable Job Queue
+-- Migration: 009_job_queue.sql
+-- Turns job_logs into a Postgres-backed queue: queued rows are leased by workers
+-- (FOR UPDATE SKIP LOCKED), kept alive by heartbeats, retried with backoff and
+-- dead-lettered after max_attempts. Finished rows remain as job history.
+
+-- ============================================
+-- JOB_LOGS: Queue columns
+-- ============================================
+-- status: queued → running → completed | queued (retry) | dead
+ALTER TABLE job_logs
+  ADD COLUMN IF NOT EXISTS payload JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS result JSONB,
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS enqueued_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_job_logs_queue ON job_logs(run_at)
+  WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_job_logs_type_started ON job_logs(job_type, started_at DESC);
+
+-- One pending/running job per dedupe key, so every instance can enqueue the same cron tick
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_logs_dedupe ON job_logs(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+-- ============================================
+-- HELPER FUNCTION: Lease the next due job
+-- ============================================
+CREATE OR REPLACE FUNCTION lease_job(p_worker TEXT, p_lease_seconds INT DEFAULT 300, p_job_types TEXT[] DEFAULT NULL)
+RETURNS SETOF job_logs AS $$
+BEGIN
+  -- Workers that died mid-job leave expired leases; out of attempts means dead letter
+  UPDATE job_logs
+    SET status = 'dead',
+        last_error = COALESCE(last_error, 'Lease expired'),
+        locked_by = NULL,
+        locked_until = NULL,
+        completed_at = NOW()
+  WHERE status = 'running'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE job_logs
+    SET status = 'running',
+        attempts = job_logs.attempts + 1,
+        locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        started_at = NOW(),
+        completed_at = NULL
+  WHERE id = (
+    SELECT id FROM job_logs
+    WHERE ((status = 'queued' AND run_at <= NOW())
+        OR (status = 'running' AND locked_until < NOW()))
+      AND (p_job_types IS NULL OR job_type = ANY(p_job_types))
+    ORDER BY run_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- HELPER FUNCTION: Extend a lease (false if the worker lost it)
+-- ============================================
+CREATE OR REPLACE FUNCTION heartbeat_job(p_id UUID, p_worker TEXT, p_lease_seconds INT DEFAULT 300)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE job_logs
+    SET locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW()
+  WHERE id = p_id
+    AND locked_by = p_worker
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,35 @@
+-- Job Schedules
+-- Migration: 010_job_schedules.sql
+-- Cron expression, pause flag and payload per queue job type, editable at runtime via /api/admin/jobs
+
+-- ============================================
+-- JOB_SCHEDULES: When each job type is enqueued
+-- ============================================
+CREATE TABLE IF NOT EXISTS job_schedules (
+  job_type TEXT PRIMARY KEY,            -- ingest, process, cluster
+  cron_expression TEXT NOT NULL,        -- Evaluated in UTC
+  payload JSONB NOT NULL DEFAULT '{}',  -- Passed to every scheduled run
+  is_paused BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE job_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage job_schedules" ON job_schedules
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_job_schedules_updated_at
+  BEFORE UPDATE ON job_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- SEED: Schedules previously hardcoded in the scheduler
+-- ============================================
+INSERT INTO job_schedules (job_type, cron_expression, payload, is_paused) VALUES
+  ('ingest', '0 * * * *', '{"slotMinutes": 60}', FALSE),
+  ('cluster', '30 */4 * * *', '{}', FALSE),
+  ('process', '15 * * * *', '{"limit": 10}', TRUE)
+ON CONFLICT (job_type) DO NOTHING;
@@ -0,0 +1,47 @@
+-- Roles & Service API Keys
+-- Migration: 011_roles_and_api_keys.sql
+-- Role per profile (reader, editor, admin) and hashed, scoped, revocable keys for service callers
+
+-- ============================================
+-- PROFILES: Role
+-- ============================================
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'reader'
+    CHECK (role IN ('reader', 'editor', 'admin'));
+
+-- "Users can update their own profile" must not let them promote themselves
+CREATE OR REPLACE FUNCTION prevent_profile_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can change profile roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_profiles_role_change
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_profile_role_change();
+
+-- ============================================
+-- SERVICE_API_KEYS: Credentials for cron and other service callers
+-- ============================================
+CREATE TABLE IF NOT EXISTS service_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,                  -- First characters of the key, for identification only
+  key_hash TEXT NOT NULL UNIQUE,             -- SHA-256 of the full key; the key itself is never stored
+  scopes TEXT[] NOT NULL DEFAULT '{}',       -- ingest, ai, cluster, jobs or '*'
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+ALTER TABLE service_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage service_api_keys" ON service_api_keys
+  FOR ALL USING (auth.role() = 'service_role');
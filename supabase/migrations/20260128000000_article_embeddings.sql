@@ -0,0 +1,41 @@
+-- Article Embeddings
+-- Migration: 012_article_embeddings.sql
+-- pgvector embeddings for semantic clustering, tagged with the model that produced them
+
+-- ============================================
+-- ARTICLES: Embedding columns
+-- ============================================
+-- 1024 dimensions matches jina-embeddings-v3 (and the local hashed n-gram provider);
+-- the vector(1536) column noted in 002 was never created
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS embedding vector(1024);
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS embedding_model TEXT;  -- jina-embeddings-v3, local-hash-v1
+
+-- Cosine distance, as used for clustering
+CREATE INDEX IF NOT EXISTS idx_articles_embedding ON articles
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Articles still waiting for an embedding
+CREATE INDEX IF NOT EXISTS idx_articles_embedding_missing ON articles(published_at DESC)
+  WHERE embedding IS NULL;
+
+-- ============================================
+-- HELPER FUNCTION: Store a batch of embeddings in one round trip
+-- ============================================
+-- p_embeddings: [{ "id": "<uuid>", "embedding": "[0.1,0.2,...]" }, ...]
+CREATE OR REPLACE FUNCTION set_article_embeddings(p_model TEXT, p_embeddings JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE articles a
+  SET embedding = e.embedding::vector,
+      embedding_model = p_model
+  FROM jsonb_to_recordset(p_embeddings) AS e(id UUID, embedding TEXT)
+  WHERE a.id = e.id;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- Incremental Clustering
+-- Migration: 013_incremental_clustering.sql
+-- Story centroids so new articles attach to open stories, re-synthesis bookkeeping and inactivity closing
+
+-- ============================================
+-- STORIES: Centroid and lifecycle columns
+-- ============================================
+-- Mean of the member articles' embeddings, from the model named in centroid_model
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS centroid vector(1024);
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS centroid_model TEXT;
+-- Newest published_at among member articles; stories close after a quiet period
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS last_article_at TIMESTAMPTZ;
+-- Articles attached since the synthesis was last generated
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS pending_article_count INT NOT NULL DEFAULT 0;
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS synthesized_at TIMESTAMPTZ;
+-- Closed stories stay published but no longer take new articles
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_stories_open ON stories(last_article_at DESC) WHERE closed_at IS NULL;
+
+-- ============================================
+-- BACKFILL: Activity and synthesis time for existing stories
+-- ============================================
+UPDATE stories s
+SET last_article_at = latest.published_at
+FROM (
+  SELECT sa.story_id, MAX(a.published_at) AS published_at
+  FROM story_articles sa
+  JOIN articles a ON a.id = sa.article_id
+  GROUP BY sa.story_id
+) latest
+WHERE s.id = latest.story_id AND s.last_article_at IS NULL;
+
+UPDATE stories SET synthesized_at = COALESCE(published_at, created_at) WHERE synthesized_at IS NULL;
@@ -0,0 +1,182 @@
+-- Story Editing
+-- Migration: 014_story_editing.sql
+-- Editor corrections to clustering: merge and split stories, attach and detach articles,
+-- with redirects from merged-away slugs and an audit trail of every edit
+
+-- ============================================
+-- STORY_SLUG_REDIRECTS: Old slugs of merged-away stories
+-- ============================================
+CREATE TABLE IF NOT EXISTS story_slug_redirects (
+  slug TEXT PRIMARY KEY,
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_slug_redirects_story ON story_slug_redirects(story_id);
+
+-- ============================================
+-- STORY_ARTICLE_EXCLUSIONS: Articles an editor detached from a story
+-- ============================================
+-- Clustering never attaches these articles to that story again
+CREATE TABLE IF NOT EXISTS story_article_exclusions (
+  story_id UUID REFERENCES stories(id) ON DELETE CASCADE,
+  article_id UUID REFERENCES articles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (story_id, article_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_article_exclusions_article ON story_article_exclusions(article_id);
+
+-- ============================================
+-- STORY_AUDIT_LOG: Who changed which story, and how
+-- ============================================
+CREATE TABLE IF NOT EXISTS story_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID REFERENCES stories(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('merge', 'split', 'attach', 'detach')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  details JSONB NOT NULL DEFAULT '{}',     -- Article ids, the other story involved, re-synthesis outcome
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_audit_log_story ON story_audit_log(story_id, created_at DESC);
+
+ALTER TABLE story_slug_redirects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE story_article_exclusions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE story_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view story_slug_redirects" ON story_slug_redirects
+  FOR SELECT USING (true);
+CREATE POLICY "Service can manage story_slug_redirects" ON story_slug_redirects
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service can manage story_article_exclusions" ON story_article_exclusions
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service can manage story_audit_log" ON story_audit_log
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- HELPER FUNCTION: Merge one story into another
+-- ============================================
+-- Articles move by insert + delete so the source_count trigger keeps both counts right.
+-- Where both stories have an entity or sector impact, the target's row wins.
+CREATE OR REPLACE FUNCTION merge_stories(p_target UUID, p_source UUID)
+RETURNS INT AS $$
+DECLARE
+  v_source stories%ROWTYPE;
+  v_moved INT;
+BEGIN
+  IF p_target = p_source THEN
+    RAISE EXCEPTION 'Cannot merge a story into itself';
+  END IF;
+
+  PERFORM 1 FROM stories WHERE id = p_target FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story % not found', p_target;
+  END IF;
+
+  SELECT * INTO v_source FROM stories WHERE id = p_source FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story % not found', p_source;
+  END IF;
+
+  INSERT INTO story_articles (story_id, article_id, relevance_score, added_at)
+  SELECT p_target, article_id, relevance_score, added_at
+  FROM story_articles WHERE story_id = p_source
+  ON CONFLICT (story_id, article_id) DO NOTHING;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  INSERT INTO story_entities (story_id, entity_id, role, context)
+  SELECT p_target, entity_id, role, context
+  FROM story_entities WHERE story_id = p_source
+  ON CONFLICT (story_id, entity_id) DO NOTHING;
+
+  INSERT INTO story_impacts (story_id, sector_id, impact_type, severity, prediction, confidence)
+  SELECT p_target, sector_id, impact_type, severity, prediction, confidence
+  FROM story_impacts WHERE story_id = p_source
+  ON CONFLICT (story_id, sector_id) DO NOTHING;
+
+  UPDATE entity_connections SET story_id = p_target WHERE story_id = p_source;
+
+  INSERT INTO story_article_exclusions (story_id, article_id, created_at)
+  SELECT p_target, article_id, created_at
+  FROM story_article_exclusions WHERE story_id = p_source
+  ON CONFLICT (story_id, article_id) DO NOTHING;
+
+  -- The source's edit history continues on the target
+  UPDATE story_audit_log SET story_id = p_target WHERE story_id = p_source;
+
+  -- Earlier redirects to the source now lead to the target, as does the source's own slug
+  UPDATE story_slug_redirects SET story_id = p_target WHERE story_id = p_source;
+  IF v_source.slug IS NOT NULL THEN
+    INSERT INTO story_slug_redirects (slug, story_id) VALUES (v_source.slug, p_target)
+    ON CONFLICT (slug) DO UPDATE SET story_id = EXCLUDED.story_id;
+  END IF;
+
+  -- The centroid is stale; clustering recomputes it on its next run
+  UPDATE stories
+    SET last_article_at = GREATEST(last_article_at, v_source.last_article_at),
+        pending_article_count = pending_article_count + v_moved,
+        centroid = NULL,
+        centroid_model = NULL,
+        closed_at = NULL,
+        updated_at = NOW()
+  WHERE id = p_target;
+
+  DELETE FROM stories WHERE id = p_source;
+
+  RETURN v_moved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- HELPER FUNCTION: Split articles out of a story into a new one
+-- ============================================
+CREATE OR REPLACE FUNCTION split_story(p_story UUID, p_article_ids UUID[], p_title TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_story stories%ROWTYPE;
+  v_new UUID;
+  v_moved INT;
+BEGIN
+  SELECT * INTO v_story FROM stories WHERE id = p_story FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story % not found', p_story;
+  END IF;
+
+  -- Hero image from the newest moved article that has one
+  INSERT INTO stories (title, hero_image_url, status, published_at)
+  VALUES (
+    p_title,
+    (SELECT a.image_url FROM articles a
+     WHERE a.id = ANY(p_article_ids) AND a.image_url IS NOT NULL
+     ORDER BY a.published_at DESC LIMIT 1),
+    v_story.status,
+    NOW()
+  )
+  RETURNING id INTO v_new;
+
+  INSERT INTO story_articles (story_id, article_id, relevance_score, added_at)
+  SELECT v_new, article_id, relevance_score, added_at
+  FROM story_articles WHERE story_id = p_story AND article_id = ANY(p_article_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  IF v_moved = 0 THEN
+    RAISE EXCEPTION 'None of the articles belong to story %', p_story;
+  END IF;
+
+  DELETE FROM story_articles WHERE story_id = p_story AND article_id = ANY(p_article_ids);
+
+  -- Both stories changed membership: stale centroids, fresh activity times
+  UPDATE stories s
+    SET last_article_at = (
+          SELECT MAX(a.published_at) FROM story_articles sa
+          JOIN articles a ON a.id = sa.article_id
+          WHERE sa.story_id = s.id
+        ),
+        centroid = NULL,
+        centroid_model = NULL
+  WHERE s.id IN (p_story, v_new);
+
+  RETURN v_new;
+END;
+$$ LANGUAGE plpgsql;
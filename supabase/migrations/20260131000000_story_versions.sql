@@ -0,0 +1,76 @@
+-- Story Versions
+-- Migration: 015_story_versions.sql
+-- One row per synthesis run: what the briefing said, which articles it was written from
+-- and which model and prompt wrote it, so corrections can be shown
+
+-- ============================================
+-- STORY_VERSIONS: Synthesis history
+-- ============================================
+CREATE TABLE IF NOT EXISTS story_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  version INT NOT NULL,                    -- 1, 2, ... per story
+  title TEXT NOT NULL,
+  summary TEXT,
+  sections JSONB NOT NULL DEFAULT '[]',    -- Same shape as stories.synthesis
+  article_ids UUID[] NOT NULL DEFAULT '{}',
+  model TEXT,                              -- NULL for versions backfilled from before this table
+  prompt_version TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('created', 'resynthesized', 'backfill')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(story_id, version)
+);
+
+ALTER TABLE story_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view story_versions" ON story_versions
+  FOR SELECT USING (true);
+CREATE POLICY "Service can manage story_versions" ON story_versions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- HELPER FUNCTION: Append the next version of a story
+-- ============================================
+-- The story row is locked so concurrent re-syntheses get consecutive numbers
+CREATE OR REPLACE FUNCTION add_story_version(
+  p_story_id UUID,
+  p_title TEXT,
+  p_summary TEXT,
+  p_sections JSONB,
+  p_article_ids UUID[],
+  p_model TEXT,
+  p_prompt_version TEXT,
+  p_reason TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_version INT;
+BEGIN
+  PERFORM 1 FROM stories WHERE id = p_story_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM story_versions WHERE story_id = p_story_id;
+
+  INSERT INTO story_versions (story_id, version, title, summary, sections, article_ids, model, prompt_version, reason)
+  VALUES (p_story_id, v_version, p_title, p_summary, COALESCE(p_sections, '[]'), p_article_ids, p_model, p_prompt_version, p_reason);
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- BACKFILL: Current synthesis of existing stories as version 1
+-- ============================================
+INSERT INTO story_versions (story_id, version, title, summary, sections, article_ids, reason, created_at)
+SELECT
+  s.id,
+  1,
+  s.title,
+  s.summary,
+  COALESCE(s.synthesis, '[]'),
+  COALESCE((SELECT array_agg(sa.article_id) FROM story_articles sa WHERE sa.story_id = s.id), '{}'),
+  'backfill',
+  COALESCE(s.synthesized_at, s.created_at)
+FROM stories s
+WHERE s.synthesis IS NOT NULL
+ON CONFLICT (story_id, version) DO NOTHING;
@@ -0,0 +1,46 @@
+-- Synthesis Verification
+-- Migration: 016_synthesis_verification.sql
+-- Per-section results of checking a briefing's inline citations against its source articles
+
+-- ============================================
+-- STORIES / STORY_VERSIONS: Verification results
+-- ============================================
+-- { status, verified_at, unknown_sources, sections: [{ title, status, support, sentences, ... }] }
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS verification JSONB;
+ALTER TABLE story_versions ADD COLUMN IF NOT EXISTS verification JSONB;
+
+-- Stories whose briefing cites unknown sources or unsupported claims, for editors to review
+CREATE INDEX IF NOT EXISTS idx_stories_verification_flagged ON stories(published_at DESC)
+  WHERE verification->>'status' = 'flagged';
+
+-- ============================================
+-- HELPER FUNCTION: add_story_version with verification
+-- ============================================
+DROP FUNCTION IF EXISTS add_story_version(UUID, TEXT, TEXT, JSONB, UUID[], TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION add_story_version(
+  p_story_id UUID,
+  p_title TEXT,
+  p_summary TEXT,
+  p_sections JSONB,
+  p_article_ids UUID[],
+  p_model TEXT,
+  p_prompt_version TEXT,
+  p_reason TEXT,
+  p_verification JSONB DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  v_version INT;
+BEGIN
+  PERFORM 1 FROM stories WHERE id = p_story_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM story_versions WHERE story_id = p_story_id;
+
+  INSERT INTO story_versions (story_id, version, title, summary, sections, article_ids, model, prompt_version, reason, verification)
+  VALUES (p_story_id, v_version, p_title, p_summary, COALESCE(p_sections, '[]'), p_article_ids, p_model, p_prompt_version, p_reason, p_verification);
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,106 @@
+-- LLM Response Cache and Usage
+-- Migration: 017_llm_cache_and_usage.sql
+-- Content-addressed cache of LLM replies, and daily token/latency totals per job type
+
+-- ============================================
+-- LLM_CACHE: Replies by request hash, until expires_at
+-- ============================================
+CREATE TABLE IF NOT EXISTS llm_cache (
+  key TEXT PRIMARY KEY,            -- sha256 of provider, model, prompt hash, temperature and settings
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_hash TEXT NOT NULL,       -- sha256 of the messages
+  temperature FLOAT,
+  content TEXT NOT NULL,
+  response_model TEXT,             -- Model the provider reported answering with
+  prompt_tokens INT,
+  completion_tokens INT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_cache(expires_at);
+
+ALTER TABLE llm_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage llm_cache" ON llm_cache
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- LLM_USAGE: One row per UTC day, job type, provider and model
+-- ============================================
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL DEFAULT (NOW() AT TIME ZONE 'utc')::date,
+  job_type TEXT NOT NULL,          -- analysis, synthesis, summary
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  calls INT NOT NULL DEFAULT 0,    -- Provider requests, failed ones included
+  failures INT NOT NULL DEFAULT 0,
+  cache_hits INT NOT NULL DEFAULT 0,
+  prompt_tokens BIGINT NOT NULL DEFAULT 0,
+  completion_tokens BIGINT NOT NULL DEFAULT 0,
+  latency_ms BIGINT NOT NULL DEFAULT 0,  -- Summed over calls
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(date, job_type, provider, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_date ON llm_usage(date DESC);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage llm_usage" ON llm_usage
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- HELPER FUNCTION: Atomically add one call to today's totals
+-- ============================================
+CREATE OR REPLACE FUNCTION record_llm_call(
+  p_job_type TEXT,
+  p_provider TEXT,
+  p_model TEXT,
+  p_cache_hit BOOLEAN DEFAULT FALSE,
+  p_failed BOOLEAN DEFAULT FALSE,
+  p_prompt_tokens INT DEFAULT 0,
+  p_completion_tokens INT DEFAULT 0,
+  p_latency_ms INT DEFAULT 0
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO llm_usage (date, job_type, provider, model, calls, failures, cache_hits, prompt_tokens, completion_tokens, latency_ms)
+  VALUES (
+    (NOW() AT TIME ZONE 'utc')::date,
+    p_job_type,
+    p_provider,
+    p_model,
+    CASE WHEN p_cache_hit THEN 0 ELSE 1 END,
+    CASE WHEN p_failed THEN 1 ELSE 0 END,
+    CASE WHEN p_cache_hit THEN 1 ELSE 0 END,
+    p_prompt_tokens,
+    p_completion_tokens,
+    p_latency_ms
+  )
+  ON CONFLICT (date, job_type, provider, model) DO UPDATE
+    SET calls = llm_usage.calls + EXCLUDED.calls,
+        failures = llm_usage.failures + EXCLUDED.failures,
+        cache_hits = llm_usage.cache_hits + EXCLUDED.cache_hits,
+        prompt_tokens = llm_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+        completion_tokens = llm_usage.completion_tokens + EXCLUDED.completion_tokens,
+        latency_ms = llm_usage.latency_ms + EXCLUDED.latency_ms,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- HELPER FUNCTION: Drop expired cache entries
+-- ============================================
+CREATE OR REPLACE FUNCTION purge_llm_cache()
+RETURNS INT AS $$
+DECLARE
+  removed INT;
+BEGIN
+  DELETE FROM llm_cache WHERE expires_at <= NOW();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
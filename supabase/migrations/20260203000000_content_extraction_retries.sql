@@ -0,0 +1,24 @@
+-- Content Extraction Retries
+-- Migration: 018_content_extraction_retries.sql
+-- Failed extractions are retried with exponential backoff, up to a fixed number of attempts,
+-- by an hourly content extraction job
+
+-- ============================================
+-- ARTICLES: Retry schedule
+-- ============================================
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_attempts INT NOT NULL DEFAULT 0;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_retry_at TIMESTAMPTZ;  -- NULL = no retry scheduled
+
+-- Articles that already failed get one more attempt
+UPDATE articles
+SET content_attempts = 1, content_retry_at = NOW()
+WHERE content_status = 'failed' AND content_attempts = 0;
+
+CREATE INDEX IF NOT EXISTS idx_articles_content_retry ON articles(content_retry_at) WHERE content_status = 'failed';
+
+-- ============================================
+-- SEED: Hourly extraction of new articles and due retries
+-- ============================================
+INSERT INTO job_schedules (job_type, cron_expression, payload, is_paused) VALUES
+  ('content', '20 * * * *', '{"limit": 20}', FALSE)
+ON CONFLICT (job_type) DO NOTHING;
@@ -0,0 +1,72 @@
+-- Attach Articles
+-- Migration: 019_attach_articles.sql
+-- Moves articles into a story in one transaction, like merge_stories and split_story
+
+-- ============================================
+-- HELPER FUNCTION: Attach articles to a story
+-- ============================================
+-- Returns each article added with the story it left (NULL when it had none).
+-- Articles already in the story are skipped; a story can't be emptied this way.
+CREATE OR REPLACE FUNCTION attach_articles(p_story UUID, p_article_ids UUID[])
+RETURNS TABLE (attached_id UUID, previous_story_id UUID) AS $$
+DECLARE
+  v_added UUID[];
+  v_sources UUID[];
+  v_emptied UUID;
+BEGIN
+  PERFORM 1 FROM stories WHERE id = p_story FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story % not found', p_story;
+  END IF;
+
+  SELECT COALESCE(array_agg(a.id), '{}') INTO v_added
+  FROM articles a
+  WHERE a.id = ANY(p_article_ids)
+    AND NOT EXISTS (SELECT 1 FROM story_articles sa WHERE sa.story_id = p_story AND sa.article_id = a.id);
+
+  SELECT COALESCE(array_agg(DISTINCT sa.story_id), '{}') INTO v_sources
+  FROM story_articles sa WHERE sa.article_id = ANY(v_added);
+
+  PERFORM 1 FROM stories WHERE id = ANY(v_sources) ORDER BY id FOR UPDATE;
+
+  RETURN QUERY
+  SELECT added.id, sa.story_id
+  FROM unnest(v_added) AS added(id)
+  LEFT JOIN story_articles sa ON sa.article_id = added.id;
+
+  -- Insert + delete so the source_count trigger keeps every count right
+  DELETE FROM story_articles WHERE article_id = ANY(v_added);
+
+  INSERT INTO story_articles (story_id, article_id, relevance_score)
+  SELECT p_story, added.id, 1.0 FROM unnest(v_added) AS added(id);
+
+  SELECT s.id INTO v_emptied
+  FROM unnest(v_sources) AS s(id)
+  WHERE NOT EXISTS (SELECT 1 FROM story_articles sa WHERE sa.story_id = s.id)
+  LIMIT 1;
+
+  IF v_emptied IS NOT NULL THEN
+    RAISE EXCEPTION 'Attaching would leave story % without articles', v_emptied;
+  END IF;
+
+  -- An editor putting an article back overrides an earlier detach
+  DELETE FROM story_article_exclusions
+  WHERE story_id = p_story AND article_id = ANY(v_added);
+
+  UPDATE stories
+    SET pending_article_count = pending_article_count + cardinality(v_added),
+        updated_at = NOW()
+  WHERE id = p_story;
+
+  -- Every story involved changed membership: stale centroids, fresh activity times
+  UPDATE stories s
+    SET last_article_at = (
+          SELECT MAX(a.published_at) FROM story_articles sa
+          JOIN articles a ON a.id = sa.article_id
+          WHERE sa.story_id = s.id
+        ),
+        centroid = NULL,
+        centroid_model = NULL
+  WHERE s.id = p_story OR s.id = ANY(v_sources);
+END;
+$$ LANGUAGE plpgsql;
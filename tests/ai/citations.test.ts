@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+    lexicalSupport,
+    parseInlineCitations,
+    sourceMatches,
+    textStems,
+    verifySynthesis,
+} from '../../src/ai/citations.js';
+
+const articles = [
+    {
+        id: 'ap-1',
+        title: 'Federal Reserve raises interest rates by a quarter point',
+        excerpt: 'The central bank lifted its benchmark rate to fight persistent inflation.',
+        content: 'Chair Jerome Powell said further increases remain possible if inflation does not ease.',
+        url: 'https://apnews.com/fed',
+        source: 'AP News',
+        published_at: '2026-01-20T10:00:00Z',
+    },
+    {
+        id: 'reuters-1',
+        title: 'Stocks slide after Fed decision',
+        excerpt: 'Wall Street indexes fell as investors weighed higher borrowing costs.',
+        url: 'https://reuters.com/markets',
+        source: 'Reuters',
+        published_at: '2026-01-20T12:00:00Z',
+    },
+];
+
+describe('parseInlineCitations', () => {
+    it('collects every cited source and strips the markers', () => {
+        expect(parseInlineCitations('Stocks fell [Reuters, AP] as rates rose [Bloomberg].')).toEqual({
+            text: 'Stocks fell as rates rose .',
+            sources: ['Reuters', 'AP', 'Bloomberg'],
+        });
+        expect(parseInlineCitations('No citation here.').sources).toEqual([]);
+    });
+});
+
+describe('sourceMatches', () => {
+    it('matches names up to case, punctuation, "The" and a suffix', () => {
+        expect(sourceMatches('AP', 'AP News')).toBe(true);
+        expect(sourceMatches('the guardian', 'The Guardian')).toBe(true);
+        expect(sourceMatches('Reuters', 'Reuters')).toBe(true);
+        expect(sourceMatches('Bloomberg', 'Reuters')).toBe(false);
+        // Whole words only
+        expect(sourceMatches('A', 'AP News')).toBe(false);
+        expect(sourceMatches('A.P.', 'AP')).toBe(true);
+    });
+});
+
+describe('lexicalSupport', () => {
+    it('scores the share of claim words found in the source, ignoring inflection', () => {
+        const source = textStems('Federal Reserve raises interest rate');
+
+        expect(lexicalSupport('The Federal Reserve raised interest rates', source)).toBe(1);
+        expect(lexicalSupport('Federal Reserve cut mortgage subsidies', source)).toBeCloseTo(0.4);
+        expect(lexicalSupport('It is.', source)).toBe(1);
+    });
+});
+
+describe('verifySynthesis', () => {
+    it('verifies supported claims from the supplied sources', () => {
+        const result = verifySynthesis([{
+            title: 'Summary',
+            content: 'The Federal Reserve raised interest rates by a quarter point [AP]. Wall Street stocks fell [Reuters].',
+            citations: [],
+        }], articles);
+
+        expect(result.status).toBe('verified');
+        expect(result.sections[0]).toMatchObject({ status: 'verified', unknown_sources: [], unsupported: 0, uncited: 0 });
+        expect(result.sections[0].sentences.map((s) => s.article_ids)).toEqual([['ap-1'], ['reuters-1']]);
+    });
+
+    it('flags hallucinated sources and claims the cited source does not make', () => {
+        const result = verifySynthesis([
+            {
+                title: 'Key Developments',
+                content: 'Powell said further increases remain possible [AP]. The governor of Texas resigned over the decision [Reuters]. '
+                    + 'Analysts expect three more hikes [Bloomberg].',
+                citations: [],
+            },
+            { title: 'Background', content: 'Inflation has been high for two years.', citations: [] },
+        ], articles);
+
+        const [developments, background] = result.sections;
+
+        expect(result.status).toBe('flagged');
+        expect(result.unknown_sources).toEqual(['Bloomberg']);
+        expect(developments.sentences.map((s) => s.status)).toEqual(['supported', 'unsupported', 'unknown_source']);
+        expect(developments).toMatchObject({ status: 'flagged', unsupported: 1, unknown_sources: ['Bloomberg'] });
+        expect(background).toMatchObject({ status: 'verified', uncited: 1, support: null });
+    });
+});
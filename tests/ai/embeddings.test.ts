@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const calls = vi.hoisted(() => ({ rpc: [] as Array<{ name: string; args: any }> }));
+
+vi.mock('../../src/config/database.js', () => ({
+    supabase: {
+        rpc: async (name: string, args: unknown) => {
+            calls.rpc.push({ name, args });
+            return { data: null, error: null };
+        },
+    },
+}));
+
+vi.mock('../../src/services/quota.js', () => ({
+    SERVICE_QUOTAS: { jina: { dailyLimit: null } },
+    assertQuota: async () => undefined,
+    throttle: async () => undefined,
+    recordUsage: async () => undefined,
+}));
+
+import {
+    createHashingProvider,
+    createJinaProvider,
+    EMBEDDING_DIMENSIONS,
+    embedArticles,
+    parseVector,
+    vectorCosine,
+} from '../../src/ai/embeddings.js';
+import { hashEmbedding as hashText } from '../../src/services/text.js';
+
+const hashEmbedding = (text: string) => hashText(text, EMBEDDING_DIMENSIONS);
+
+describe('hashEmbedding', () => {
+    it('is deterministic, unit length and sized to the column', () => {
+        const a = hashEmbedding('Central bank raises interest rates');
+        const b = hashEmbedding('Central bank raises interest rates');
+
+        expect(a).toEqual(b);
+        expect(a).toHaveLength(1024);
+        expect(vectorCosine(a, a)).toBeCloseTo(1, 6);
+    });
+
+    it('scores paraphrases of one event above unrelated headlines', () => {
+        const fed = hashEmbedding('Federal Reserve raises interest rates by a quarter point to fight inflation');
+        const fedAgain = hashEmbedding('Fed raised its benchmark interest rate a quarter point as inflation persists');
+        const football = hashEmbedding('Arsenal beat Chelsea in a late derby winner at the Emirates');
+
+        expect(vectorCosine(fed, fedAgain)).toBeGreaterThan(createHashingProvider().clusterThreshold);
+        expect(vectorCosine(fed, football)).toBeLessThan(0.1);
+    });
+
+    it('returns a zero vector for text without tokens', () => {
+        expect(hashEmbedding('a the of').every((v) => v === 0)).toBe(true);
+    });
+});
+
+describe('parseVector', () => {
+    it('reads pgvector text and arrays', () => {
+        expect(parseVector('[0.5,-1,2e-3]')).toEqual([0.5, -1, 0.002]);
+        expect(parseVector([1, 2])).toEqual([1, 2]);
+        expect(parseVector(null)).toBeNull();
+        expect(parseVector('not a vector')).toBeNull();
+    });
+});
+
+describe('createJinaProvider', () => {
+    it('batches texts and returns vectors in input order', async () => {
+        const requests: any[] = [];
+        const fetcher = vi.fn(async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            requests.push({ headers: init?.headers, body });
+
+            // Out of order on purpose: the provider sorts by index
+            const data = body.input.map((text: string, index: number) => ({ index, embedding: [text.length] })).reverse();
+            return new Response(JSON.stringify({ data, usage: { total_tokens: 10 } }));
+        });
+
+        const provider = createJinaProvider('jina-key', { fetcher });
+        const texts = Array.from({ length: 70 }, (_, i) => 'x'.repeat(i + 1));
+        const vectors = await provider.embed(texts);
+
+        expect(provider.id).toBe('jina-embeddings-v3');
+        expect(fetcher).toHaveBeenCalledTimes(2);
+        expect(requests[0].headers).toMatchObject({ Authorization: 'Bearer jina-key' });
+        expect(requests[0].body).toMatchObject({ model: 'jina-embeddings-v3', dimensions: 1024, task: 'text-matching' });
+        expect(requests[0].body.input).toHaveLength(64);
+        expect(vectors.map((v) => v[0])).toEqual(texts.map((t) => t.length));
+    });
+
+    it('throws on provider errors', async () => {
+        const fetcher = async () => new Response('unauthorized', { status: 401 });
+        const provider = createJinaProvider('bad-key', { fetcher });
+
+        await expect(provider.embed(['text'])).rejects.toThrow('401');
+    });
+});
+
+describe('embedArticles', () => {
+    beforeEach(() => {
+        calls.rpc = [];
+    });
+
+    it('stores vectors tagged with the provider model', async () => {
+        const provider = createHashingProvider();
+        const embedded = await embedArticles([
+            { id: 'a1', title: 'Oil prices climb', excerpt: 'Brent rises' },
+            { id: 'a2', title: '' },
+        ], provider);
+
+        expect([...embedded.keys()]).toEqual(['a1']);
+        expect(calls.rpc).toHaveLength(1);
+        expect(calls.rpc[0].name).toBe('set_article_embeddings');
+        expect(calls.rpc[0].args.p_model).toBe('local-hash-v1');
+        expect(parseVector(calls.rpc[0].args.p_embeddings[0].embedding)).toEqual(embedded.get('a1'));
+    });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+const usage = vi.hoisted(() => ({ recorded: [] as string[], exhausted: new Set<string>() }));
+
+const store = vi.hoisted(() => ({
+    cache: new Map<string, any>(),
+    calls: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock('../../src/ai/llmCache.js', () => ({
+    isCacheEnabled: () => true,
+    getCachedCompletion: async (provider: string, request: any) => store.cache.get(`${provider}:${request.model}:${request.messages.length}`) || null,
+    storeCachedCompletion: async (provider: string, request: any, completion: any) => {
+        store.cache.set(`${provider}:${request.model}:${request.messages.length}`, { ...completion, cached: true });
+    },
+}));
+
+vi.mock('../../src/services/llmUsage.js', () => ({
+    recordLLMCall: async (call: Record<string, unknown>) => { store.calls.push(call); },
+}));
+
+vi.mock('../../src/services/quota.js', async () => {
+    const { QuotaExceededError } = await vi.importActual<typeof import('../../src/services/quota.js')>('../../src/services/quota.js');
+    return {
+        QuotaExceededError,
+        SERVICE_QUOTAS: { groq: { dailyLimit: 1000 }, gemini: { dailyLimit: 1500 } },
+        assertQuota: async (service: string) => {
+            if (usage.exhausted.has(service)) throw new QuotaExceededError(service, 1000, 1000);
+        },
+        throttle: async () => undefined,
+        recordUsage: async (service: string) => { usage.recorded.push(service); },
+    };
+});
+
+import {
+    chatWithFallback,
+    ChatRequest,
+    createFixtureProvider,
+    createGeminiProvider,
+    createGroqProvider,
+    createOpenAICompatibleProvider,
+    createRecordingProvider,
+    fixtureKey,
+    LLMFixtures,
+    LLMProvider,
+    LLMProviderError,
+    parseModelChain,
+} from '../../src/ai/llm.js';
+import { analyzeArticle } from '../../src/ai/groq.js';
+import { QuotaExceededError } from '../../src/services/quota.js';
+
+/**
+ * Fetcher answering every request with `status` and `body`, keeping what it was sent
+ */
+function fakeFetcher(status: number, body: unknown) {
+    const requests: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
+    const fetcher = async (url: string, init?: RequestInit) => {
+        requests.push({ url, headers: init?.headers as Record<string, string>, body: JSON.parse(String(init?.body)) });
+        return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+    };
+    return { requests, fetcher };
+}
+
+function failingProvider(id: string, error: Error): LLMProvider & { calls: number } {
+    const provider = {
+        id,
+        calls: 0,
+        async chat(): Promise<never> {
+            provider.calls++;
+            throw error;
+        },
+    };
+    return provider;
+}
+
+const request: Omit<ChatRequest, 'model'> = {
+    messages: [
+        { role: 'system', content: 'Respond with JSON.' },
+        { role: 'user', content: 'Analyze this.' },
+    ],
+    temperature: 0.1,
+    maxTokens: 100,
+    json: true,
+};
+
+describe('OpenAI-compatible providers', () => {
+    it('sends chat completions in JSON mode and reports token usage', async () => {
+        const { requests, fetcher } = fakeFetcher(200, {
+            model: 'llama-3.3-70b-versatile',
+            choices: [{ message: { content: '{"ok": true}' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+        });
+        usage.recorded = [];
+
+        const completion = await createGroqProvider('key', fetcher).chat({ ...request, model: 'llama-3.3-70b-versatile' });
+
+        expect(completion).toEqual({
+            content: '{"ok": true}',
+            provider: 'groq',
+            model: 'llama-3.3-70b-versatile',
+            usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+        });
+        expect(requests[0].url).toBe('https://api.groq.com/openai/v1/chat/completions');
+        expect(requests[0].headers.Authorization).toBe('Bearer key');
+        expect(requests[0].body).toMatchObject({ max_tokens: 100, response_format: { type: 'json_object' } });
+        expect(usage.recorded).toEqual(['groq']);
+    });
+
+    it('targets local servers without a key or quota', async () => {
+        const { requests, fetcher } = fakeFetcher(503, 'loading model');
+        usage.recorded = [];
+
+        const provider = createOpenAICompatibleProvider({ id: 'local', baseUrl: 'http://localhost:11434/v1/', fetcher });
+        const attempt = provider.chat({ ...request, model: 'qwen2.5' });
+
+        await expect(attempt).rejects.toMatchObject({ name: 'LLMProviderError', status: 503, retryable: true });
+        expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(requests[0].headers).not.toHaveProperty('Authorization');
+        expect(usage.recorded).toEqual([]);
+    });
+});
+
+describe('Gemini provider', () => {
+    it('maps system prompts and assistant turns to the Gemini format', async () => {
+        const { requests, fetcher } = fakeFetcher(200, {
+            candidates: [{ content: { parts: [{ text: '{"a":' }, { text: ' 1}' }] } }],
+            usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 4, totalTokenCount: 24 },
+        });
+
+        const completion = await createGeminiProvider('key', fetcher).chat({
+            ...request,
+            model: 'gemini-2.0-flash',
+            messages: [...request.messages, { role: 'assistant', content: '{}' }, { role: 'user', content: 'Fix it.' }],
+        });
+
+        expect(completion).toMatchObject({ content: '{"a": 1}', provider: 'gemini', usage: { totalTokens: 24 } });
+        expect(requests[0].url).toContain('/models/gemini-2.0-flash:generateContent');
+        expect(requests[0].body.systemInstruction).toEqual({ parts: [{ text: 'Respond with JSON.' }] });
+        expect(requests[0].body.contents.map((c: any) => c.role)).toEqual(['user', 'model', 'user']);
+        expect(requests[0].body.generationConfig).toEqual({ temperature: 0.1, maxOutputTokens: 100, responseMimeType: 'application/json' });
+    });
+});
+
+describe('chatWithFallback', () => {
+    beforeEach(() => {
+        store.cache.clear();
+        store.calls = [];
+    });
+
+    it('moves down the chain on rate limits, server errors and exhausted quotas', async () => {
+        const limited = failingProvider('groq', new LLMProviderError('rate limited', 'groq', 429));
+        const exhausted = failingProvider('gemini', new QuotaExceededError('gemini', 1500, 1500));
+        const local = createFixtureProvider({}, { fallback: () => '{"ok": true}' });
+
+        const completion = await chatWithFallback('analysis', [
+            { provider: limited, model: 'llama-3.3-70b-versatile' },
+            { provider: exhausted, model: 'gemini-2.0-flash' },
+            { provider: local, model: 'qwen2.5' },
+        ], request);
+
+        expect(completion).toMatchObject({ content: '{"ok": true}', model: 'qwen2.5' });
+        expect([limited.calls, exhausted.calls]).toEqual([1, 1]);
+        // The refused quota check made no request, so only two calls are counted
+        expect(store.calls.map(c => [c.provider, Boolean(c.failed)])).toEqual([['groq', true], ['fixture', false]]);
+    });
+
+    it('answers repeated requests from the cache and counts tokens per task', async () => {
+        const { requests, fetcher } = fakeFetcher(200, {
+            choices: [{ message: { content: '{"ok": true}' } }],
+            usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 },
+        });
+        const chain = [{ provider: createGroqProvider('key', fetcher), model: 'llama-3.3-70b-versatile' }];
+
+        const first = await chatWithFallback('synthesis', chain, request);
+        await first.commit?.();
+        const second = await chatWithFallback('synthesis', chain, request);
+
+        expect(requests).toHaveLength(1);
+        expect(first.cached).toBeUndefined();
+        expect(second).toMatchObject({ content: '{"ok": true}', cached: true });
+        expect(store.calls).toEqual([
+            expect.objectContaining({ jobType: 'synthesis', provider: 'groq', promptTokens: 30, completionTokens: 10 }),
+            expect.objectContaining({ jobType: 'synthesis', provider: 'groq', cacheHit: true }),
+        ]);
+    });
+
+    it('caches only replies that are committed and not empty', async () => {
+        const uncommitted = await chatWithFallback('summary', [
+            { provider: createGroqProvider('key', fakeFetcher(200, { choices: [{ message: { content: 'ok' } }] }).fetcher), model: 'a' },
+        ], request);
+        const empty = await chatWithFallback('summary', [
+            { provider: createGroqProvider('key', fakeFetcher(200, { choices: [{ message: { content: ' ' } }] }).fetcher), model: 'b' },
+        ], request);
+
+        expect(store.cache.size).toBe(0);
+        expect(uncommitted.commit).toBeDefined();
+        expect(empty.commit).toBeUndefined();
+    });
+
+    it('caches analyses only once they pass validation', async () => {
+        const refusal = fakeFetcher(200, { choices: [{ message: { content: 'Sorry, I cannot help with that.' } }] });
+        const valid = fakeFetcher(200, { choices: [{ message: { content: '{"entities": [], "sentiment": {"sentiment": "neutral", "score": 0}}' } }] });
+
+        await analyzeArticle('Fed raises rates', 'Stocks fell.', [{ provider: createGroqProvider('key', refusal.fetcher), model: 'm' }]);
+        expect(refusal.requests.length).toBeGreaterThan(0);
+        expect(store.cache.size).toBe(0);
+
+        await analyzeArticle('Fed raises rates', 'Stocks fell.', [{ provider: createGroqProvider('key', valid.fetcher), model: 'm' }]);
+        expect(store.cache.size).toBe(1);
+    });
+
+    it('stops on errors another provider would not fix', async () => {
+        const rejected = failingProvider('groq', new LLMProviderError('bad request', 'groq', 400));
+        const next = failingProvider('gemini', new Error('unreachable'));
+
+        await expect(chatWithFallback('analysis', [
+            { provider: rejected, model: 'a' },
+            { provider: next, model: 'b' },
+        ], request)).rejects.toMatchObject({ status: 400 });
+        expect(next.calls).toBe(0);
+    });
+
+    it('throws the last error when every choice fails', async () => {
+        const chain = ['groq', 'gemini'].map(id => ({
+            provider: failingProvider(id, new QuotaExceededError(id, 1, 1)),
+            model: 'm',
+        }));
+
+        await expect(chatWithFallback('analysis', chain, request)).rejects.toMatchObject({ service: 'gemini' });
+        await expect(chatWithFallback('analysis', [], request)).rejects.toThrow('No LLM provider configured');
+    });
+});
+
+describe('parseModelChain', () => {
+    it('reads provider:model pairs, keeping colons in model names', () => {
+        expect(parseModelChain('groq:llama-3.3-70b-versatile, local:qwen2.5:7b,broken, :x')).toEqual([
+            { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+            { provider: 'local', model: 'qwen2.5:7b' },
+        ]);
+    });
+});
+
+describe('fixture replay', () => {
+    it('replays recorded replies and fails on unrecorded requests', async () => {
+        const fixtures: LLMFixtures = {};
+        const live = createFixtureProvider({}, { fallback: () => 'recorded reply' });
+
+        await createRecordingProvider(live, fixtures).chat({ ...request, model: 'llama-3.3-70b-versatile' });
+        const replay = createFixtureProvider(fixtures);
+
+        expect(fixtures).toEqual({ [fixtureKey(request)]: 'recorded reply' });
+        await expect(replay.chat({ ...request, model: 'another-model' })).resolves.toMatchObject({ content: 'recorded reply' });
+        await expect(replay.chat({ ...request, json: false, model: 'm' })).rejects.toMatchObject({ status: 404, retryable: false });
+    });
+
+    it('runs article analysis offline', async () => {
+        const reply = JSON.stringify({
+            entities: [{ name: 'Federal Reserve', type: 'organization', confidence: 0.9 }],
+            sentiment: { sentiment: 'negative', score: -0.4 },
+            category: 'Markets',
+        });
+        const chain = [{ provider: createFixtureProvider({}, { fallback: () => reply }), model: 'fixture' }];
+
+        const analysis = await analyzeArticle('Fed raises rates', 'Stocks fell.', chain);
+
+        expect(analysis).toEqual({
+            entities: [{ name: 'Federal Reserve', type: 'company', confidence: 0.9 }],
+            sentiment: { sentiment: 'negative', score: -0.4 },
+            category: 'Markets',
+            summary: undefined,
+        });
+    });
+});
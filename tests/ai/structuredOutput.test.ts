@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    generateValidated,
+    getOutputMetrics,
+    LLMOutputError,
+    parseJsonOutput,
+    resetOutputMetrics,
+    validateOutput,
+} from '../../src/ai/structuredOutput.js';
+import { ANALYSIS_SCHEMA, SYNTHESIS_SCHEMA } from '../../src/ai/outputSchemas.js';
+import { ChatMessage } from '../../src/ai/llm.js';
+
+const validSynthesis = {
+    title: 'Fed raises rates',
+    summary: 'The Fed raised rates.',
+    sections: [{ title: 'Summary', content: 'The Fed raised rates [AP].', citations: [{ source: 'AP', article_index: 0 }] }],
+};
+
+/**
+ * complete() stand-in returning the given replies in turn and keeping the
+ * conversation it was sent each time
+ */
+function scripted(...replies: string[]) {
+    const calls: ChatMessage[][] = [];
+    const complete = async (messages: ChatMessage[]) => {
+        calls.push(messages);
+        return replies[calls.length - 1];
+    };
+    return { calls, complete };
+}
+
+describe('parseJsonOutput', () => {
+    it('reads objects wrapped in code fences or prose', () => {
+        expect(parseJsonOutput('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+        expect(parseJsonOutput('Here is the analysis: {"a": {"b": 2}} Hope this helps.')).toEqual({ a: { b: 2 } });
+        expect(() => parseJsonOutput('Sorry, I cannot help with that.')).toThrow(SyntaxError);
+    });
+});
+
+describe('validateOutput', () => {
+    it('coerces enums and ranges to what the database accepts', () => {
+        const { value, errors, coercions } = validateOutput<any>({
+            entities: [
+                { name: 'Federal Reserve', type: 'Organization', confidence: 1.4 },
+                { name: 'Jerome Powell', type: 'PERSON', confidence: '0.9' },
+                { name: 'Mystery', type: 'spaceship', confidence: 0.5 },
+            ],
+            sentiment: { sentiment: 'Mixed', score: -3 },
+            category: 'Sports',
+            extra: 'dropped',
+        }, ANALYSIS_SCHEMA);
+
+        expect(errors).toEqual([]);
+        expect(value.entities).toEqual([
+            { name: 'Federal Reserve', type: 'company', confidence: 1 },
+            { name: 'Jerome Powell', type: 'person', confidence: 0.9 },
+        ]);
+        expect(value.sentiment).toEqual({ sentiment: 'neutral', score: -1 });
+        expect(value).not.toHaveProperty('category');
+        expect(value).not.toHaveProperty('extra');
+        expect(coercions.some((c: string) => c.startsWith('entities[2]: dropped'))).toBe(true);
+    });
+
+    it('clamps impacts and fills defaults in syntheses', () => {
+        const { value, errors } = validateOutput<any>({
+            ...validSynthesis,
+            impacts: [
+                { sector: 'Supply Chain', type: 'bad', severity: 9.2, prediction: 'Shipping slows', confidence: -0.2 },
+                { sector: 'weather', type: 'negative', severity: 2, prediction: 'Storms' },
+            ],
+            connections: [{ source: 'Fed', target: 'Powell', relationship: 'chaired_by' }],
+        }, SYNTHESIS_SCHEMA);
+
+        expect(errors).toEqual([]);
+        expect(value.impacts).toEqual([
+            { sector: 'supply_chain', type: 'uncertain', severity: 5, prediction: 'Shipping slows', confidence: 0 },
+        ]);
+        expect(value.connections).toEqual([
+            { source: 'Fed', target: 'Powell', relationship: 'related_to', evidence: '', strength: 0.5 },
+        ]);
+        expect(value.entities).toEqual([]);
+    });
+
+    it('reports missing required data as errors', () => {
+        const { errors } = validateOutput({ title: 'Fed raises rates', sections: [{ title: 'Summary' }] }, SYNTHESIS_SCHEMA);
+
+        expect(errors).toEqual([
+            'summary: is required',
+            'sections: needs at least 1 valid item(s), got 0',
+        ]);
+    });
+});
+
+describe('generateValidated', () => {
+    beforeEach(() => resetOutputMetrics());
+
+    it('sends validation errors back to the model and accepts the corrected reply', async () => {
+        const { calls, complete } = scripted(
+            '{"title": "Fed raises rates", "sections": []}',
+            JSON.stringify(validSynthesis)
+        );
+
+        const result = await generateValidated<any>({
+            task: 'synthesis',
+            schema: SYNTHESIS_SCHEMA,
+            messages: [{ role: 'user', content: 'Synthesize' }],
+            complete,
+            maxRepairs: 2,
+        });
+
+        expect(result.title).toBe('Fed raises rates');
+        expect(calls).toHaveLength(2);
+        expect(calls[1].map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+        expect(calls[1][2].content).toContain('summary: is required');
+        expect(getOutputMetrics().synthesis).toMatchObject({ requests: 1, validFirstTry: 0, repaired: 1, failed: 0 });
+    });
+
+    it('gives up after the repair budget with an LLMOutputError', async () => {
+        const { calls, complete } = scripted('not json', 'still not json');
+
+        const attempt = generateValidated({
+            task: 'analysis',
+            schema: ANALYSIS_SCHEMA,
+            messages: [{ role: 'user', content: 'Analyze' }],
+            complete,
+            maxRepairs: 1,
+        });
+
+        await expect(attempt).rejects.toBeInstanceOf(LLMOutputError);
+        expect(calls).toHaveLength(2);
+        expect(getOutputMetrics().analysis).toMatchObject({ requests: 1, failed: 1, parseErrors: 2, failureRate: 1 });
+    });
+});
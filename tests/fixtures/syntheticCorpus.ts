@@ -0,0 +1,113 @@
+/**
+ * Synthetic news corpus with known events, for clustering tests and benchmarks.
+ * Each event has its own distinctive terms; every article mixes some of them
+ * with generic news vocabulary shared by all events and random filler.
+ */
+
+export interface SyntheticArticle {
+    id: string;
+    event: number;
+    title: string;
+    excerpt: string;
+    url: string;
+    source: string;
+    published_at: string;
+}
+
+const GENERIC = [
+    'government', 'officials', 'market', 'report', 'minister', 'president', 'country', 'week',
+    'billion', 'million', 'percent', 'company', 'city', 'talks', 'deal', 'plan', 'crisis',
+    'security', 'economy', 'investors', 'prices', 'growth', 'police', 'court', 'election',
+];
+
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Pronounceable pseudo-word, so tokenize() keeps it
+ */
+function word(random: () => number): string {
+    const consonants = 'bcdfghjklmnprstvz';
+    const vowels = 'aeiou';
+    let result = '';
+    const syllables = 2 + Math.floor(random() * 2);
+    for (let i = 0; i < syllables; i++) {
+        result += consonants[Math.floor(random() * consonants.length)] + vowels[Math.floor(random() * vowels.length)];
+    }
+    return result + consonants[Math.floor(random() * consonants.length)];
+}
+
+export function syntheticCorpus(options: {
+    events: number;
+    articlesPerEvent: number;
+    // Span of event start times, and spread of each event's articles
+    spanHours?: number;
+    eventHours?: number;
+    seed?: number;
+}): SyntheticArticle[] {
+    const { events, articlesPerEvent, spanHours = 720, eventHours = 24, seed = 42 } = options;
+    const random = seededRandom(seed);
+    const pick = <T>(list: T[], count: number) =>
+        Array.from({ length: count }, () => list[Math.floor(random() * list.length)]);
+
+    const start = Date.UTC(2026, 0, 1);
+    const articles: SyntheticArticle[] = [];
+
+    for (let event = 0; event < events; event++) {
+        const terms = Array.from({ length: 6 }, () => word(random));
+        const eventStart = start + random() * spanHours * 3600000;
+
+        for (let i = 0; i < articlesPerEvent; i++) {
+            const title = [...pick(terms, 3), ...pick(GENERIC, 1)].join(' ');
+            const excerpt = [...pick(terms, 4), ...pick(GENERIC, 3), word(random)].join(' ');
+
+            articles.push({
+                id: `e${event}-a${i}`,
+                event,
+                title,
+                excerpt,
+                url: `https://example.com/e${event}/a${i}`,
+                source: 'Synthetic',
+                published_at: new Date(eventStart + random() * eventHours * 3600000).toISOString(),
+            });
+        }
+    }
+
+    // Interleave events the way a feed would
+    return articles.sort((a, b) => a.published_at.localeCompare(b.published_at));
+}
+
+/**
+ * Embedding-like vectors for a corpus: one random direction per event plus
+ * per-article noise, so same-event pairs score about 1 / (1 + noise²)
+ */
+export function syntheticEmbeddings(
+    corpus: SyntheticArticle[],
+    options: { dimensions?: number; noise?: number; seed?: number } = {}
+): number[][] {
+    const { dimensions = 64, noise = 0.5, seed = 7 } = options;
+    const random = seededRandom(seed);
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const unit = (v: number[]) => {
+        const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+        return v.map((x) => x / norm);
+    };
+
+    const directions = new Map<number, number[]>();
+    return corpus.map((article) => {
+        if (!directions.has(article.event)) {
+            directions.set(article.event, unit(Array.from({ length: dimensions }, gaussian)));
+        }
+        const direction = directions.get(article.event)!;
+        const jitter = unit(Array.from({ length: dimensions }, gaussian));
+        return direction.map((x, i) => x + noise * jitter[i]);
+    });
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { extractionRetryAt, MAX_EXTRACTION_ATTEMPTS } from '../../src/ingest/content.js';
+
+describe('extractionRetryAt', () => {
+    it('doubles the wait after each failure and stops at the attempt limit', () => {
+        const now = new Date('2026-02-03T00:00:00Z');
+
+        expect(extractionRetryAt(1, now)).toBe('2026-02-03T00:30:00.000Z');
+        expect(extractionRetryAt(2, now)).toBe('2026-02-03T01:00:00.000Z');
+        expect(extractionRetryAt(3, now)).toBe('2026-02-03T02:00:00.000Z');
+        expect(extractionRetryAt(MAX_EXTRACTION_ATTEMPTS, now)).toBeNull();
+    });
+});
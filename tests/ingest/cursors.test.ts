@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { expandScopes, scopeKey } from '../../src/ingest/cursors.js';
+
+describe('expandScopes', () => {
+    it('returns a single unscoped fetch when nothing is requested', () => {
+        expect(expandScopes(['category', 'country'])).toEqual([{}]);
+    });
+
+    it('takes the product of supported dimensions', () => {
+        const scopes = expandScopes(['category', 'country'], {
+            categories: ['technology', 'business'],
+            countries: ['us', 'gb'],
+        });
+
+        expect(scopes).toHaveLength(4);
+        expect(scopes).toContainEqual({ category: 'business', country: 'gb' });
+    });
+
+    it('ignores dimensions the adapter cannot filter on', () => {
+        expect(expandScopes([], { categories: ['technology'], queries: ['election'] })).toEqual([{}]);
+        expect(expandScopes(['query'], { categories: ['technology'], queries: ['election'] }))
+            .toEqual([{ query: 'election' }]);
+    });
+
+    it('drops repeated and empty values', () => {
+        expect(expandScopes(['category'], { categories: ['world', '', 'world'] })).toEqual([{ category: 'world' }]);
+    });
+});
+
+describe('scopeKey', () => {
+    it('is stable regardless of property order and case', () => {
+        expect(scopeKey({ country: 'US', category: 'technology' })).toBe('category=technology|country=us');
+        expect(scopeKey({ category: 'Technology', country: 'us' })).toBe('category=technology|country=us');
+    });
+
+    it('uses a wildcard for unscoped fetches', () => {
+        expect(scopeKey({})).toBe('*');
+    });
+});
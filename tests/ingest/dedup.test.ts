@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import {
+    canonicalizeUrl,
+    computeFingerprint,
+    hammingDistance,
+    NEAR_DUPLICATE_MAX_DISTANCE,
+} from '../../src/ingest/dedup.js';
+
+describe('canonicalizeUrl', () => {
+    it('strips tracking parameters and fragments', () => {
+        expect(canonicalizeUrl('http://WWW.Example.com/world/story?utm_source=tw&utm_medium=social&id=7#top'))
+            .toBe('https://www.example.com/world/story?id=7');
+        expect(canonicalizeUrl('https://example.com/story?fbclid=abc&gclid=def'))
+            .toBe('https://example.com/story');
+    });
+
+    it('sorts remaining query parameters', () => {
+        expect(canonicalizeUrl('https://example.com/s?b=2&a=1')).toBe('https://example.com/s?a=1&b=2');
+    });
+
+    it('collapses AMP variants onto the canonical page', () => {
+        const canonical = 'https://example.com/news/2026/port-strike';
+
+        expect(canonicalizeUrl('https://example.com/amp/news/2026/port-strike')).toBe(canonical);
+        expect(canonicalizeUrl('https://example.com/news/2026/port-strike/amp')).toBe(canonical);
+        expect(canonicalizeUrl('https://amp.example.com/news/2026/port-strike')).toBe(canonical);
+        expect(canonicalizeUrl('https://example.com/news/2026/port-strike/?outputType=amp')).toBe(canonical);
+        expect(canonicalizeUrl('https://example.com/news/port-strike.amp.html'))
+            .toBe('https://example.com/news/port-strike.html');
+    });
+
+    it('returns unparseable input unchanged', () => {
+        expect(canonicalizeUrl(' not a url ')).toBe('not a url');
+    });
+});
+
+describe('computeFingerprint', () => {
+    const wire = 'Dock workers strike halts container traffic at Rotterdam port';
+    const wireExcerpt = 'Hundreds of vessels are stranded as dock workers walk out over pay, disrupting European supply chains.';
+
+    it('gives identical syndicated copies the same fingerprint', () => {
+        expect(computeFingerprint(wire, wireExcerpt)).toBe(computeFingerprint(wire, wireExcerpt));
+    });
+
+    it('keeps lightly edited copies within the near-duplicate distance', () => {
+        const a = computeFingerprint(wire, wireExcerpt)!;
+        const b = computeFingerprint(`${wire} - Reuters`, wireExcerpt)!;
+
+        expect(hammingDistance(a, b)).toBeLessThanOrEqual(NEAR_DUPLICATE_MAX_DISTANCE);
+    });
+
+    it('separates unrelated stories', () => {
+        const a = computeFingerprint(wire, wireExcerpt)!;
+        const b = computeFingerprint(
+            'Central bank holds interest rates steady amid inflation worries',
+            'Policymakers voted unanimously to keep borrowing costs unchanged, citing sticky services inflation.'
+        )!;
+
+        expect(hammingDistance(a, b)).toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE);
+    });
+
+    it('skips texts too short to fingerprint', () => {
+        expect(computeFingerprint('Breaking news', null)).toBeNull();
+    });
+});
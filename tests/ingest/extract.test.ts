@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeHtml, extractReadableText, fetchArticleContent } from '../../src/ingest/extract.js';
+
+const fixturePath = (name: string) => join(__dirname, '../fixtures/html', name);
+const fixture = (name: string) => readFileSync(fixturePath(name), 'utf-8');
+
+const htmlResponse = (body: BodyInit, contentType = 'text/html; charset=utf-8', status = 200) =>
+    new Response(body, { status, headers: { 'Content-Type': contentType } });
+
+describe('extractReadableText', () => {
+    it('keeps body paragraphs and drops boilerplate', () => {
+        const result = extractReadableText(fixture('article.html'));
+
+        expect(result.status).toBe('extracted');
+        expect(result.content).toContain('Dock workers at Europe\'s largest port walked off the job');
+        expect(result.content).toContain('Supply chain impact');
+        expect(result.content).toContain('"Every day of delay adds to a backlog');
+
+        for (const boilerplate of ['Share on', 'newsletter', 'Most read', 'All rights reserved', 'Previous port strikes', 'By Jane Doe', 'Idle cranes', 'dataLayer']) {
+            expect(result.content).not.toContain(boilerplate);
+        }
+    });
+
+    it('separates paragraphs and does not repeat nested quotes', () => {
+        const { content } = extractReadableText(fixture('article.html'));
+        const paragraphs = content!.split('\n\n');
+
+        expect(paragraphs[0]).toMatch(/^Dock workers/);
+        expect(paragraphs.filter((p) => p.includes('Every day of delay'))).toHaveLength(1);
+    });
+
+    it('flags declared paywalls and keeps the teaser', () => {
+        const result = extractReadableText(fixture('paywall.html'));
+
+        expect(result.status).toBe('paywalled');
+        expect(result.content).toContain('Semiconductor firms are quietly signing');
+    });
+
+    it('reports pages without a readable body as empty', () => {
+        expect(extractReadableText('<html><body><nav><a href="/">Home</a></nav><p>Short.</p></body></html>'))
+            .toEqual({ status: 'empty', content: null });
+    });
+});
+
+describe('decodeHtml', () => {
+    it('honours a charset declared in a meta tag', () => {
+        const bytes = readFileSync(fixturePath('windows-1252.html'));
+        const html = decodeHtml(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), 'text/html');
+
+        expect(html).toContain('The café owners of Montmartre');
+        expect(html).toContain('“We cannot survive another increase,”');
+    });
+});
+
+describe('fetchArticleContent', () => {
+    it('decodes and extracts a fetched page', async () => {
+        const bytes = readFileSync(fixturePath('windows-1252.html'));
+        const fetcher = vi.fn(async () => htmlResponse(bytes, 'text/html; charset=windows-1252'));
+
+        const result = await fetchArticleContent('https://example.com/cafe', fetcher);
+
+        expect(fetcher).toHaveBeenCalledWith('https://example.com/cafe', expect.objectContaining({ redirect: 'follow', signal: expect.any(AbortSignal) }));
+        expect(result.status).toBe('extracted');
+        expect(result.content).toContain('naïve newcomer');
+    });
+
+    it('treats 402/403 responses as paywalled', async () => {
+        const result = await fetchArticleContent('https://example.com/x', async () => htmlResponse('', undefined, 403));
+
+        expect(result).toMatchObject({ status: 'paywalled', content: null });
+    });
+
+    it('skips non-HTML responses', async () => {
+        const result = await fetchArticleContent('https://example.com/report.pdf', async () => htmlResponse('%PDF', 'application/pdf'));
+
+        expect(result.status).toBe('unsupported');
+    });
+
+    it('reports network errors as failed', async () => {
+        const result = await fetchArticleContent('https://example.com/x', async () => {
+            throw new Error('ECONNRESET');
+        });
+
+        expect(result).toEqual({ status: 'failed', content: null, error: 'ECONNRESET' });
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fetchFeed, parseFeed } from '../../src/ingest/feeds.js';
+
+const fixture = (name: string) =>
+    readFileSync(join(__dirname, '../fixtures/feeds', name), 'utf-8');
+
+describe('parseFeed', () => {
+    it('parses RSS 2.0 items', () => {
+        const items = parseFeed(fixture('rss2.xml'));
+
+        expect(items).toHaveLength(2);
+        expect(items[0]).toEqual({
+            title: 'Port strike halts container traffic in Rotterdam',
+            link: 'https://www.bbc.com/news/articles/c1port',
+            description: 'Dock workers walked out on Monday, stranding hundreds of vessels.',
+            published_at: '2026-01-19T08:30:00.000Z',
+            image_url: 'https://ichef.bbci.co.uk/news/240/port.jpg',
+        });
+    });
+
+    it('falls back to permalink guid, dc:date and image enclosures', () => {
+        const [, rates] = parseFeed(fixture('rss2.xml'));
+
+        expect(rates.title).toBe('Central bank holds rates steady & signals caution');
+        expect(rates.link).toBe('https://www.bbc.com/news/articles/c2rates');
+        expect(rates.published_at).toBe('2026-01-19T10:00:00.000Z');
+        expect(rates.image_url).toBe('https://ichef.bbci.co.uk/news/240/rates.jpg');
+    });
+
+    it('parses Atom entries', () => {
+        const items = parseFeed(fixture('atom.xml'));
+
+        expect(items).toHaveLength(2);
+        expect(items[0]).toEqual({
+            title: 'Flooding displaces thousands across Jakarta',
+            link: 'https://www.theguardian.com/world/2026/jan/19/jakarta-floods',
+            description: 'Heavy monsoon rains have forced evacuations.',
+            published_at: '2026-01-19T06:15:00.000Z',
+            image_url: 'https://i.guim.co.uk/jakarta.jpg',
+        });
+        expect(items[1].link).toBe('https://www.theguardian.com/business/2026/jan/19/rare-earths');
+        expect(items[1].published_at).toBe('2026-01-19T09:45:00.000Z');
+        expect(items[1].description).toBe('Semiconductor firms are signing long-term contracts.');
+    });
+
+    it('rejects documents that are not feeds', () => {
+        expect(() => parseFeed('<html><body>nope</body></html>')).toThrow('Unrecognized feed format');
+    });
+});
+
+describe('fetchFeed', () => {
+    it('returns items and validators on 200', async () => {
+        const fetcher = vi.fn(async () => new Response(fixture('atom.xml'), {
+            status: 200,
+            headers: { 'ETag': '"v1"', 'Last-Modified': 'Mon, 19 Jan 2026 12:00:00 GMT' },
+        }));
+
+        const result = await fetchFeed('https://example.com/feed', {}, fetcher);
+
+        expect(result.notModified).toBe(false);
+        expect(result.items).toHaveLength(2);
+        expect(result.etag).toBe('"v1"');
+        expect(result.lastModified).toBe('Mon, 19 Jan 2026 12:00:00 GMT');
+        expect((fetcher.mock.calls[0] as unknown as [string, RequestInit])[1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('sends stored validators and short-circuits on 304', async () => {
+        const fetcher = vi.fn(async () => new Response(null, { status: 304 }));
+
+        const result = await fetchFeed(
+            'https://example.com/feed',
+            { etag: '"v1"', lastModified: 'Mon, 19 Jan 2026 12:00:00 GMT' },
+            fetcher
+        );
+
+        const headers = (fetcher.mock.calls[0] as unknown as [string, RequestInit])[1].headers as Record<string, string>;
+        expect(headers['If-None-Match']).toBe('"v1"');
+        expect(headers['If-Modified-Since']).toBe('Mon, 19 Jan 2026 12:00:00 GMT');
+        expect(result).toEqual({
+            notModified: true,
+            items: [],
+            etag: '"v1"',
+            lastModified: 'Mon, 19 Jan 2026 12:00:00 GMT',
+        });
+    });
+
+    it('throws on HTTP errors', async () => {
+        const fetcher = vi.fn(async () => new Response('gone', { status: 410 }));
+
+        await expect(fetchFeed('https://example.com/feed', {}, fetcher)).rejects.toThrow('Feed fetch error: 410');
+    });
+});
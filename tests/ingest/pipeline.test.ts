@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const marks = vi.hoisted(() => ({ advanced: [] as Array<[string, string, string | null]> }));
+
+vi.mock('../../src/config/database.js', () => ({
+    supabase: {
+        from: () => ({
+            upsert: (rows: Array<Record<string, unknown>>) => ({
+                select: async () => ({
+                    data: rows.map((row, i) => ({ id: `a${i}`, ...row })),
+                    error: null,
+                }),
+            }),
+        }),
+    },
+}));
+
+vi.mock('../../src/services/quota.js', () => ({
+    assertQuota: async () => undefined,
+    getRemaining: async () => 10,
+    getRunBudget: async () => 10,
+}));
+
+vi.mock('../../src/ingest/cursors.js', async () => ({
+    ...await vi.importActual<typeof import('../../src/ingest/cursors.js')>('../../src/ingest/cursors.js'),
+    getHighWaterMark: async () => '2026-02-01T00:00:00.000Z',
+    advanceHighWaterMark: async (adapter: string, scope: string, mark: string | null) => {
+        marks.advanced.push([adapter, scope, mark]);
+    },
+}));
+
+vi.mock('../../src/ingest/dedup.js', async () => ({
+    ...await vi.importActual<typeof import('../../src/ingest/dedup.js')>('../../src/ingest/dedup.js'),
+    linkNearDuplicates: async () => 0,
+}));
+
+vi.mock('../../src/ai/embeddings.js', () => ({ embedArticles: async () => undefined }));
+
+import { ingestFromAdapter } from '../../src/ingest/pipeline.js';
+import { FetchResult, NewsSourceAdapter } from '../../src/ingest/types.js';
+
+interface FakeArticle {
+    url: string;
+    published_at: string;
+}
+
+function fakeAdapter(result: FetchResult<FakeArticle>): NewsSourceAdapter<FakeArticle> {
+    return {
+        id: 'fake',
+        name: 'Fake',
+        quota: { dailyLimit: 100, articlesPerRequest: 10 },
+        scopes: [],
+        isConfigured: () => true,
+        fetch: async () => result,
+        map: (article) => ({
+            title: 'Headline',
+            excerpt: null,
+            url: article.url,
+            image_url: null,
+            published_at: article.published_at,
+            source_id: 'src-1',
+        }),
+    };
+}
+
+const items = [
+    { url: 'https://example.com/b', published_at: '2026-02-02T12:00:00.000Z' },
+    { url: 'https://example.com/a', published_at: '2026-02-02T10:00:00.000Z' },
+];
+
+describe('ingestFromAdapter', () => {
+    beforeEach(() => {
+        marks.advanced = [];
+    });
+
+    it('advances the high-water mark once paging reaches it', async () => {
+        const result = await ingestFromAdapter(fakeAdapter({ items, requests: 1, complete: true }));
+
+        expect(result).toMatchObject({ fetched: 2, stored: 2, requests: 1 });
+        expect(marks.advanced).toEqual([['fake', '*', '2026-02-02T12:00:00.000Z']]);
+    });
+
+    it('keeps the old mark when the fetch was cut off before reaching it', async () => {
+        const result = await ingestFromAdapter(fakeAdapter({ items, requests: 2, complete: false }), { maxPages: 2 });
+
+        expect(result).toMatchObject({ fetched: 2, stored: 2 });
+        expect(marks.advanced).toEqual([]);
+    });
+});
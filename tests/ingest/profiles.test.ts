@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { parseProfileInput } from '../../src/ingest/profiles.js';
+
+describe('parseProfileInput', () => {
+    it('normalizes a full profile', () => {
+        const parsed = parseProfileInput({
+            name: ' supply-chain-sea ',
+            adapters: ['newsdata', 'GNews'],
+            countries: ['SG', 'my', 'sg', ''],
+            queries: ['Supply Chain'],
+            max_pages: 2,
+        });
+
+        expect(parsed).toEqual({
+            data: {
+                name: 'supply-chain-sea',
+                adapters: ['newsdata', 'gnews'],
+                countries: ['sg', 'my'],
+                queries: ['Supply Chain'],
+                max_pages: 2,
+            },
+        });
+    });
+
+    it('requires a name on create but not on update', () => {
+        expect(parseProfileInput({ queries: ['ports'] })).toEqual({ error: 'name is required' });
+        expect(parseProfileInput({ is_active: false }, { partial: true })).toEqual({ data: { is_active: false } });
+    });
+
+    it('rejects unknown adapters and malformed fields', () => {
+        expect(parseProfileInput({ name: 'x', adapters: ['bloomberg'] })).toEqual({ error: 'Unknown news source: bloomberg' });
+        expect(parseProfileInput({ name: 'x', categories: 'world' })).toEqual({ error: 'categories must be an array of strings' });
+        expect(parseProfileInput({ name: 'x', max_pages: 0 })).toEqual({ error: 'max_pages must be a positive integer' });
+        expect(parseProfileInput(null)).toEqual({ error: 'Body must be an object' });
+    });
+
+    it('caps fan-out list length', () => {
+        const countries = Array.from({ length: 21 }, (_, i) => `c${i}`);
+        expect(parseProfileInput({ name: 'x', countries })).toEqual({ error: 'countries accepts at most 20 values' });
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const db = vi.hoisted(() => ({ updates: [] as Array<{ values: Record<string, unknown>; id: string }> }));
+
+vi.mock('../../src/config/database.js', () => ({
+    supabase: {
+        from: () => ({
+            select: () => ({
+                not: async () => ({
+                    data: [{ id: 'src-1', name: 'Example', feed_url: 'https://example.com/feed', feed_etag: '"v0"', feed_last_modified: null }],
+                    error: null,
+                }),
+            }),
+            update: (values: Record<string, unknown>) => ({
+                eq: async (_column: string, id: string) => {
+                    db.updates.push({ values, id });
+                    return { error: null };
+                },
+            }),
+        }),
+    },
+}));
+
+import { fetchFromFeeds } from '../../src/ingest/rss.js';
+
+describe('fetchFromFeeds', () => {
+    it('saves new validators only when the result is committed', async () => {
+        const xml = readFileSync(join(__dirname, '../fixtures/feeds', 'atom.xml'), 'utf-8');
+        const fetcher = async () => new Response(xml, { status: 200, headers: { 'ETag': '"v1"' } });
+
+        const result = await fetchFromFeeds(fetcher);
+
+        expect(result.items).toHaveLength(2);
+        expect(result.items[0].source_id).toBe('src-1');
+        expect(db.updates).toEqual([]);
+
+        await result.commit?.();
+
+        expect(db.updates).toEqual([
+            { id: 'src-1', values: expect.objectContaining({ feed_etag: '"v1"', feed_last_modified: null }) },
+        ]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { hasRole, requireRole } from '../../src/middleware/auth.js';
+import { generateApiKey, hashApiKey, hasScope } from '../../src/services/apiKeys.js';
+
+function fakeReply() {
+    const reply: any = {
+        sent: false,
+        statusCode: 200,
+        payload: undefined,
+        code(status: number) {
+            reply.statusCode = status;
+            return reply;
+        },
+        send(payload: unknown) {
+            reply.payload = payload;
+            reply.sent = true;
+            return reply;
+        },
+    };
+    return reply;
+}
+
+describe('hasRole', () => {
+    it('ranks people so higher roles pass lower checks', () => {
+        expect(hasRole({ id: 'u', role: 'admin' }, ['editor'])).toBe(true);
+        expect(hasRole({ id: 'u', role: 'editor' }, ['editor'])).toBe(true);
+        expect(hasRole({ id: 'u', role: 'reader' }, ['editor'])).toBe(false);
+        expect(hasRole({ id: 'u', role: 'editor' }, ['admin'])).toBe(false);
+    });
+
+    it('only lets service keys through when service is allowed and the scope matches', () => {
+        const ingestKey = { id: 'service:1', role: 'service' as const, apiKey: { id: '1', name: 'cron', scopes: ['ingest' as const] } };
+
+        expect(hasRole(ingestKey, ['editor'], 'ingest')).toBe(false);
+        expect(hasRole(ingestKey, ['editor', 'service'], 'ingest')).toBe(true);
+        expect(hasRole(ingestKey, ['editor', 'service'], 'ai')).toBe(false);
+    });
+
+    it('never ranks people by the service role', () => {
+        expect(hasRole({ id: 'u', role: 'admin' }, ['service'])).toBe(false);
+    });
+
+    it('rejects service users that did not come from an API key', () => {
+        expect(hasRole({ id: 'u', role: 'service' }, ['editor', 'service'], 'ingest')).toBe(false);
+        expect(hasRole({ id: 'u', role: 'service' }, ['service'])).toBe(false);
+    });
+});
+
+describe('requireRole', () => {
+    it('rejects authenticated users without the role', async () => {
+        const reply = fakeReply();
+        await requireRole('admin')({ user: { id: 'u', role: 'editor' }, headers: {} } as any, reply);
+
+        expect(reply.statusCode).toBe(403);
+    });
+
+    it('passes users with the role', async () => {
+        const reply = fakeReply();
+        await requireRole(['editor', 'service'], { scope: 'ingest' })({ user: { id: 'u', role: 'admin' }, headers: {} } as any, reply);
+
+        expect(reply.sent).toBe(false);
+    });
+
+    it('authenticates first when no user is attached', async () => {
+        const reply = fakeReply();
+        await requireRole('reader')({ headers: {} } as any, reply);
+
+        expect(reply.statusCode).toBe(401);
+    });
+});
+
+describe('service API keys', () => {
+    it('generates prefixed random keys and hashes them deterministically', () => {
+        const key = generateApiKey();
+
+        expect(key).toMatch(/^nsk_[\w-]{43}$/);
+        expect(generateApiKey()).not.toBe(key);
+        expect(hashApiKey(key)).toBe(hashApiKey(key));
+        expect(hashApiKey(key)).toHaveLength(64);
+    });
+
+    it('treats * as every scope', () => {
+        expect(hasScope({ scopes: ['*'] }, 'jobs')).toBe(true);
+        expect(hasScope({ scopes: ['ingest'] }, 'jobs')).toBe(false);
+    });
+});
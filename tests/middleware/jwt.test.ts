@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+import jwt from '@fastify/jwt';
+
+const SUPABASE_URL = 'https://project.supabase.co';
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+const env = vi.hoisted(() => ({
+    SUPABASE_URL: '',
+    SUPABASE_JWT_SECRET: '',
+    AUTH_REVOCATION_CHECK_SECONDS: 0,
+}));
+
+const auth = vi.hoisted(() => ({
+    getUser: async (_token: string): Promise<any> => ({ data: { user: { id: 'user-1' } }, error: null }),
+    profileRole: null as string | null,
+}));
+
+vi.mock('../../src/config/env.js', () => ({ env }));
+
+vi.mock('../../src/config/database.js', () => {
+    const query: any = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: auth.profileRole ? { role: auth.profileRole } : null, error: null }),
+    };
+    return {
+        supabase: {
+            from: () => query,
+            auth: { getUser: (token: string) => auth.getUser(token) },
+        },
+    };
+});
+
+import { jwtOptions, requireAuth } from '../../src/middleware/auth.js';
+import { createJwksResolver } from '../../src/services/jwks.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function claims(overrides: Record<string, unknown> = {}) {
+    return {
+        sub: 'user-1',
+        email: 'reader@example.com',
+        aud: 'authenticated',
+        iss: `${SUPABASE_URL}/auth/v1`,
+        role: 'authenticated',
+        session_id: `session-${Math.random()}`,
+        iat: now(),
+        exp: now() + 3600,
+        ...overrides,
+    };
+}
+
+async function buildApp(fetcher?: (url: string) => Promise<Response>): Promise<FastifyInstance> {
+    const app = Fastify();
+    await app.register(jwt, jwtOptions(fetcher));
+    app.get('/me', { preHandler: requireAuth }, async (request) => request.user);
+    await app.ready();
+    return app;
+}
+
+async function callMe(app: FastifyInstance, token: string) {
+    return app.inject({ method: 'GET', url: '/me', headers: { authorization: `Bearer ${token}` } });
+}
+
+describe('requireAuth with an HS256 secret', () => {
+    let app: FastifyInstance;
+    let signer: FastifyInstance;
+
+    beforeEach(async () => {
+        env.SUPABASE_URL = SUPABASE_URL;
+        env.SUPABASE_JWT_SECRET = SECRET;
+        env.AUTH_REVOCATION_CHECK_SECONDS = 0;
+        auth.profileRole = null;
+        app = await buildApp();
+
+        signer = Fastify();
+        await signer.register(jwt, { secret: SECRET });
+        await signer.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        await signer.close();
+    });
+
+    it('accepts a locally minted token without calling the auth server', async () => {
+        const getUser = vi.spyOn(auth, 'getUser');
+        const response = await callMe(app, signer.jwt.sign(claims({ app_metadata: { role: 'editor' } })));
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toEqual({ id: 'user-1', email: 'reader@example.com', role: 'editor' });
+        expect(getUser).not.toHaveBeenCalled();
+        getUser.mockRestore();
+    });
+
+    it('falls back to the profile role when the token has no role claim', async () => {
+        auth.profileRole = 'admin';
+        const response = await callMe(app, signer.jwt.sign(claims()));
+
+        expect(response.json().role).toBe('admin');
+    });
+
+    it('ignores unknown role claims', async () => {
+        const response = await callMe(app, signer.jwt.sign(claims({ app_metadata: { role: 'superuser' } })));
+
+        expect(response.json().role).toBe('reader');
+    });
+
+    it('rejects expired tokens, wrong audiences, wrong issuers and bad signatures', async () => {
+        const forger = Fastify();
+        await forger.register(jwt, { secret: 'another-secret-with-at-least-32-chars!!' });
+        await forger.ready();
+
+        for (const token of [
+            signer.jwt.sign(claims({ iat: now() - 7200, exp: now() - 3600 })),
+            signer.jwt.sign(claims({ aud: 'anon' })),
+            signer.jwt.sign(claims({ iss: 'https://evil.example/auth/v1' })),
+            forger.jwt.sign(claims()),
+        ]) {
+            expect((await callMe(app, token)).statusCode).toBe(401);
+        }
+
+        await forger.close();
+    });
+
+    it('rejects sessions the auth server reports as revoked', async () => {
+        env.AUTH_REVOCATION_CHECK_SECONDS = 300;
+        const getUser = vi.spyOn(auth, 'getUser').mockResolvedValue({
+            data: { user: null },
+            error: { status: 403, message: 'Session not found' },
+        });
+
+        const response = await callMe(app, signer.jwt.sign(claims()));
+
+        expect(response.statusCode).toBe(401);
+        expect(response.json()).toEqual({ error: 'Session revoked' });
+        getUser.mockRestore();
+    });
+
+    it('checks revocation once per session per interval and fails open on outages', async () => {
+        env.AUTH_REVOCATION_CHECK_SECONDS = 300;
+        const getUser = vi.spyOn(auth, 'getUser').mockRejectedValue(new Error('fetch failed'));
+        const token = signer.jwt.sign(claims());
+
+        expect((await callMe(app, token)).statusCode).toBe(200);
+        expect((await callMe(app, token)).statusCode).toBe(200);
+        expect(getUser).toHaveBeenCalledTimes(1);
+        getUser.mockRestore();
+    });
+});
+
+describe('requireAuth with JWKS', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'ES256' }] };
+
+    it('verifies asymmetric tokens with keys fetched from the project JWKS', async () => {
+        env.SUPABASE_URL = SUPABASE_URL;
+        env.SUPABASE_JWT_SECRET = '';
+        env.AUTH_REVOCATION_CHECK_SECONDS = 0;
+
+        const fetcher = vi.fn(async () => new Response(JSON.stringify(jwks)));
+        const app = await buildApp(fetcher);
+
+        const signer = Fastify();
+        await signer.register(jwt, {
+            secret: {
+                private: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+                public: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            },
+            sign: { algorithm: 'ES256', kid: 'key-1' },
+        });
+        await signer.ready();
+
+        const first = await callMe(app, signer.jwt.sign(claims()));
+        const second = await callMe(app, signer.jwt.sign(claims()));
+
+        expect(first.statusCode).toBe(200);
+        expect(second.statusCode).toBe(200);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(fetcher).toHaveBeenCalledWith(`${SUPABASE_URL}/auth/v1/.well-known/jwks.json`);
+
+        await app.close();
+        await signer.close();
+    });
+});
+
+describe('createJwksResolver', () => {
+    const keyA = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({ format: 'jwk' });
+    const keyB = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({ format: 'jwk' });
+
+    it('refetches on an unknown kid to pick up rotated keys', async () => {
+        let keys = [{ ...keyA, kid: 'a' }];
+        const fetcher = vi.fn(async () => new Response(JSON.stringify({ keys })));
+        const resolve = createJwksResolver('https://auth.example/jwks', { minRefreshIntervalMs: 0, fetcher });
+
+        expect(await resolve('a')).toContain('BEGIN PUBLIC KEY');
+
+        keys = [{ ...keyA, kid: 'a' }, { ...keyB, kid: 'b' }];
+        expect(await resolve('b')).toContain('BEGIN PUBLIC KEY');
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('limits refetches for unknown kids', async () => {
+        const fetcher = vi.fn(async () => new Response(JSON.stringify({ keys: [{ ...keyA, kid: 'a' }] })));
+        const resolve = createJwksResolver('https://auth.example/jwks', { fetcher });
+
+        await resolve('a');
+        await expect(resolve('forged')).rejects.toThrow('Unknown signing key: forged');
+        await expect(resolve('forged')).rejects.toThrow('Unknown signing key: forged');
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps using cached keys when a refresh fails', async () => {
+        let fail = false;
+        const fetcher = vi.fn(async () => (fail
+            ? new Response('unavailable', { status: 503 })
+            : new Response(JSON.stringify({ keys: [{ ...keyA, kid: 'a' }] }))));
+        const resolve = createJwksResolver('https://auth.example/jwks', { ttlMs: 0, fetcher });
+
+        await resolve('a');
+        fail = true;
+        expect(await resolve('a')).toContain('BEGIN PUBLIC KEY');
+    });
+});
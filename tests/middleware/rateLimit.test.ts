@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import jwt from '@fastify/jwt';
+import rateLimit from '@fastify/rate-limit';
+
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+const state = vi.hoisted(() => ({
+    tiers: {} as Record<string, string>,
+    validKeys: new Set<string>(),
+}));
+
+vi.mock('../../src/config/env.js', () => ({
+    env: { SUPABASE_URL: '', SUPABASE_JWT_SECRET: 'test-secret-with-at-least-32-characters!', AUTH_REVOCATION_CHECK_SECONDS: 0 },
+}));
+
+vi.mock('../../src/config/database.js', () => {
+    let userId = '';
+    const query: any = {
+        select: () => query,
+        eq: (_column: string, value: string) => {
+            userId = value;
+            return query;
+        },
+        maybeSingle: async () => ({
+            data: state.tiers[userId] ? { subscription_tier: state.tiers[userId] } : null,
+            error: null,
+        }),
+    };
+    return { supabase: { from: () => query } };
+});
+
+vi.mock('../../src/services/apiKeys.js', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../../src/services/apiKeys.js')>(),
+    verifyApiKey: async (key: string) => (state.validKeys.has(key) ? { id: 'key-1' } : null),
+}));
+
+import { jwtOptions } from '../../src/middleware/auth.js';
+import { limitFor, rateLimitOptions, routeGroup } from '../../src/middleware/rateLimit.js';
+
+describe('routeGroup', () => {
+    it('puts AI-backed writes in the strict group and reads in the read group', () => {
+        expect(routeGroup('POST', '/api/ai/analyze/:id')).toBe('ai');
+        expect(routeGroup('POST', '/api/stories/cluster')).toBe('ai');
+        expect(routeGroup('GET', '/api/ai/stats')).toBe('read');
+        expect(routeGroup('GET', '/api/stories/:slug')).toBe('read');
+        expect(routeGroup('POST', '/api/v1/investigations/')).toBe('write');
+        expect(routeGroup('GET', '/api/ingest/status')).toBe('internal');
+        expect(routeGroup('POST', '/api/v1/auth/verify')).toBe('auth');
+    });
+});
+
+describe('rate limiting', () => {
+    let app: FastifyInstance;
+    let signer: FastifyInstance;
+
+    beforeEach(async () => {
+        state.tiers = {};
+        state.validKeys = new Set();
+
+        app = Fastify();
+        await app.register(jwt, jwtOptions());
+        await app.register(rateLimit, rateLimitOptions());
+        app.get('/api/stories', async () => ({ ok: true }));
+        app.post('/api/ai/process', async () => ({ ok: true }));
+        app.get('/health', async () => ({ ok: true }));
+        await app.ready();
+
+        signer = Fastify();
+        await signer.register(jwt, { secret: SECRET });
+        await signer.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        await signer.close();
+    });
+
+    function token(sub: string) {
+        return signer.jwt.sign({ sub, aud: 'authenticated' });
+    }
+
+    async function exhaust(url: string, method: 'GET' | 'POST', headers: Record<string, string>, limit: number) {
+        for (let i = 0; i < limit; i++) {
+            expect((await app.inject({ method, url, headers })).statusCode).toBe(200);
+        }
+        return app.inject({ method, url, headers });
+    }
+
+    it('limits anonymous callers by IP and sends RateLimit headers', async () => {
+        const first = await app.inject({ method: 'GET', url: '/api/stories' });
+
+        expect(first.headers['ratelimit-limit']).toBe(String(limitFor('read', 'anonymous')));
+        expect(first.headers['ratelimit-remaining']).toBe(String(limitFor('read', 'anonymous') - 1));
+
+        const limited = await exhaust('/api/stories', 'GET', {}, limitFor('read', 'anonymous') - 1);
+        expect(limited.statusCode).toBe(429);
+        expect(limited.headers['retry-after']).toBeDefined();
+    });
+
+    it('sizes user buckets by subscription tier and keeps users apart', async () => {
+        state.tiers['pro-user'] = 'pro';
+
+        const free = await app.inject({ method: 'POST', url: '/api/ai/process', headers: { authorization: `Bearer ${token('free-user')}` } });
+        const pro = await app.inject({ method: 'POST', url: '/api/ai/process', headers: { authorization: `Bearer ${token('pro-user')}` } });
+
+        expect(free.headers['ratelimit-limit']).toBe(String(limitFor('ai', 'free')));
+        expect(pro.headers['ratelimit-limit']).toBe(String(limitFor('ai', 'pro')));
+
+        const limited = await exhaust('/api/ai/process', 'POST', { authorization: `Bearer ${token('free-user')}` }, limitFor('ai', 'free') - 1);
+        expect(limited.statusCode).toBe(429);
+        expect((await app.inject({ method: 'POST', url: '/api/ai/process', headers: { authorization: `Bearer ${token('pro-user')}` } })).statusCode).toBe(200);
+    });
+
+    it('counts route groups separately', async () => {
+        const headers = { authorization: `Bearer ${token('free-user')}` };
+        await exhaust('/api/ai/process', 'POST', headers, limitFor('ai', 'free'));
+
+        expect((await app.inject({ method: 'GET', url: '/api/stories', headers })).statusCode).toBe(200);
+    });
+
+    it('gives valid API keys the service tier and counts invalid ones against the IP', async () => {
+        state.validKeys.add('nsk_valid');
+
+        const valid = await app.inject({ method: 'GET', url: '/api/stories', headers: { 'x-api-key': 'nsk_valid' } });
+        const forged = await app.inject({ method: 'GET', url: '/api/stories', headers: { 'x-api-key': 'nsk_forged' } });
+        const forgedToken = await app.inject({ method: 'GET', url: '/api/stories', headers: { authorization: 'Bearer not-a-jwt' } });
+
+        expect(valid.headers['ratelimit-limit']).toBe(String(limitFor('read', 'service')));
+        expect(forged.headers['ratelimit-limit']).toBe(String(limitFor('read', 'anonymous')));
+        expect(forgedToken.headers['ratelimit-remaining']).toBe(String(limitFor('read', 'anonymous') - 2));
+    });
+
+    it('never limits health checks', async () => {
+        const response = await app.inject({ method: 'GET', url: '/health' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+});
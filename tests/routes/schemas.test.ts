@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+const calls = vi.hoisted(() => ({ limits: [] as number[], contentLimits: [] as number[], row: null as unknown }));
+
+vi.mock('../../src/config/database.js', () => {
+    // Every query resolves to an empty result
+    const query: any = new Proxy({}, {
+        get(_target, property) {
+            if (property === 'then') {
+                return (resolve: (value: unknown) => void) => resolve({ data: [], count: 0, error: null });
+            }
+            if (property === 'limit') {
+                return (count: number) => {
+                    calls.limits.push(count);
+                    return query;
+                };
+            }
+            if (property === 'single' || property === 'maybeSingle') {
+                return async () => ({ data: calls.row, error: null });
+            }
+            return () => query;
+        },
+    });
+    return { supabase: { from: () => query } };
+});
+
+vi.mock('../../src/ingest/content.js', () => ({
+    runContentExtractionJob: async (limit: number) => {
+        calls.contentLimits.push(limit);
+        return { attempted: 0, extracted: 0, paywalled: 0, failed: 0 };
+    },
+}));
+
+vi.mock('../../src/services/clustering.js', () => ({ runClusteringJob: async () => ({}) }));
+
+vi.mock('../../src/middleware/auth.js', () => ({
+    requireAuth: async () => undefined,
+    requireRole: () => async () => undefined,
+}));
+
+import { registerOpenApi, toOpenApiPath } from '../../src/schemas/openapi.js';
+import { healthRoutes } from '../../src/routes/health.js';
+import { articlesRoutes } from '../../src/routes/v1/articles.js';
+import { ingestRoutes } from '../../src/routes/ingest.js';
+import storiesRoutes from '../../src/routes/stories.js';
+
+describe('route schemas', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = Fastify();
+        registerOpenApi(app, '/api/v1', { title: 'Newsportal API', version: '1.0.0' });
+        await app.register(healthRoutes);
+        await app.register(articlesRoutes, { prefix: '/api/v1/articles' });
+        await app.register(storiesRoutes, { prefix: '/api' });
+        await app.register(ingestRoutes, { prefix: '/api/ingest' });
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    it('coerces query strings and applies defaults', async () => {
+        calls.limits = [];
+        const response = await app.inject({ method: 'GET', url: '/api/v1/articles?limit=30' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toEqual({ data: [], next_cursor: null, total: 0 });
+        // One extra row tells whether there is a next page
+        expect(calls.limits).toEqual([31]);
+    });
+
+    it('rejects page sizes above the maximum and malformed values', async () => {
+        for (const url of [
+            '/api/v1/articles?limit=100000',
+            '/api/v1/articles?limit=abc',
+            '/api/v1/articles?limit=0',
+            '/api/v1/articles?cursor=not-a-cursor',
+            '/api/stories?limit=101',
+        ]) {
+            const response = await app.inject({ method: 'GET', url });
+            expect(response.statusCode, url).toBe(400);
+            expect(response.json().message).toBeDefined();
+        }
+    });
+
+    it('rejects malformed ids', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/articles/not-a-uuid' });
+
+        expect(response.statusCode).toBe(400);
+    });
+
+    it('accepts POSTs without a body and validates bodies that are sent', async () => {
+        calls.contentLimits = [];
+
+        expect((await app.inject({ method: 'POST', url: '/api/ingest/content' })).statusCode).toBe(200);
+        expect((await app.inject({ method: 'POST', url: '/api/ingest/content', payload: { limit: 50 } })).statusCode).toBe(200);
+        expect((await app.inject({ method: 'POST', url: '/api/ingest/content', payload: { limit: 5000 } })).statusCode).toBe(400);
+        expect(calls.contentLimits).toEqual([20, 50]);
+    });
+
+    it('validates story edit bodies before touching any story', async () => {
+        const story = '/api/stories/00000000-0000-4000-8000-00000000000a';
+
+        for (const [url, payload] of [
+            [`${story}/merge`, {}],
+            [`${story}/merge`, { source_id: 'not-a-uuid' }],
+            [`${story}/split`, { article_ids: [] }],
+            [`${story}/articles`, { article_ids: ['not-a-uuid'] }],
+        ] as const) {
+            const response = await app.inject({ method: 'POST', url, payload });
+            expect(response.statusCode, `${url} ${JSON.stringify(payload)}`).toBe(400);
+        }
+    });
+
+    it('validates version numbers and 404s unknown stories', async () => {
+        expect((await app.inject({ method: 'GET', url: '/api/stories/some-story/versions/diff?from=0' })).statusCode).toBe(400);
+        expect((await app.inject({ method: 'GET', url: '/api/stories/some-story/versions/latest' })).statusCode).toBe(400);
+        expect((await app.inject({ method: 'GET', url: '/api/stories/some-story/versions' })).statusCode).toBe(404);
+    });
+
+    it('serializes the stored synthesis sections as an array', async () => {
+        const sections = [{ title: 'Summary', content: 'Rates rose [AP].', citations: [{ source: 'AP', article_id: 'a1' }] }];
+        calls.row = { id: '00000000-0000-4000-8000-00000000000a', title: 'Rates rise', slug: 'rates-rise', synthesis: sections };
+
+        try {
+            const response = await app.inject({ method: 'GET', url: '/api/stories/rates-rise' });
+            const body = response.json();
+
+            expect(response.statusCode).toBe(200);
+            expect(Array.isArray(body.synthesis)).toBe(true);
+            expect(body.synthesis).toEqual(sections);
+        } finally {
+            calls.row = null;
+        }
+    });
+
+    it('only serializes declared response fields', async () => {
+        const response = await app.inject({ method: 'GET', url: '/health' });
+
+        expect(Object.keys(response.json()).sort()).toEqual(['status', 'timestamp', 'version']);
+    });
+
+    it('serves an OpenAPI document built from the schemas', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1' });
+        const document = response.json();
+
+        expect(response.statusCode).toBe(200);
+        expect(document.openapi).toBe('3.1.0');
+        expect(document.paths['/api/v1']).toBeUndefined();
+
+        const list = document.paths['/api/v1/articles'].get;
+        expect(list.parameters).toContainEqual(expect.objectContaining({
+            name: 'limit',
+            in: 'query',
+            schema: expect.objectContaining({ maximum: 100 }),
+        }));
+
+        const detail = document.paths['/api/stories/{slug}'].get;
+        expect(detail.parameters).toContainEqual(expect.objectContaining({ name: 'slug', in: 'path', required: true }));
+        expect(Object.keys(detail.responses)).toEqual(['200', '404']);
+
+        const run = document.paths['/api/ingest/{adapter}'].post;
+        expect(run.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+        expect(run.requestBody.content['application/json'].schema.properties.maxPages).toBeDefined();
+    });
+});
+
+describe('toOpenApiPath', () => {
+    it('converts path parameters and drops trailing slashes', () => {
+        expect(toOpenApiPath('/api/admin/jobs/:type/run')).toBe('/api/admin/jobs/{type}/run');
+        expect(toOpenApiPath('/api/v1/articles/')).toBe('/api/v1/articles');
+        expect(toOpenApiPath('/')).toBe('/');
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ record: null as Record<string, unknown> | null, updates: 0 }));
+
+vi.mock('../../src/config/database.js', () => {
+    const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        is: () => builder,
+        maybeSingle: async () => ({ data: db.record, error: null }),
+        update: () => ({
+            eq: () => ({
+                then: (resolve: (value: unknown) => void) => {
+                    db.updates++;
+                    resolve({ error: null });
+                },
+            }),
+        }),
+    };
+    return { supabase: { from: () => builder } };
+});
+
+import { generateApiKey, verifyApiKey } from '../../src/services/apiKeys.js';
+
+describe('verifyApiKey', () => {
+    beforeEach(() => {
+        db.updates = 0;
+    });
+
+    it('records use only when last_used_at is stale', async () => {
+        const key = generateApiKey();
+
+        db.record = { id: 'k1', scopes: ['ingest'], expires_at: null, last_used_at: new Date().toISOString() };
+        expect(await verifyApiKey(key)).toMatchObject({ id: 'k1' });
+        expect(db.updates).toBe(0);
+
+        db.record = { id: 'k1', scopes: ['ingest'], expires_at: null, last_used_at: '2026-01-01T00:00:00Z' };
+        await verifyApiKey(key);
+        expect(db.updates).toBe(1);
+    });
+
+    it('rejects expired keys', async () => {
+        db.record = { id: 'k1', scopes: ['ingest'], expires_at: '2026-01-01T00:00:00Z', last_used_at: null };
+
+        expect(await verifyApiKey(generateApiKey())).toBeNull();
+        expect(db.updates).toBe(0);
+    });
+});
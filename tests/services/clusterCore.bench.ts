@@ -0,0 +1,34 @@
+import { bench, describe } from 'vitest';
+import { ClusterItem, clusterItems } from '../../src/services/clusterCore.js';
+import { tokenize } from '../../src/services/text.js';
+import { syntheticCorpus, syntheticEmbeddings } from '../fixtures/syntheticCorpus.js';
+
+// Run with: npm run bench
+for (const size of [500, 2000]) {
+    const corpus = syntheticCorpus({ events: size / 8, articlesPerEvent: 8 });
+    const embeddings = syntheticEmbeddings(corpus, { dimensions: 1024 });
+    const items: ClusterItem[] = corpus.map((a, i) => ({
+        id: a.id,
+        publishedAt: Date.parse(a.published_at),
+        tokens: tokenize(`${a.title} ${a.excerpt}`),
+        embedding: embeddings[i],
+    }));
+
+    describe(`${size} articles over 30 days`, () => {
+        bench('tfidf + greedy', () => {
+            clusterItems(items, { threshold: 0.2, algorithm: 'greedy' });
+        });
+
+        bench('tfidf + agglomerative', () => {
+            clusterItems(items, { threshold: 0.2, algorithm: 'agglomerative' });
+        });
+
+        bench('tfidf + hdbscan', () => {
+            clusterItems(items, { threshold: 0.2, algorithm: 'hdbscan' });
+        });
+
+        bench('embeddings (LSH) + greedy', () => {
+            clusterItems(items, { threshold: 0.7, vectors: 'embedding', algorithm: 'greedy' });
+        }, { iterations: 3 });
+    });
+}
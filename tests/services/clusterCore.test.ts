@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import {
+    agglomerative,
+    buildSimilarityGraph,
+    ClusterItem,
+    clusterItems,
+    greedy,
+    hdbscan,
+    lshParameters,
+    SimilarityGraph,
+    tfidfVectors,
+} from '../../src/services/clusterCore.js';
+import { tokenize } from '../../src/services/text.js';
+import { syntheticCorpus, syntheticEmbeddings } from '../fixtures/syntheticCorpus.js';
+
+function items(corpus: ReturnType<typeof syntheticCorpus>, embeddings?: number[][]): ClusterItem[] {
+    return corpus.map((a, i) => ({
+        id: a.id,
+        publishedAt: Date.parse(a.published_at),
+        tokens: tokenize(`${a.title} ${a.excerpt}`),
+        embedding: embeddings?.[i] ?? null,
+    }));
+}
+
+function graphOf(size: number, edges: Array<[number, number, number]>): SimilarityGraph {
+    const graph: SimilarityGraph = { size, edges: Array.from({ length: size }, () => new Map()), pairsScored: edges.length };
+    for (const [a, b, similarity] of edges) {
+        graph.edges[a].set(b, similarity);
+        graph.edges[b].set(a, similarity);
+    }
+    return graph;
+}
+
+// Share of clusters whose members all come from one event, and of events kept in one cluster
+function agreement(corpus: ReturnType<typeof syntheticCorpus>, clusters: Array<{ items: number[] }>) {
+    const pure = clusters.filter((c) => new Set(c.items.map((i) => corpus[i].event)).size === 1).length;
+    const events = new Set(corpus.map((a) => a.event));
+    const whole = [...events].filter((event) =>
+        clusters.some((c) => c.items.length === corpus.filter((a) => a.event === event).length
+            && c.items.every((i) => corpus[i].event === event))
+    ).length;
+    return { purity: pure / clusters.length, completeness: whole / events.size };
+}
+
+describe('tfidfVectors', () => {
+    it('produces unit vectors that weight rare terms above common ones', () => {
+        const [first] = tfidfVectors([
+            ['quake', 'japan', 'report'],
+            ['election', 'report'],
+            ['market', 'report'],
+        ]);
+
+        const norm = Math.sqrt(first.weights.reduce((sum, w) => sum + w * w, 0));
+        expect(norm).toBeCloseTo(1, 10);
+        // quake (id 0) outweighs report (id 2), which every document has
+        expect(first.weights[0]).toBeGreaterThan(first.weights[2]);
+    });
+});
+
+describe('greedy', () => {
+    it('matches a full scan over every pair', () => {
+        const corpus = syntheticCorpus({ events: 20, articlesPerEvent: 6, spanHours: 48 });
+        const input = items(corpus);
+        const graph = buildSimilarityGraph(input, { threshold: 0.2, windowHours: Infinity });
+        const order = input.map((_, i) => i).sort((a, b) => input[b].publishedAt - input[a].publishedAt || a - b);
+
+        // The original loop: each unassigned item checked once, in order, against the growing cluster
+        const reference: number[][] = [];
+        const assigned = new Set<number>();
+        for (const seed of order) {
+            if (assigned.has(seed)) continue;
+            const members = [seed];
+            assigned.add(seed);
+            for (const candidate of order) {
+                if (assigned.has(candidate)) continue;
+                const mean = members.reduce((sum, m) => sum + (graph.edges[m].get(candidate) || 0), 0) / members.length;
+                if (mean >= 0.2) {
+                    members.push(candidate);
+                    assigned.add(candidate);
+                }
+            }
+            reference.push(members);
+        }
+
+        expect(greedy(graph, order, { threshold: 0.2 })).toEqual(reference);
+    });
+});
+
+describe('agglomerative and hdbscan', () => {
+    // a-b strongly similar, b-c moderately, a-c unrelated; d isolated
+    const graph = graphOf(4, [[0, 1, 0.9], [1, 2, 0.5]]);
+    const order = [0, 1, 2, 3];
+
+    it('average linkage keeps a chained item out when its mean similarity is too low', () => {
+        expect(agglomerative(graph, order, { threshold: 0.4 })).toEqual([[0, 1], [2], [3]]);
+    });
+
+    it('hdbscan joins items through dense neighbourhoods and drops small groups as noise', () => {
+        expect(hdbscan(graph, order, { threshold: 0.4 })).toEqual([[0, 1, 2], [3]]);
+        expect(hdbscan(graph, order, { threshold: 0.4, minClusterSize: 4 })).toEqual([[0], [1], [2], [3]]);
+    });
+});
+
+describe('clusterItems', () => {
+    const corpus = syntheticCorpus({ events: 60, articlesPerEvent: 8 });
+
+    it('only scores a small share of pairs and recovers the events', () => {
+        for (const algorithm of ['greedy', 'agglomerative', 'hdbscan'] as const) {
+            const run = clusterItems(items(corpus), { threshold: 0.2, algorithm });
+            const { purity, completeness } = agreement(corpus, run.clusters);
+
+            expect(run.pairsScored, algorithm).toBeLessThan((corpus.length * (corpus.length - 1)) / 2 * 0.1);
+            expect(purity, algorithm).toBeGreaterThan(0.95);
+            expect(completeness, algorithm).toBeGreaterThan(0.8);
+        }
+    });
+
+    it('clusters embeddings through LSH buckets', () => {
+        const run = clusterItems(items(corpus, syntheticEmbeddings(corpus)), { threshold: 0.7, vectors: 'embedding' });
+        const { purity, completeness } = agreement(corpus, run.clusters);
+
+        expect(run.pairsScored).toBeLessThan((corpus.length * (corpus.length - 1)) / 2 * 0.25);
+        expect(purity).toBeGreaterThan(0.95);
+        expect(completeness).toBeGreaterThan(0.8);
+    });
+
+    it('never groups items published outside the time window', () => {
+        const text = tokenize('Central bank raises interest rates to curb inflation');
+        const input = [
+            { id: 'a', publishedAt: 0, tokens: text },
+            { id: 'b', publishedAt: 100 * 3600000, tokens: text },
+            { id: 'c', publishedAt: 101 * 3600000, tokens: text },
+        ];
+
+        const run = clusterItems(input, { threshold: 0.2, windowHours: 72 });
+        expect(run.clusters.map((c) => c.items)).toEqual([[2, 1], [0]]);
+    });
+});
+
+describe('lshParameters', () => {
+    it('keeps recall at the threshold at 95% or more', () => {
+        for (const threshold of [0.3, 0.5, 0.7, 0.85]) {
+            const { bands, rows } = lshParameters(threshold);
+            const p = 1 - Math.acos(threshold) / Math.PI;
+            expect(1 - (1 - p ** rows) ** bands).toBeGreaterThanOrEqual(0.95);
+        }
+    });
+});
+
+describe('buildSimilarityGraph', () => {
+    it('proposes pairs that share only low-weight terms', () => {
+        // Each item's highest TF-IDF weights are its own words; only the lower-weighted shared terms can pair them
+        const unique = (prefix: string) => Array.from({ length: 12 }, (_, i) => `${prefix}word${i}`);
+        const input: ClusterItem[] = [
+            { id: 'a', publishedAt: 0, tokens: [...unique('alpha'), 'earthquake', 'tokyo'], embedding: null },
+            { id: 'b', publishedAt: 0, tokens: [...unique('bravo'), 'earthquake', 'tokyo'], embedding: null },
+        ];
+
+        const graph = buildSimilarityGraph(input, { threshold: 0.05, windowHours: Infinity });
+
+        expect(graph.pairsScored).toBe(1);
+        expect(graph.edges[0].get(1)).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+    evaluateClustering,
+    formatReport,
+    LabeledArticle,
+    scoreClustering,
+    sweepThresholds,
+    thresholdRange,
+} from '../../src/services/clusterEval.js';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/clustering/labeled-articles.json');
+const corpus: LabeledArticle[] = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')).articles;
+
+const labels = new Map([['a', 'x'], ['b', 'x'], ['c', 'y'], ['d', 'y']]);
+
+describe('scoreClustering', () => {
+    it('scores a perfect partition 1 on every metric', () => {
+        expect(scoreClustering([['a', 'b'], ['c', 'd']], labels)).toEqual({
+            clusters: 2,
+            purity: 1,
+            bcubedPrecision: 1,
+            bcubedRecall: 1,
+            bcubedF1: 1,
+            ari: 1,
+        });
+    });
+
+    it('matches known values for a split event', () => {
+        // scikit-learn: adjusted_rand_score([0, 0, 1, 1], [0, 0, 1, 2]) = 4/7
+        const scores = scoreClustering([['a', 'b'], ['c'], ['d']], labels);
+
+        expect(scores.purity).toBe(1);
+        expect(scores.bcubedPrecision).toBe(1);
+        expect(scores.bcubedRecall).toBe(0.75);
+        expect(scores.ari).toBeCloseTo(4 / 7, 10);
+    });
+
+    it('penalizes lumping everything together', () => {
+        const scores = scoreClustering([['a', 'b', 'c', 'd']], labels);
+
+        expect(scores.purity).toBe(0.5);
+        expect(scores.bcubedPrecision).toBe(0.5);
+        expect(scores.bcubedRecall).toBe(1);
+        expect(scores.ari).toBe(0);
+    });
+});
+
+describe('thresholdRange', () => {
+    it('includes both ends without float drift', () => {
+        expect(thresholdRange(0.1, 0.3, 0.05)).toEqual([0.1, 0.15, 0.2, 0.25, 0.3]);
+    });
+});
+
+describe('labeled fixture corpus', () => {
+    it('keeps every event apart at a strict threshold', () => {
+        const scores = evaluateClustering(corpus, { threshold: 0.3 });
+
+        expect(scores.purity).toBe(1);
+        expect(scores.bcubedPrecision).toBe(1);
+    });
+
+    it.each(['greedy', 'agglomerative', 'hdbscan'] as const)('finds a threshold where %s recovers the events', (algorithm) => {
+        const rows = sweepThresholds(corpus, thresholdRange(0.05, 0.3, 0.05), { algorithm });
+        const best = Math.max(...rows.map((r) => r.bcubedF1));
+
+        expect(best).toBeGreaterThan(0.85);
+    });
+
+    it('stars the best row in the report', () => {
+        const rows = sweepThresholds(corpus, [0.1, 0.4]);
+        const report = formatReport(rows).split('\n');
+
+        expect(report[0]).toMatch(/threshold\s+clusters\s+purity/);
+        expect(report[1]).toContain('*0.100');
+        expect(report[2]).not.toContain('*');
+    });
+});
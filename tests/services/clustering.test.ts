@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({ writes: [] as string[] }));
+
+vi.mock('../../src/config/database.js', () => ({
+    supabase: {
+        from: (table: string) => ({
+            select: () => ({
+                eq: async () => ({
+                    data: [{ articles: { id: 'fed-1', title: 'Fed raises rates', url: 'https://example.com/fed-1', published_at: '2026-01-20T00:00:00Z' } }],
+                    error: null,
+                }),
+            }),
+            update: () => ({
+                eq: async () => {
+                    db.writes.push(table);
+                    return { error: null };
+                },
+            }),
+        }),
+    },
+}));
+vi.mock('../../src/ai/synthesis.js', () => ({
+    FALLBACK_MODEL: 'excerpt-fallback',
+    synthesizeArticles: async () => ({ title: 'Fed raises rates', summary: '', sections: [], model: 'excerpt-fallback' }),
+}));
+
+import { createHashingProvider, EMBEDDING_DIMENSIONS } from '../../src/ai/embeddings.js';
+import { hashEmbedding } from '../../src/services/text.js';
+import {
+    clusterArticles,
+    extendCentroid,
+    matchArticlesToStories,
+    meanVector,
+    resynthesizeStory,
+} from '../../src/services/clustering.js';
+
+function article(id: string, title: string, excerpt: string, hoursAgo: number) {
+    return {
+        id,
+        title,
+        excerpt,
+        url: `https://example.com/${id}`,
+        source: 'Example',
+        published_at: new Date(Date.UTC(2026, 0, 20) - hoursAgo * 3600000).toISOString(),
+        embedding: hashEmbedding(`${title}\n${excerpt}`, EMBEDDING_DIMENSIONS),
+    };
+}
+
+const articles = [
+    article('fed-1', 'Federal Reserve raises interest rates', 'The Fed lifted its benchmark rate a quarter point to cool inflation.', 1),
+    article('quake-1', 'Strong earthquake strikes off the coast of Japan', 'A magnitude 7.1 quake triggered tsunami warnings in Miyagi.', 2),
+    article('fed-2', 'Fed hikes benchmark rate by quarter point', 'Policymakers raised interest rates again, citing stubborn inflation.', 3),
+    article('quake-2', 'Tsunami warning after magnitude 7.1 earthquake hits Japan', 'Residents of Miyagi evacuated after the strong quake.', 4),
+    article('chips-1', 'Chipmaker unveils new AI accelerator', 'The company said its latest processor doubles training throughput.', 5),
+];
+
+function clusterIds(clusters: ReturnType<typeof clusterArticles>) {
+    return clusters.map((c) => c.articles.map((a) => a.id).sort());
+}
+
+describe('clusterArticles', () => {
+    it('groups articles about the same event by embedding similarity', () => {
+        const clusters = clusterArticles(articles, { threshold: createHashingProvider().clusterThreshold, vectors: 'embedding' });
+
+        expect(clusterIds(clusters)).toEqual([['fed-1', 'fed-2'], ['quake-1', 'quake-2'], ['chips-1']]);
+    });
+
+    it('clusters by TF-IDF similarity without embeddings', () => {
+        const lexical = articles.map(({ embedding: _embedding, ...rest }) => rest);
+        const clusters = clusterArticles(lexical, { threshold: 0.2 });
+
+        expect(clusters.flatMap((c) => c.articles)).toHaveLength(articles.length);
+        expect(clusterIds(clusters)).toContainEqual(['chips-1']);
+    });
+});
+
+describe('story centroids', () => {
+    it('extends a centroid to the mean of all members', () => {
+        const members = [[1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 1, 0]];
+        const centroid = meanVector(members.slice(0, 2))!;
+
+        expect(extendCentroid(centroid, 2, members.slice(2))).toEqual(meanVector(members));
+        expect(meanVector([])).toBeNull();
+    });
+});
+
+describe('matchArticlesToStories', () => {
+    const threshold = createHashingProvider().clusterThreshold;
+
+    function story(id: string, members: typeof articles) {
+        return {
+            id,
+            source_count: members.length,
+            centroid: meanVector(members.map((a) => a.embedding))!,
+            pending_article_count: 0,
+            last_article_at: null,
+        };
+    }
+
+    it('attaches follow-ups to the most similar open story and leaves the rest', () => {
+        const [fed1, quake1, fed2, quake2, chips] = articles;
+        const stories = [story('fed', [fed1]), story('quake', [quake1])];
+
+        const { matches, unmatched } = matchArticlesToStories([fed2, quake2, chips], stories, threshold);
+
+        expect(matches.map((m) => [m.story.id, m.articles.map((a) => a.article.id)])).toEqual([
+            ['fed', ['fed-2']],
+            ['quake', ['quake-2']],
+        ]);
+        expect(matches[0].articles[0].similarity).toBeGreaterThanOrEqual(threshold);
+        expect(unmatched.map((a) => a.id)).toEqual(['chips-1']);
+    });
+
+    it('leaves articles without embeddings unmatched', () => {
+        const [fed1, , fed2] = articles;
+        const { matches, unmatched } = matchArticlesToStories([{ ...fed2, embedding: null }], [story('fed', [fed1])], threshold);
+
+        expect(matches).toEqual([]);
+        expect(unmatched).toHaveLength(1);
+    });
+
+    it('never matches an article back into a story an editor detached it from', () => {
+        const [fed1, , fed2] = articles;
+        const detached = { ...fed2, excluded_story_ids: ['fed'] };
+        const { matches, unmatched } = matchArticlesToStories([detached], [story('fed', [fed1])], threshold);
+
+        expect(matches).toEqual([]);
+        expect(unmatched.map((a) => a.id)).toEqual(['fed-2']);
+    });
+});
+
+describe('resynthesizeStory', () => {
+    it('keeps the current synthesis when only the excerpt fallback answered', async () => {
+        db.writes = [];
+
+        expect(await resynthesizeStory('story-1')).toBe(false);
+        expect(db.writes).toEqual([]);
+    });
+});
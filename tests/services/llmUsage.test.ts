@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { LLMUsageRow, summarizeLLMUsage } from '../../src/services/llmUsage.js';
+import { cacheKey, promptHash } from '../../src/ai/llmCache.js';
+
+function row(overrides: Partial<LLMUsageRow>): LLMUsageRow {
+    return {
+        date: '2026-02-02',
+        job_type: 'analysis',
+        provider: 'groq',
+        model: 'llama-3.3-70b-versatile',
+        calls: 0,
+        failures: 0,
+        cache_hits: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        latency_ms: 0,
+        ...overrides,
+    };
+}
+
+describe('summarizeLLMUsage', () => {
+    it('totals tokens and average latency per job type and lists days newest first', () => {
+        const report = summarizeLLMUsage([
+            row({ date: '2026-02-01', calls: 10, failures: 1, prompt_tokens: 5000, completion_tokens: 1000, latency_ms: 8000 }),
+            row({ calls: 2, cache_hits: 4, prompt_tokens: 1000, completion_tokens: 200, latency_ms: 1000 }),
+            row({ job_type: 'synthesis', provider: 'gemini', model: 'gemini-2.0-flash', cache_hits: 3 }),
+        ], '2026-01-27');
+
+        expect(report.since).toBe('2026-01-27');
+        expect(report.by_job_type).toEqual({
+            analysis: {
+                calls: 12,
+                failures: 1,
+                cache_hits: 4,
+                prompt_tokens: 6000,
+                completion_tokens: 1200,
+                total_tokens: 7200,
+                avg_latency_ms: 750,
+            },
+            synthesis: {
+                calls: 0,
+                failures: 0,
+                cache_hits: 3,
+                prompt_tokens: 0,
+                completion_tokens: 0,
+                total_tokens: 0,
+                avg_latency_ms: null,
+            },
+        });
+        expect(report.daily.map(d => [d.date, d.job_type, d.provider])).toEqual([
+            ['2026-02-02', 'analysis', 'groq'],
+            ['2026-02-02', 'synthesis', 'gemini'],
+            ['2026-02-01', 'analysis', 'groq'],
+        ]);
+    });
+});
+
+describe('cacheKey', () => {
+    const request = {
+        model: 'llama-3.3-70b-versatile',
+        messages: [{ role: 'user' as const, content: 'Analyze this.' }],
+        temperature: 0.1,
+        json: true,
+    };
+
+    it('changes with provider, model, prompt and temperature', () => {
+        const key = cacheKey('groq', request);
+
+        expect(cacheKey('groq', { ...request, messages: [...request.messages] })).toBe(key);
+        expect(cacheKey('gemini', request)).not.toBe(key);
+        expect(cacheKey('groq', { ...request, model: 'llama-3.1-8b-instant' })).not.toBe(key);
+        expect(cacheKey('groq', { ...request, temperature: 0.3 })).not.toBe(key);
+        expect(cacheKey('groq', { ...request, messages: [{ role: 'user', content: 'Analyze that.' }] })).not.toBe(key);
+        expect(promptHash(request.messages)).toMatch(/^[0-9a-f]{64}$/);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { applyKeyset, decodeCursor, encodeCursor, InvalidCursorError, keysetFilter, toPage } from '../../src/services/pagination.js';
+
+const byPublished = { column: 'published_at' };
+const byName = { column: 'name', ascending: true };
+
+function recordingQuery() {
+    const calls: Array<[string, ...unknown[]]> = [];
+    const query: any = {
+        calls,
+        order: (...args: unknown[]) => (calls.push(['order', ...args]), query),
+        or: (...args: unknown[]) => (calls.push(['or', ...args]), query),
+        limit: (...args: unknown[]) => (calls.push(['limit', ...args]), query),
+    };
+    return query;
+}
+
+describe('cursors', () => {
+    it('round-trips the sort value and id of a row', () => {
+        const cursor = encodeCursor(byPublished, { id: 'b', published_at: '2026-01-02T00:00:00+00:00', title: 'ignored' });
+
+        expect(cursor).toMatch(/^[\w-]+$/);
+        expect(decodeCursor(byPublished, cursor)).toEqual({ c: 'published_at', v: '2026-01-02T00:00:00+00:00', id: 'b' });
+    });
+
+    it('rejects garbage and cursors issued for another sort', () => {
+        const cursor = encodeCursor(byName, { id: 'a', name: 'Acme' });
+
+        expect(() => decodeCursor(byPublished, cursor)).toThrow(InvalidCursorError);
+        expect(() => decodeCursor(byPublished, 'not-a-cursor')).toThrow(InvalidCursorError);
+        expect(new InvalidCursorError().statusCode).toBe(400);
+    });
+});
+
+describe('keysetFilter', () => {
+    it('selects rows after the cursor, including the null tail', () => {
+        expect(keysetFilter(byPublished, { c: 'published_at', v: '2026-01-02', id: 'b' })).toBe(
+            'published_at.lt."2026-01-02",and(published_at.eq."2026-01-02",id.lt."b"),published_at.is.null'
+        );
+    });
+
+    it('walks the null tail by id once the cursor is in it', () => {
+        expect(keysetFilter(byPublished, { c: 'published_at', v: null, id: 'b' })).toBe('and(published_at.is.null,id.lt."b")');
+    });
+
+    it('quotes values so names with commas and quotes stay one value', () => {
+        expect(keysetFilter(byName, { c: 'name', v: 'Smith, "J" (Jr)', id: 'a' })).toBe(
+            'name.gt."Smith, \\"J\\" (Jr)",and(name.eq."Smith, \\"J\\" (Jr)",id.gt."a"),name.is.null'
+        );
+    });
+});
+
+describe('applyKeyset and toPage', () => {
+    const rows = [
+        { id: 'c', published_at: '2026-01-03' },
+        { id: 'b', published_at: '2026-01-02' },
+        { id: 'a', published_at: '2026-01-02' },
+    ];
+
+    it('orders by column then id and over-fetches by one', () => {
+        const query = recordingQuery();
+        applyKeyset(query, byPublished, 2);
+
+        expect(query.calls).toEqual([
+            ['order', 'published_at', { ascending: false, nullsFirst: false }],
+            ['order', 'id', { ascending: false, nullsFirst: false }],
+            ['limit', 3],
+        ]);
+    });
+
+    it('continues from the last row of the previous page', () => {
+        const first = toPage(rows, byPublished, 2, 3);
+        expect(first.data.map((row) => row.id)).toEqual(['c', 'b']);
+        expect(first.total).toBe(3);
+
+        const query = recordingQuery();
+        applyKeyset(query, byPublished, 2, first.next_cursor!);
+        expect(query.calls).toContainEqual(['or', 'published_at.lt."2026-01-02",and(published_at.eq."2026-01-02",id.lt."b"),published_at.is.null']);
+    });
+
+    it('has no next cursor on the last page', () => {
+        expect(toPage(rows, byPublished, 3)).toEqual({ data: rows, next_cursor: null, total: null });
+        expect(toPage(null, byPublished, 3)).toEqual({ data: [], next_cursor: null, total: null });
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const updates: Array<Record<string, any>> = [];
+
+vi.mock('../../src/config/database.js', () => {
+    const query: any = {
+        update: (values: Record<string, any>) => {
+            updates.push(values);
+            return query;
+        },
+        eq: () => query,
+        then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+    };
+    return { supabase: { from: () => query, rpc: async () => ({ data: true, error: null }) } };
+});
+
+import { backoffDelay, Job, registerJobHandler, runJob } from '../../src/services/queue.js';
+
+function job(overrides: Partial<Job> = {}): Job {
+    return {
+        id: 'job-1',
+        job_type: 'test',
+        status: 'running',
+        payload: {},
+        result: null,
+        message: null,
+        items_processed: 0,
+        attempts: 1,
+        max_attempts: 3,
+        run_at: '2026-01-25T00:00:00.000Z',
+        enqueued_at: null,
+        started_at: null,
+        completed_at: null,
+        locked_by: 'worker',
+        locked_until: null,
+        heartbeat_at: null,
+        last_error: null,
+        dedupe_key: null,
+        ...overrides,
+    };
+}
+
+let outcome: () => Promise<{ message: string; itemsProcessed?: number }>;
+registerJobHandler('test', () => outcome());
+
+describe('backoffDelay', () => {
+    it('doubles per attempt and caps at an hour', () => {
+        expect(backoffDelay(1)).toBe(30_000);
+        expect(backoffDelay(2)).toBe(60_000);
+        expect(backoffDelay(4)).toBe(240_000);
+        expect(backoffDelay(20)).toBe(3_600_000);
+    });
+});
+
+describe('runJob', () => {
+    beforeEach(() => {
+        updates.length = 0;
+    });
+
+    it('records a completed job with its outcome', async () => {
+        outcome = async () => ({ message: 'done', itemsProcessed: 4 });
+        await runJob(job(), 'worker');
+
+        expect(updates[0]).toMatchObject({ status: 'completed', message: 'done', items_processed: 4, locked_by: null });
+    });
+
+    it('requeues a failed job with backoff while attempts remain', async () => {
+        outcome = async () => { throw new Error('provider down'); };
+        const before = Date.now();
+        await runJob(job({ attempts: 2 }), 'worker');
+
+        expect(updates[0]).toMatchObject({ status: 'queued', last_error: 'provider down', completed_at: null });
+        expect(new Date(updates[0].run_at).getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    });
+
+    it('dead-letters a job on its last attempt', async () => {
+        outcome = async () => { throw new Error('still down'); };
+        await runJob(job({ attempts: 3 }), 'worker');
+
+        expect(updates[0]).toMatchObject({ status: 'dead', message: 'Failed after 3 attempts: still down' });
+    });
+
+    it('dead-letters jobs without a handler', async () => {
+        await runJob(job({ job_type: 'unknown' }), 'worker');
+
+        expect(updates[0]).toMatchObject({ status: 'dead', last_error: 'No handler for job type unknown' });
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const usage = { requests_used: 0 };
+
+vi.mock('../../src/config/database.js', () => {
+    const query: any = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: { ...usage }, error: null }),
+    };
+    return { supabase: { from: () => query } };
+});
+
+import { assertQuota, getRunBudget, QuotaExceededError, splitBudget } from '../../src/services/quota.js';
+
+describe('splitBudget', () => {
+    it('spreads the remaining budget over the slots left today', () => {
+        // 24 hourly slots left at midnight
+        expect(splitBudget(200, 60, new Date('2026-01-19T00:00:00Z'))).toBe(8);
+        // 4 slots left at 20:00
+        expect(splitBudget(20, 60, new Date('2026-01-19T20:00:00Z'))).toBe(5);
+    });
+
+    it('hands the whole remainder to the last slot', () => {
+        expect(splitBudget(7, 60, new Date('2026-01-19T23:30:00Z'))).toBe(7);
+    });
+
+    it('returns zero when a slot share rounds down or nothing is left', () => {
+        expect(splitBudget(3, 60, new Date('2026-01-19T00:00:00Z'))).toBe(0);
+        expect(splitBudget(0, 60)).toBe(0);
+    });
+});
+
+describe('assertQuota', () => {
+    beforeEach(() => {
+        usage.requests_used = 0;
+    });
+
+    it('allows calls under the limit', async () => {
+        usage.requests_used = 50;
+        await expect(assertQuota('gnews', { dailyLimit: 100 })).resolves.toBeUndefined();
+    });
+
+    it('keeps a reserve for manual runs', async () => {
+        usage.requests_used = 95;
+        await expect(assertQuota('gnews', { dailyLimit: 100 })).rejects.toBeInstanceOf(QuotaExceededError);
+        await expect(assertQuota('gnews', { dailyLimit: 100 }, { useReserve: true })).resolves.toBeUndefined();
+    });
+
+    it('never allows exceeding the limit', async () => {
+        usage.requests_used = 100;
+        await expect(assertQuota('gnews', { dailyLimit: 100 }, { useReserve: true }))
+            .rejects.toThrow('Daily quota exhausted for gnews (100/100)');
+    });
+
+    it('ignores unmetered services', async () => {
+        usage.requests_used = 10_000;
+        await expect(assertQuota('rss', { dailyLimit: null })).resolves.toBeUndefined();
+    });
+});
+
+describe('getRunBudget', () => {
+    it('excludes the reserve from the scheduled budget', async () => {
+        usage.requests_used = 100;
+        // 200 limit - 100 used - 10 reserve = 90 over 24 slots
+        expect(await getRunBudget('newsdata', { dailyLimit: 200 }, 60, new Date('2026-01-19T00:00:00Z'))).toBe(3);
+    });
+
+    it('is unlimited for unmetered services', async () => {
+        expect(await getRunBudget('rss', { dailyLimit: null }, 60)).toBe(Infinity);
+    });
+});
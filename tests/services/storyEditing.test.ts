@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Table rows a query resolves to, and every write and RPC made
+const db = vi.hoisted(() => ({
+    tables: {} as Record<string, any[]>,
+    writes: [] as Array<{ table: string; op: string; values?: unknown; filters: Array<[string, unknown]> }>,
+    rpc: [] as Array<{ name: string; args: any }>,
+    rpcResult: null as unknown,
+}));
+
+vi.mock('../../src/config/database.js', () => {
+    function query(table: string) {
+        const filters: Array<[string, unknown]> = [];
+        let op = 'select';
+        let values: unknown;
+
+        const rows = () => (db.tables[table] || []).filter((r) =>
+            filters.every(([column, value]) => (Array.isArray(value) ? value.includes(r[column]) : r[column] === value))
+        );
+        const record = () => {
+            if (op !== 'select') db.writes.push({ table, op, values, filters: [...filters] });
+        };
+
+        const builder: any = {
+            select: () => builder,
+            order: () => builder,
+            limit: () => builder,
+            eq: (column: string, value: unknown) => { filters.push([column, value]); return builder; },
+            in: (column: string, value: unknown[]) => { filters.push([column, value]); return builder; },
+            insert: (v: unknown) => { op = 'insert'; values = v; return builder; },
+            upsert: (v: unknown) => { op = 'upsert'; values = v; return builder; },
+            update: (v: unknown) => { op = 'update'; values = v; return builder; },
+            delete: () => { op = 'delete'; return builder; },
+            single: async () => { record(); return { data: rows()[0] ?? null, error: null }; },
+            maybeSingle: async () => { record(); return { data: rows()[0] ?? null, error: null }; },
+            then: (resolve: (value: unknown) => void) => { record(); resolve({ data: rows(), error: null }); },
+        };
+        return builder;
+    }
+
+    return {
+        supabase: {
+            from: query,
+            rpc: async (name: string, args: unknown) => {
+                db.rpc.push({ name, args });
+                return { data: db.rpcResult, error: null };
+            },
+        },
+    };
+});
+
+const resynthesized = vi.hoisted(() => [] as string[]);
+vi.mock('../../src/services/clustering.js', () => ({
+    resynthesizeStory: async (id: string) => {
+        resynthesized.push(id);
+        return true;
+    },
+}));
+
+import {
+    attachArticles,
+    detachArticle,
+    mergeStories,
+    splitStory,
+    StoryEditError,
+} from '../../src/services/storyEditing.js';
+
+const A = '00000000-0000-4000-8000-00000000000a';
+const B = '00000000-0000-4000-8000-00000000000b';
+const C = '00000000-0000-4000-8000-00000000000c';
+
+function links(storyId: string, articles: Array<{ id: string; title: string; published_at: string }>) {
+    return articles.map((article) => ({ story_id: storyId, article_id: article.id, articles: article }));
+}
+
+const fed1 = { id: 'fed-1', title: 'Fed raises rates', published_at: '2026-01-20T10:00:00Z' };
+const fed2 = { id: 'fed-2', title: 'Fed hikes again', published_at: '2026-01-20T12:00:00Z' };
+const quake = { id: 'quake-1', title: 'Quake hits Japan', published_at: '2026-01-20T11:00:00Z' };
+
+const writesTo = (table: string, op?: string) => db.writes.filter((w) => w.table === table && (!op || w.op === op));
+
+beforeEach(() => {
+    db.tables = {
+        stories: [
+            { id: A, slug: 'fed-raises-rates-aaaa', title: 'Fed raises rates', pending_article_count: 0, last_article_at: null },
+            { id: B, slug: 'fed-hike-bbbb', title: 'Fed hike', pending_article_count: 0, last_article_at: null },
+        ],
+        story_articles: [...links(A, [fed1, quake]), ...links(B, [fed2])],
+        articles: [fed1, fed2, quake],
+        story_audit_log: [],
+        story_article_exclusions: [],
+    };
+    db.writes = [];
+    db.rpc = [];
+    db.rpcResult = null;
+    resynthesized.length = 0;
+});
+
+describe('mergeStories', () => {
+    it('merges through the RPC and records an audit entry', async () => {
+        const result = await mergeStories(A, B, { actorId: 'editor-1', resynthesize: true });
+
+        expect(db.rpc).toEqual([{ name: 'merge_stories', args: { p_target: A, p_source: B } }]);
+        expect(result).toMatchObject({ action: 'merge', story: { id: A }, related: { slug: 'fed-hike-bbbb' }, articleIds: ['fed-2'] });
+        expect(resynthesized).toEqual([A]);
+
+        const [audit] = writesTo('story_audit_log', 'insert');
+        expect(audit.values).toMatchObject({
+            story_id: A,
+            action: 'merge',
+            actor_id: 'editor-1',
+            details: { article_ids: ['fed-2'], resynthesized: [A], related: { id: B } },
+        });
+    });
+
+    it('rejects merging a story into itself or into a missing story', async () => {
+        await expect(mergeStories(A, A)).rejects.toBeInstanceOf(StoryEditError);
+        await expect(mergeStories(A, C)).rejects.toMatchObject({ statusCode: 404 });
+        expect(db.rpc).toEqual([]);
+    });
+});
+
+describe('splitStory', () => {
+    it('moves selected articles into a new story titled after the newest of them', async () => {
+        db.rpcResult = C;
+        db.tables.stories.push({ id: C, slug: 'quake-hits-japan-cccc', title: 'Quake hits Japan' });
+
+        const result = await splitStory(A, ['quake-1']);
+
+        expect(db.rpc[0]).toEqual({ name: 'split_story', args: { p_story: A, p_article_ids: ['quake-1'], p_title: 'Quake hits Japan' } });
+        expect(result).toMatchObject({ action: 'split', related: { id: C }, articleIds: ['quake-1'], resynthesized: [] });
+    });
+
+    it('refuses articles outside the story and splits that would empty it', async () => {
+        await expect(splitStory(A, ['fed-2'])).rejects.toThrow('Articles not in story');
+        await expect(splitStory(A, ['fed-1', 'quake-1'])).rejects.toThrow('at least one article');
+        expect(db.rpc).toEqual([]);
+    });
+});
+
+describe('attachArticles', () => {
+    it('moves articles in one RPC and re-synthesizes the stories they left', async () => {
+        const fed3 = { id: 'fed-3', title: 'Markets react to Fed', published_at: '2026-01-20T13:00:00Z' };
+        db.tables.story_articles.push(...links(B, [fed3]));
+        db.rpcResult = [{ attached_id: 'fed-2', previous_story_id: B }];
+
+        const result = await attachArticles(A, ['fed-2', 'fed-1'], { resynthesize: true });
+
+        expect(db.rpc).toEqual([{ name: 'attach_articles', args: { p_story: A, p_article_ids: ['fed-2', 'fed-1'] } }]);
+        expect(writesTo('story_articles')).toEqual([]);
+        expect(result.articleIds).toEqual(['fed-2']);
+        expect(resynthesized).toEqual([A, B]);
+
+        const [audit] = writesTo('story_audit_log', 'insert');
+        expect((audit.values as any).details.moved_from).toEqual({ 'fed-2': B });
+    });
+
+    it('refuses to empty the story an article leaves', async () => {
+        await expect(attachArticles(A, ['fed-2'])).rejects.toThrow('merge it instead');
+        expect(db.rpc).toEqual([]);
+    });
+
+    it('reports articles that do not exist', async () => {
+        await expect(attachArticles(A, ['missing'])).rejects.toMatchObject({ statusCode: 404 });
+    });
+});
+
+describe('detachArticle', () => {
+    it('removes the link and excludes the article from the story', async () => {
+        await detachArticle(A, 'quake-1', { resynthesize: true });
+
+        expect(writesTo('story_article_exclusions', 'upsert')[0].values).toEqual({ story_id: A, article_id: 'quake-1' });
+        expect(resynthesized).toEqual([A]);
+    });
+
+    it('404s when the article is not in the story', async () => {
+        await expect(detachArticle(A, 'fed-2')).rejects.toMatchObject({ statusCode: 404 });
+        expect(writesTo('story_article_exclusions')).toEqual([]);
+    });
+
+    it('refuses to remove a story\'s last article', async () => {
+        await expect(detachArticle(B, 'fed-2')).rejects.toMatchObject({ statusCode: 400 });
+        expect(writesTo('story_articles')).toEqual([]);
+    });
+});
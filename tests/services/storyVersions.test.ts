@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database.js', () => ({ supabase: {} }));
+
+import { diffVersions, StoryVersion } from '../../src/services/storyVersions.js';
+import { diffSequences, splitSentences } from '../../src/services/text.js';
+
+function version(number: number, overrides: Partial<StoryVersion> = {}): StoryVersion {
+    return {
+        id: `v${number}`,
+        story_id: 'story-1',
+        version: number,
+        title: 'Fed raises rates',
+        summary: 'The Fed raised rates. Markets fell.',
+        sections: [
+            { title: 'Summary', content: 'The Fed raised rates by 25 points [AP]. Markets fell [Reuters].', citations: [] },
+            { title: 'Background', content: 'Inflation stayed high [AP].', citations: [] },
+        ],
+        article_ids: ['a1', 'a2'],
+        model: 'llama-3.3-70b-versatile',
+        prompt_version: 'abc123',
+        reason: 'created',
+        verification: null,
+        created_at: '2026-01-31T00:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('diffSequences', () => {
+    it('keeps common items and lists removals before additions', () => {
+        expect(diffSequences(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+            { op: 'equal', text: 'a' },
+            { op: 'removed', text: 'b' },
+            { op: 'added', text: 'x' },
+            { op: 'equal', text: 'c' },
+            { op: 'added', text: 'd' },
+        ]);
+        expect(diffSequences([], [])).toEqual([]);
+    });
+
+    it('splits paragraphs into sentences', () => {
+        expect(splitSentences('One [AP]. Two?  Three!')).toEqual(['One [AP].', 'Two?', 'Three!']);
+    });
+});
+
+describe('diffVersions', () => {
+    it('reports nothing but unchanged sections for identical versions', () => {
+        const diff = diffVersions(version(1), version(2));
+
+        expect(diff).toMatchObject({ from: 1, to: 2, title: null, summary: null, model: null, prompt_version: null });
+        expect(diff.sections.map((s) => s.status)).toEqual(['unchanged', 'unchanged']);
+        expect(diff.articles).toEqual({ added: [], removed: [] });
+    });
+
+    it('compares sections by title, sentence by sentence', () => {
+        const corrected = version(2, {
+            title: 'Fed raises rates by a quarter point',
+            sections: [
+                { title: 'Summary', content: 'The Fed raised rates by 25 basis points [AP]. Markets fell [Reuters].', citations: [] },
+                { title: 'Reactions', content: 'Banks welcomed the move [FT].', citations: [] },
+            ],
+            article_ids: ['a1', 'a2', 'a3'],
+            prompt_version: 'def456',
+        });
+
+        const diff = diffVersions(version(1), corrected);
+
+        expect(diff.title).toEqual({ from: 'Fed raises rates', to: 'Fed raises rates by a quarter point' });
+        expect(diff.sections.map((s) => [s.title, s.status])).toEqual([
+            ['Summary', 'changed'],
+            ['Reactions', 'added'],
+            ['Background', 'removed'],
+        ]);
+        expect(diff.sections[0].changes).toEqual([
+            { op: 'removed', text: 'The Fed raised rates by 25 points [AP].' },
+            { op: 'added', text: 'The Fed raised rates by 25 basis points [AP].' },
+            { op: 'equal', text: 'Markets fell [Reuters].' },
+        ]);
+        expect(diff.articles).toEqual({ added: ['a3'], removed: [] });
+        expect(diff.prompt_version).toEqual({ from: 'abc123', to: 'def456' });
+    });
+});